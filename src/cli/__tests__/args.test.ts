@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { parseCommand } from '../args';
+
+describe('parseCommand', () => {
+  it('parses a run with documents and participants', () => {
+    const command = parseCommand([
+      'run',
+      '--mode',
+      'work_meetings',
+      '--docs',
+      'resume.pdf',
+      '--docs',
+      'notes.md',
+      '--participant',
+      'Dana',
+      '--format',
+      'jsonl',
+      'input.wav',
+    ]);
+
+    expect(command).toEqual({
+      command: 'run',
+      options: {
+        input: path.resolve('input.wav'),
+        session: {
+          mode: 'work_meetings',
+          language: 'auto',
+          context: {
+            documents: [path.resolve('resume.pdf'), path.resolve('notes.md')],
+            participants: ['Dana'],
+          },
+        },
+        format: 'jsonl',
+        configPath: undefined,
+        saveDir: undefined,
+      },
+    });
+  });
+
+  it('defaults to job interviews and text output', () => {
+    const command = parseCommand(['run', 'input.wav']);
+
+    expect(command).toMatchObject({
+      command: 'run',
+      options: { session: { mode: 'job_interviews' }, format: 'text' },
+    });
+  });
+
+  it('shows help without a command', () => {
+    expect(parseCommand([])).toEqual({ command: 'help' });
+    expect(parseCommand(['run', '--help'])).toEqual({ command: 'help' });
+  });
+
+  it('rejects unknown modes, formats and missing input', () => {
+    expect(() => parseCommand(['run', '--mode', 'karaoke', 'input.wav'])).toThrow('Unknown mode');
+    expect(() => parseCommand(['run', '--format', 'xml', 'input.wav'])).toThrow('Unknown format');
+    expect(() => parseCommand(['run'])).toThrow('Expected exactly one input file');
+    expect(() => parseCommand(['serve'])).toThrow('Unknown command');
+  });
+});
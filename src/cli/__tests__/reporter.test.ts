@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createReporter } from '../reporter';
+import type { TranscriptEntry } from '../../core/session';
+
+const entry: TranscriptEntry = {
+  text: 'Tell me about yourself',
+  timestamp: 1,
+  speaker: 'other',
+  start: 61.5,
+  end: 64,
+  confidence: 0.9,
+  words: null,
+  language: 'en',
+};
+
+const suggestionRecord = {
+  timestamp: 2,
+  transcript: 'Tell me about yourself',
+  suggestions: [{ text: 'Lead with your current role' }],
+  latencyMs: 1800,
+};
+
+describe('createReporter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Replays a transcript at 2.1s and its suggestions at 3.9s
+  const replay = (reporter: ReturnType<typeof createReporter>) => {
+    vi.advanceTimersByTime(2000);
+    reporter.handle({
+      type: 'transcript',
+      phase: 'partial',
+      partial: { source: 'system', text: 'Tell me', timestamp: 0 },
+    });
+    vi.advanceTimersByTime(100);
+    reporter.handle({ type: 'transcript', phase: 'final', entry, transcripts: [entry] });
+    reporter.handle({ type: 'metrics', metrics: { stage: 'transcription', latencyMs: 400, audioSeconds: 2.5 } });
+    vi.advanceTimersByTime(1800);
+    reporter.handle({ type: 'suggestion', phase: 'final', record: suggestionRecord });
+  };
+
+  it('prints readable lines with audio positions and timings', () => {
+    const lines: string[] = [];
+    const reporter = createReporter('text', (line) => lines.push(line));
+
+    replay(reporter);
+    reporter.handle({ type: 'error', stage: 'suggestions', message: 'Ollama is not running' });
+
+    expect(lines).toEqual([
+      '[01:01.5-01:04.0] other: Tell me about yourself  (at 2.1s)',
+      '  -> Lead with your current role',
+      '     (1 suggestions in 1.8s)',
+      'error: suggestions: Ollama is not running',
+    ]);
+  });
+
+  it('writes one JSON object per line', () => {
+    const lines: string[] = [];
+    const reporter = createReporter('jsonl', (line) => lines.push(line));
+
+    replay(reporter);
+    reporter.summary({
+      fileName: 'input.wav',
+      durationSeconds: 64,
+      processingMs: 16000,
+      transcripts: 1,
+      suggestionSets: 1,
+      averageSuggestionLatencyMs: 1800,
+      savedTo: null,
+    });
+
+    const events = lines.map((line) => JSON.parse(line));
+    expect(events.map((event) => event.type)).toEqual(['transcript', 'suggestions', 'summary']);
+    expect(events[0]).toMatchObject({ elapsedMs: 2100, text: 'Tell me about yourself', start: 61.5 });
+    expect(events[1]).toMatchObject({ latencyMs: 1800, suggestions: [{ text: 'Lead with your current role' }] });
+  });
+});
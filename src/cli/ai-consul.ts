@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { AIConsulEngine, EngineConfig } from '../core/engine';
+import { SessionManager } from '../core/session';
+import { decodeWav } from '../core/audio/wav';
+import { shutdownInferenceClient } from '../core/inference/client';
+import { DEFAULT_ENGINE_CONFIG, EngineConfigOverrides, mergeEngineConfig } from '../main/settings';
+import { SessionRecordFileStore } from '../main/session-records';
+import { RunOptions, USAGE, parseCommand } from './args';
+import { createReporter } from './reporter';
+
+function loadEngineConfig(configPath?: string): EngineConfig {
+  if (!configPath) {
+    return mergeEngineConfig(DEFAULT_ENGINE_CONFIG);
+  }
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read config ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    throw new Error(`Config ${configPath} must be a JSON object of EngineConfig sections`);
+  }
+  return mergeEngineConfig(DEFAULT_ENGINE_CONFIG, overrides as EngineConfigOverrides);
+}
+
+async function run(options: RunOptions): Promise<number> {
+  if (path.extname(options.input).toLowerCase() !== '.wav') {
+    throw new Error(
+      'Only WAV input is supported; convert other formats first, e.g. ffmpeg -i input.mp3 -ac 1 -ar 16000 input.wav'
+    );
+  }
+  const { samples, sampleRate } = decodeWav(fs.readFileSync(options.input));
+
+  const engine = new AIConsulEngine(loadEngineConfig(options.configPath));
+  await engine.initialize();
+
+  const session = new SessionManager(engine);
+  if (options.saveDir) {
+    session.setRecordStore(new SessionRecordFileStore(options.saveDir));
+  }
+
+  const startedAt = Date.now();
+  const reporter = createReporter(options.format, (line) => process.stdout.write(`${line}\n`));
+  session.addSink(reporter);
+
+  const record = await session.processRecording(options.session, {
+    fileName: path.basename(options.input),
+    samples,
+    sampleRate,
+  });
+  if (!record) {
+    return 1;
+  }
+
+  const latencies = record.suggestions.map((entry) => entry.latencyMs);
+  reporter.summary({
+    fileName: record.recording?.fileName ?? path.basename(options.input),
+    durationSeconds: record.recording?.durationSeconds ?? samples.length / sampleRate,
+    processingMs: record.recording?.processingMs ?? Date.now() - startedAt,
+    transcripts: record.transcripts.length,
+    suggestionSets: record.suggestions.length,
+    averageSuggestionLatencyMs:
+      latencies.length > 0 ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length : null,
+    savedTo: options.saveDir ? path.join(options.saveDir, `${record.id}.json`) : null,
+  });
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  // The core logs progress with console.log; stdout is reserved for results
+  console.log = console.error;
+  console.info = console.error;
+
+  let command;
+  try {
+    command = parseCommand(argv);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (command.command === 'help') {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  try {
+    return await run(command.options);
+  } catch (error) {
+    console.error(`ai-consul: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  } finally {
+    await shutdownInferenceClient();
+  }
+}
+
+void main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
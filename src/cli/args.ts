@@ -0,0 +1,103 @@
+import * as path from 'path';
+import { parseArgs } from 'util';
+import type { SessionConfig } from '../core/engine';
+
+export type OutputFormat = 'text' | 'jsonl';
+
+export const SESSION_MODES: SessionConfig['mode'][] = [
+  'job_interviews',
+  'work_meetings',
+  'education',
+  'chat_messaging',
+  'simulation_coaching',
+];
+
+export interface RunOptions {
+  input: string;
+  session: SessionConfig;
+  format: OutputFormat;
+  // JSON file with EngineConfig fields that replace the defaults
+  configPath?: string;
+  // Directory the finished session is saved to
+  saveDir?: string;
+}
+
+export type CliCommand = { command: 'help' } | { command: 'run'; options: RunOptions };
+
+export const USAGE = `Usage: ai-consul run [options] <input.wav>
+
+Runs a recording through transcription and suggestion generation and prints
+the results as they are produced.
+
+Options:
+  --mode <mode>          ${SESSION_MODES.join(' | ')} (default: job_interviews)
+  --docs <file>          Context document (.pdf, .docx, .txt, .md); repeatable
+  --participant <name>   Participant name, in speaking order; repeatable
+  --language <code>      Conversation language, or "auto" (default)
+  --persona <text>       Persona for suggestions
+  --format <format>      text | jsonl (default: text)
+  --config <file>        JSON file with engine settings to override
+  --save <dir>           Save the finished session as JSON in this directory
+  -h, --help             Show this help`;
+
+/**
+ * Parses the command line (without the node and script arguments). Invalid
+ * input throws with a message meant for the user.
+ */
+export function parseCommand(argv: string[]): CliCommand {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      mode: { type: 'string' },
+      docs: { type: 'string', multiple: true },
+      participant: { type: 'string', multiple: true },
+      language: { type: 'string' },
+      persona: { type: 'string' },
+      format: { type: 'string' },
+      config: { type: 'string' },
+      save: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...inputs] = positionals;
+  if (values.help || !command || command === 'help') {
+    return { command: 'help' };
+  }
+  if (command !== 'run') {
+    throw new Error(`Unknown command: ${command}`);
+  }
+  if (inputs.length !== 1) {
+    throw new Error('Expected exactly one input file');
+  }
+
+  const mode = (values.mode ?? 'job_interviews') as SessionConfig['mode'];
+  if (!SESSION_MODES.includes(mode)) {
+    throw new Error(`Unknown mode: ${values.mode}`);
+  }
+  const format = (values.format ?? 'text') as OutputFormat;
+  if (format !== 'text' && format !== 'jsonl') {
+    throw new Error(`Unknown format: ${values.format}`);
+  }
+
+  return {
+    command: 'run',
+    options: {
+      input: path.resolve(inputs[0]),
+      session: {
+        mode,
+        language: values.language ?? 'auto',
+        ...(values.persona ? { persona: values.persona } : {}),
+        context: {
+          // The RAG engine reads documents relative to the process, not the shell
+          documents: (values.docs ?? []).map((doc) => path.resolve(doc)),
+          participants: values.participant ?? [],
+        },
+      },
+      format,
+      configPath: values.config ? path.resolve(values.config) : undefined,
+      saveDir: values.save ? path.resolve(values.save) : undefined,
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import type { TranscriptEntry } from '../core/session';
+import type { SuggestionRecord } from '../core/session-record';
+import type { SessionEvent, SessionSink } from '../core/session-sink';
+import type { OutputFormat } from './args';
+
+export interface RunSummary {
+  fileName: string;
+  durationSeconds: number;
+  processingMs: number;
+  transcripts: number;
+  suggestionSets: number;
+  // Mean generation time per suggestion set; null without suggestions
+  averageSuggestionLatencyMs: number | null;
+  // Path of the saved session, when --save was given
+  savedTo: string | null;
+}
+
+/**
+ * Writes pipeline output as it arrives. Results go to stdout; the caller
+ * keeps log output on stderr so the stream stays machine-readable.
+ */
+export interface CliReporter extends SessionSink {
+  summary(summary: RunSummary): void;
+}
+
+// Final transcripts, suggestions and errors; interim output and status are skipped
+interface ReportWriter {
+  transcript(entry: TranscriptEntry, elapsedMs: number): void;
+  suggestions(record: SuggestionRecord, elapsedMs: number): void;
+  error(message: string): void;
+  summary(summary: RunSummary): void;
+}
+
+function formatPosition(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function createTextWriter(write: (line: string) => void): ReportWriter {
+  return {
+    transcript(entry, elapsedMs) {
+      const speaker = entry.speakerLabel ?? entry.speaker;
+      write(
+        `[${formatPosition(entry.start)}-${formatPosition(entry.end)}] ${speaker}: ${entry.text}  (at ${formatSeconds(elapsedMs)})`
+      );
+    },
+    suggestions(record) {
+      for (const suggestion of record.suggestions) {
+        write(`  -> ${suggestion.text}`);
+      }
+      write(`     (${record.suggestions.length} suggestions in ${formatSeconds(record.latencyMs)})`);
+    },
+    error(message) {
+      write(`error: ${message}`);
+    },
+    summary(summary) {
+      const speed = summary.durationSeconds / Math.max(summary.processingMs / 1000, 0.001);
+      write('');
+      write(
+        `Processed ${formatPosition(summary.durationSeconds)} of audio in ${formatSeconds(summary.processingMs)} (${speed.toFixed(1)}x real time)`
+      );
+      write(
+        `${summary.transcripts} transcripts, ${summary.suggestionSets} suggestion sets` +
+          (summary.averageSuggestionLatencyMs !== null
+            ? `, ${formatSeconds(summary.averageSuggestionLatencyMs)} average generation`
+            : '')
+      );
+      if (summary.savedTo) {
+        write(`Saved session to ${summary.savedTo}`);
+      }
+    },
+  };
+}
+
+function createJsonlWriter(write: (line: string) => void): ReportWriter {
+  return {
+    transcript(entry, elapsedMs) {
+      write(JSON.stringify({ type: 'transcript', elapsedMs, ...entry }));
+    },
+    suggestions(record, elapsedMs) {
+      write(JSON.stringify({ type: 'suggestions', elapsedMs, ...record }));
+    },
+    error(message) {
+      write(JSON.stringify({ type: 'error', message }));
+    },
+    summary(summary) {
+      write(JSON.stringify({ type: 'summary', ...summary }));
+    },
+  };
+}
+
+/**
+ * Creates a session sink that prints results as text or JSON lines. Elapsed
+ * times are measured from when the reporter is created.
+ */
+export function createReporter(format: OutputFormat, write: (line: string) => void): CliReporter {
+  const writer = format === 'jsonl' ? createJsonlWriter(write) : createTextWriter(write);
+  const startedAt = Date.now();
+
+  return {
+    handle(event: SessionEvent) {
+      if (event.type === 'transcript' && event.phase === 'final') {
+        writer.transcript(event.entry, Date.now() - startedAt);
+      } else if (event.type === 'suggestion' && event.phase === 'final') {
+        writer.suggestions(event.record, Date.now() - startedAt);
+      } else if (event.type === 'error') {
+        writer.error(`${event.stage}: ${event.message}`);
+      }
+    },
+    summary: (summary) => writer.summary(summary),
+  };
+}
@@ -15,6 +15,9 @@ vi.mock('../audio/vad', () => {
     this.isReady = vi.fn().mockResolvedValue(undefined);
     this.resetState = vi.fn();
     this.process = vi.fn().mockResolvedValue({ speech: false, pause: false });
+    this.getBackendName = vi.fn().mockReturnValue('energy');
+    this.setThresholds = vi.fn();
+    this.spotsKeywords = vi.fn().mockReturnValue(false);
   });
   return { VADProcessor };
 });
@@ -79,7 +82,12 @@ describe('AIConsulEngine', () => {
     it('should return transcript when local whisper succeeds', async () => {
       const transcribeSpy = vi
         .fn()
-        .mockResolvedValue('Hello, this is a test transcription');
+        .mockResolvedValue({
+          text: 'Hello, this is a test transcription',
+          words: null,
+          confidence: 0.9,
+          language: 'en',
+        });
       (engine as any).localWhisper = {
         initialize: vi.fn().mockResolvedValue(undefined),
         transcribe: transcribeSpy,
@@ -89,12 +97,17 @@ describe('AIConsulEngine', () => {
       const audioChunk = new Float32Array([0.1, 0.2, 0.3]);
       const result = await engine.transcribe(audioChunk);
 
-      expect(result).toBe('Hello, this is a test transcription');
-      expect(transcribeSpy).toHaveBeenCalledWith(audioChunk, 16000);
+      expect(result).toEqual({
+        text: 'Hello, this is a test transcription',
+        words: null,
+        confidence: 0.9,
+        language: 'en',
+      });
+      expect(transcribeSpy).toHaveBeenCalledWith(audioChunk, 16000, { language: null, vocabulary: [] });
     });
 
     it('should return empty string when local whisper returns no transcript', async () => {
-      const transcribeSpy = vi.fn().mockResolvedValue('');
+      const transcribeSpy = vi.fn().mockResolvedValue({ text: '', words: null, confidence: null, language: null });
       (engine as any).localWhisper = {
         initialize: vi.fn().mockResolvedValue(undefined),
         transcribe: transcribeSpy,
@@ -104,8 +117,24 @@ describe('AIConsulEngine', () => {
       const audioChunk = new Float32Array([0.1, 0.2, 0.3]);
       const result = await engine.transcribe(audioChunk);
 
-      expect(result).toBe('');
-      expect(transcribeSpy).toHaveBeenCalledWith(audioChunk, 16000);
+      expect(result.text).toBe('');
+      expect(transcribeSpy).toHaveBeenCalledWith(audioChunk, 16000, { language: null, vocabulary: [] });
+    });
+
+    it('decodes in the session language when one is set', async () => {
+      const transcribeSpy = vi
+        .fn()
+        .mockResolvedValue({ text: 'hallo', words: null, confidence: null, language: 'de' });
+      (engine as any).localWhisper = {
+        initialize: vi.fn().mockResolvedValue(undefined),
+        transcribe: transcribeSpy,
+      };
+
+      await engine.initialize();
+      await engine.startSession({ mode: 'work_meetings', language: 'de' });
+      await engine.transcribe(new Float32Array([0.1]));
+
+      expect(transcribeSpy).toHaveBeenCalledWith(expect.any(Float32Array), 16000, { language: 'de', vocabulary: [] });
     });
 
     it('should throw error when primary and fallback transcription fail', async () => {
@@ -141,6 +170,59 @@ describe('AIConsulEngine', () => {
         'Cloud transcription failed'
       );
     });
+
+    it('reports strict offline mode when it blocks the cloud transcriber', async () => {
+      engine = new AIConsulEngine({
+        ...config,
+        privacy: { ...config.privacy, strictOffline: true },
+        models: {
+          ...config.models,
+          transcription: { primary: 'cloud-whisper', fallback: 'cloud-whisper' },
+        },
+      });
+
+      await expect(engine.transcribe(new Float32Array([0.1, 0.2]))).rejects.toThrow(
+        'blocked by strict offline mode'
+      );
+    });
+  });
+
+  describe('updateConfig', () => {
+    it('rebuilds the LLM router with the new configuration', async () => {
+      const routerMock = vi.mocked(LLMRouter);
+      routerMock.mockClear();
+
+      const updated: EngineConfig = {
+        ...config,
+        models: {
+          ...config.models,
+          llm: { primary: 'ollama://phi3:mini', fallbacks: [] },
+        },
+      };
+
+      await engine.updateConfig(updated);
+
+      expect(routerMock).toHaveBeenCalledWith(updated);
+      expect(engine.getConfig()).toBe(updated);
+    });
+
+    it('reloads whisper when the model size changes after initialization', async () => {
+      const initializeSpy = vi.fn().mockResolvedValue(undefined);
+      (engine as any).localWhisper = { initialize: initializeSpy };
+
+      await engine.initialize();
+      initializeSpy.mockClear();
+
+      await engine.updateConfig({
+        ...config,
+        models: {
+          ...config.models,
+          transcription: { primary: 'local-whisper-small', fallback: 'cloud-whisper' },
+        },
+      });
+
+      expect(initializeSpy).toHaveBeenCalledWith('small');
+    });
   });
 
   describe('startSession', () => {
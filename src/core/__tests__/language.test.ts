@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { getForcedLanguage, normalizeSessionLanguage, toLanguageCode } from '../language';
+
+describe('language', () => {
+  it('normalizes codes, Whisper tokens and language names', () => {
+    const candidates = ['en', 'fr', 'de'];
+
+    expect(toLanguageCode('FR', candidates)).toBe('fr');
+    expect(toLanguageCode('<|de|>', candidates)).toBe('de');
+    expect(toLanguageCode('english', candidates)).toBe('en');
+    expect(toLanguageCode('klingon', candidates)).toBeNull();
+    expect(toLanguageCode(null, candidates)).toBeNull();
+  });
+
+  it('accepts auto and known language codes for a session', () => {
+    expect(normalizeSessionLanguage('Auto')).toBe('auto');
+    expect(normalizeSessionLanguage(' FR ')).toBe('fr');
+    expect(normalizeSessionLanguage('zz')).toBeNull();
+    expect(normalizeSessionLanguage('klingon')).toBeNull();
+  });
+
+  it('only forces a language when one is chosen', () => {
+    expect(getForcedLanguage(undefined)).toBeNull();
+    expect(getForcedLanguage('auto')).toBeNull();
+    expect(getForcedLanguage('ES')).toBe('es');
+  });
+});
@@ -1,7 +1,16 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { SessionManager, AudioChunk } from '../session';
-import type { AIConsulEngine, SessionConfig, Suggestion } from '../engine';
+import { SessionManager, AudioChunk, AudioChunkSource, TranscriptEntry } from '../session';
+import type { AIConsulEngine, SessionConfig, SpeakerIdentity, Suggestion } from '../engine';
 import type { VADProcessor } from '../audio/vad';
+import type { TranscriptionResult } from '../audio/whisper-local';
+import type { SessionEvent } from '../session-sink';
+
+const transcript = (text: string): TranscriptionResult => ({
+  text,
+  words: null,
+  confidence: null,
+  language: null,
+});
 
 describe('SessionManager', () => {
   let sessionManager: SessionManager;
@@ -11,43 +20,74 @@ describe('SessionManager', () => {
     generateSuggestions: ReturnType<typeof vi.fn>;
     stopSession: ReturnType<typeof vi.fn>;
     getVADProcessor: ReturnType<typeof vi.fn>;
+    getConfig: ReturnType<typeof vi.fn>;
+    identifySpeaker: ReturnType<typeof vi.fn>;
+    getSpeakerLabel: ReturnType<typeof vi.fn>;
+    renameSpeaker: ReturnType<typeof vi.fn>;
+    transcribePartial: ReturnType<typeof vi.fn>;
   };
   let vadMock: {
     process: ReturnType<typeof vi.fn>;
     resetState: ReturnType<typeof vi.fn>;
+    setEnergyThreshold: ReturnType<typeof vi.fn>;
+    getEnergyThreshold: ReturnType<typeof vi.fn>;
   };
 
-  const createChunk = (): AudioChunk => ({
+  const createChunk = (source?: AudioChunkSource): AudioChunk => ({
     data: new Float32Array(1600).fill(0.1),
     sampleRate: 16000,
     channels: 1,
     timestamp: Date.now(),
     maxAmplitude: 0.1,
+    source,
   });
 
   beforeEach(() => {
     vadMock = {
       process: vi.fn(),
       resetState: vi.fn(),
+      setEnergyThreshold: vi.fn(),
+      getEnergyThreshold: vi.fn().mockReturnValue(0.01),
     };
 
     engineMock = {
       startSession: vi.fn<[SessionConfig], Promise<void>>().mockResolvedValue(undefined),
-      transcribe: vi.fn<[Float32Array, number], Promise<string>>(),
+      transcribe: vi.fn<[Float32Array, number], Promise<TranscriptionResult>>(),
       generateSuggestions: vi.fn<[string], Promise<Suggestion[]>>(),
       stopSession: vi.fn(),
       getVADProcessor: vi.fn<[], VADProcessor | null>(),
+      getConfig: vi.fn().mockReturnValue({ performance: { latencyTarget: 5000 } }),
+      identifySpeaker: vi
+        .fn<[Float32Array], Promise<SpeakerIdentity>>()
+        .mockResolvedValue({ speakerId: null, isUser: null }),
+      getSpeakerLabel: vi.fn((speakerId: string) => speakerId),
+      renameSpeaker: vi.fn(),
+      transcribePartial: vi.fn<[Float32Array, number], Promise<string>>().mockResolvedValue(''),
     };
 
-    engineMock.transcribe.mockResolvedValue('');
+    engineMock.transcribe.mockResolvedValue(transcript(''));
     engineMock.generateSuggestions.mockResolvedValue([]);
     engineMock.getVADProcessor.mockReturnValue(vadMock as unknown as VADProcessor);
 
     sessionManager = new SessionManager(engineMock as unknown as AIConsulEngine);
   });
 
+  // Attaches a sink that keeps every published event
+  const recordEvents = () => {
+    const events: SessionEvent[] = [];
+    sessionManager.addSink({ handle: (event) => events.push(event) });
+    return events;
+  };
+
+  const latestTranscripts = (events: SessionEvent[]): TranscriptEntry[] => {
+    const updates = events.filter(
+      (event) => event.type === 'transcript' && event.phase !== 'partial'
+    ) as Array<{ transcripts: TranscriptEntry[] }>;
+    return updates[updates.length - 1].transcripts;
+  };
+
   it('transcribes buffered speech when VAD detects a pause', async () => {
-    engineMock.transcribe.mockResolvedValue('mock transcript');
+    engineMock.transcribe.mockResolvedValue(transcript('mock transcript'));
     engineMock.generateSuggestions.mockResolvedValue([]);
     vadMock.process
       .mockResolvedValueOnce({ speech: true, pause: false })
@@ -57,6 +97,7 @@ describe('SessionManager', () => {
 
     await sessionManager.processAudioChunk(createChunk());
     await sessionManager.processAudioChunk(createChunk());
+    await sessionManager.waitForIdle();
 
     expect(engineMock.transcribe).toHaveBeenCalledTimes(1);
 
@@ -64,8 +105,139 @@ describe('SessionManager', () => {
     expect(bufferArg).toBeInstanceOf(Float32Array);
     expect(bufferArg.length).toBe(1600);
     expect(sampleRateArg).toBe(16000);
-    expect(engineMock.generateSuggestions).toHaveBeenCalledWith('mock transcript');
-    expect(vadMock.process).toHaveBeenCalledWith(expect.any(Float32Array), 0.1);
+    expect(engineMock.generateSuggestions).toHaveBeenCalledWith(
+      'mock transcript',
+      expect.objectContaining({
+        onPartial: expect.any(Function),
+        signal: expect.any(AbortSignal),
+      })
+    );
+    expect(vadMock.process).toHaveBeenCalledWith(expect.any(Float32Array), 0.1, 'microphone');
+  });
+
+  it('calibrates the microphone noise floor and stores it per device', async () => {
+    vadMock.process.mockResolvedValue({ speech: false, pause: false });
+    engineMock.getConfig.mockReturnValue({
+      performance: { latencyTarget: 5000 },
+      vad: { backend: 'energy', calibration: { enabled: true, durationMs: 300 } },
+    });
+    const stored = { noiseFloor: 0.004, energyThreshold: 0.01, calibratedAt: 1 };
+    const store = { get: vi.fn().mockReturnValue(stored), save: vi.fn() };
+    sessionManager.setCalibrationStore(store);
+
+    await sessionManager.start({ mode: 'job_interviews', microphoneId: 'usb-mic' });
+    expect(store.get).toHaveBeenCalledWith('usb-mic');
+    expect(vadMock.setEnergyThreshold).toHaveBeenCalledWith(0.01, 'microphone');
+
+    // 100 ms chunks at a steady 0.02 peak; system audio does not count
+    await sessionManager.processAudioChunk({ ...createChunk('system'), maxAmplitude: 0.5 });
+    for (let i = 0; i < 3; i++) {
+      await sessionManager.processAudioChunk({ ...createChunk(), maxAmplitude: 0.02 });
+    }
+
+    expect(store.save).toHaveBeenCalledTimes(1);
+    const [deviceId, calibration] = store.save.mock.calls[0];
+    expect(deviceId).toBe('usb-mic');
+    expect(calibration.noiseFloor).toBe(0.02);
+    expect(vadMock.setEnergyThreshold).toHaveBeenLastCalledWith(calibration.energyThreshold, 'microphone');
+
+    await sessionManager.processAudioChunk(createChunk());
+    expect(store.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses, resumes and bookmarks on voice commands without transcribing them', async () => {
+    engineMock.getConfig.mockReturnValue({
+      performance: { latencyTarget: 5000 },
+      voiceCommands: { enabled: true },
+    });
+    engineMock.transcribe.mockResolvedValue(transcript('what about the budget'));
+    const events = recordEvents();
+    const commands: string[] = [];
+    sessionManager.on('voice-command', (command) => commands.push(command));
+
+    const word = (label: string) => ({ speech: true, pause: false, keyword: { label, score: 0.95 } });
+    const speech = { speech: true, pause: false, keyword: { label: '_unknown_', score: 0.9 } };
+    const pause = { speech: false, pause: true, keyword: null };
+    const utterance = async (...results: object[]) => {
+      for (const result of results) {
+        vadMock.process.mockResolvedValueOnce(result);
+        await sessionManager.processAudioChunk(createChunk());
+      }
+      await sessionManager.waitForIdle();
+    };
+
+    await sessionManager.start({ mode: 'job_interviews' });
+
+    await utterance(word('marvin'), word('stop'), pause);
+    await utterance(speech, speech, speech, pause);
+    expect(engineMock.transcribe).not.toHaveBeenCalled();
+    expect(events).toContainEqual({
+      type: 'status',
+      change: 'listening',
+      status: expect.objectContaining({ listening: false }),
+    });
+
+    await utterance(word('marvin'), word('go'), pause);
+    await utterance(speech, speech, speech, pause);
+    expect(engineMock.transcribe).toHaveBeenCalledTimes(1);
+
+    await utterance(word('marvin'), word('learn'), pause);
+    expect(commands).toEqual(['pause', 'resume', 'bookmark']);
+    expect(engineMock.transcribe).toHaveBeenCalledTimes(1);
+
+    const [latest] = latestTranscripts(events);
+    expect(latest).toMatchObject({ text: 'what about the budget', bookmarked: true });
+  });
+
+  it('drops hallucinated output before it reaches the transcript or the LLM', async () => {
+    engineMock.transcribe.mockResolvedValue(transcript('Thank you for watching!'));
+    vadMock.process
+      .mockResolvedValueOnce({ speech: true, pause: false })
+      .mockResolvedValueOnce({ speech: false, pause: true });
+    const filtered = vi.fn();
+    sessionManager.on('transcript-filtered', filtered);
+    const events = recordEvents();
+
+    await sessionManager.start({ mode: 'job_interviews' });
+    await sessionManager.processAudioChunk(createChunk());
+    await sessionManager.processAudioChunk(createChunk());
+    await sessionManager.waitForIdle();
+
+    expect(engineMock.generateSuggestions).not.toHaveBeenCalled();
+    expect(latestTranscripts(events)).toEqual([]);
+    expect(events.filter((event) => event.type === 'transcript' && event.phase === 'final')).toEqual([]);
+    expect(filtered).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Thank you for watching!', rule: 'known-phrase' })
+    );
+  });
+
+  it('publishes lifecycle and errors to every sink, even when one throws', async () => {
+    engineMock.transcribe.mockRejectedValue(new Error('model crashed'));
+    vadMock.process.mockResolvedValue({ speech: true, pause: true });
+    sessionManager.addSink({
+      handle: () => {
+        throw new Error('sink failed');
+      },
+    });
+    const events = recordEvents();
+
+    await sessionManager.start({ mode: 'work_meetings' });
+    await sessionManager.processAudioChunk(createChunk());
+    await sessionManager.waitForIdle();
+    await sessionManager.pause();
+    await sessionManager.stop();
+
+    expect(events).toContainEqual({ type: 'error', stage: 'transcription', message: 'model crashed' });
+    expect(events.flatMap((event) => (event.type === 'status' ? [event] : []))).toEqual([
+      {
+        type: 'status',
+        change: 'started',
+        status: { isActive: true, mode: 'work_meetings', listening: true, recording: false },
+      },
+      expect.objectContaining({ change: 'paused', status: expect.objectContaining({ isActive: false }) }),
+      expect.objectContaining({ change: 'stopped' }),
+    ]);
+    expect(events).toContainEqual({ type: 'suggestion', phase: 'cleared' });
   });
 
   it('does not transcribe until a pause is detected', async () => {
@@ -75,6 +247,452 @@ describe('SessionManager', () => {
     await sessionManager.processAudioChunk(createChunk());
 
     expect(engineMock.transcribe).not.toHaveBeenCalled();
-    expect(vadMock.process).toHaveBeenCalledWith(expect.any(Float32Array), 0.1);
+    expect(vadMock.process).toHaveBeenCalledWith(expect.any(Float32Array), 0.1, 'microphone');
+  });
+
+  it('cancels a stale generation when a newer transcript arrives', async () => {
+    const signals: AbortSignal[] = [];
+    engineMock.transcribe
+      .mockResolvedValueOnce(transcript('first question'))
+      .mockResolvedValueOnce(transcript('second question'));
+    engineMock.generateSuggestions.mockImplementation(
+      (_text: string, options: { signal: AbortSignal }) => {
+        signals.push(options.signal);
+        return new Promise((_resolve, reject) => {
+          options.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      }
+    );
+    vadMock.process.mockResolvedValue({ speech: true, pause: true });
+
+    const events = recordEvents();
+
+    await sessionManager.start({ mode: 'job_interviews' });
+    await sessionManager.processAudioChunk(createChunk());
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    await sessionManager.processAudioChunk(createChunk());
+    await vi.waitFor(() => expect(signals).toHaveLength(2));
+
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason).toBe('superseded');
+    expect(signals[1].aborted).toBe(false);
+    expect(events).toContainEqual({ type: 'suggestion', phase: 'cancelled', reason: 'superseded' });
+
+    await sessionManager.stop();
+    expect(signals[1].reason).toBe('session-stopped');
+  });
+
+  it('cancels generation once the latency target is exceeded', async () => {
+    vi.useFakeTimers();
+    try {
+      let capturedSignal: AbortSignal | undefined;
+      engineMock.getConfig.mockReturnValue({ performance: { latencyTarget: 1000 } });
+      engineMock.transcribe.mockResolvedValue(transcript('slow question'));
+      engineMock.generateSuggestions.mockImplementation(
+        (_text: string, options: { signal: AbortSignal }) => {
+          capturedSignal = options.signal;
+          return new Promise(() => {});
+        }
+      );
+      vadMock.process.mockResolvedValue({ speech: true, pause: true });
+
+      await sessionManager.start({ mode: 'job_interviews' });
+      await sessionManager.processAudioChunk(createChunk());
+      await vi.waitFor(() => expect(capturedSignal).toBeDefined());
+
+      expect(capturedSignal?.aborted).toBe(false);
+      vi.advanceTimersByTime(1000);
+      expect(capturedSignal?.aborted).toBe(true);
+      expect(capturedSignal?.reason).toBe('latency-target');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps transcribing while a slow generation is running', async () => {
+    engineMock.transcribe
+      .mockResolvedValueOnce(transcript('first question'))
+      .mockResolvedValueOnce(transcript('second question'));
+    engineMock.generateSuggestions.mockImplementation(
+      (_text: string, options: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          options.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    vadMock.process.mockResolvedValue({ speech: true, pause: true });
+
+    await sessionManager.start({ mode: 'job_interviews' });
+    await sessionManager.processAudioChunk(createChunk());
+    await vi.waitFor(() => expect(engineMock.generateSuggestions).toHaveBeenCalledTimes(1));
+
+    await sessionManager.processAudioChunk(createChunk());
+    await vi.waitFor(() => expect(engineMock.transcribe).toHaveBeenCalledTimes(2));
+    await vi.waitFor(() =>
+      expect(engineMock.generateSuggestions).toHaveBeenLastCalledWith(
+        'second question',
+        expect.anything()
+      )
+    );
+
+    await sessionManager.stop();
+  });
+
+  it('segments each capture channel separately and labels the speaker', async () => {
+    engineMock.transcribe.mockImplementation(async (audio: Float32Array) =>
+      transcript(audio.length === 3200 ? 'what is your biggest strength' : 'let me think')
+    );
+    vadMock.process.mockImplementation(
+      async (_audio: Float32Array, _amplitude: number, streamId: string) =>
+        streamId === 'system' ? { speech: true, pause: false } : { speech: true, pause: true }
+    );
+
+    const events = recordEvents();
+
+    await sessionManager.start({ mode: 'job_interviews' });
+    await sessionManager.processAudioChunk(createChunk('system'));
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    expect(engineMock.transcribe).toHaveBeenCalledTimes(1);
+
+    vadMock.process.mockResolvedValue({ speech: true, pause: true });
+    await sessionManager.processAudioChunk(createChunk('system'));
+    await sessionManager.waitForIdle();
+
+    const transcripts = latestTranscripts(events);
+    expect(transcripts.map(({ speaker, text }) => ({ speaker, text }))).toEqual([
+      { speaker: 'user', text: 'let me think' },
+      { speaker: 'other', text: 'what is your biggest strength' },
+    ]);
+    expect(engineMock.generateSuggestions).toHaveBeenLastCalledWith(
+      'what is your biggest strength',
+      expect.objectContaining({ speaker: 'other' })
+    );
+  });
+
+  it('labels diarized microphone speech and applies renames', async () => {
+    engineMock.transcribe
+      .mockResolvedValueOnce(transcript('tell me about yourself'))
+      .mockResolvedValueOnce(transcript('I build audio tools'));
+    engineMock.identifySpeaker
+      .mockResolvedValueOnce({ speakerId: 'Speaker 1', isUser: null })
+      .mockResolvedValueOnce({ speakerId: 'Speaker 2', isUser: null });
+    vadMock.process.mockResolvedValue({ speech: true, pause: true });
+
+    const events = recordEvents();
+
+    await sessionManager.start({ mode: 'job_interviews' });
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    await sessionManager.waitForIdle();
+
+    expect(latestTranscripts(events).map(({ speakerId }) => speakerId)).toEqual([
+      'Speaker 1',
+      'Speaker 2',
+    ]);
+    expect(engineMock.generateSuggestions).toHaveBeenLastCalledWith(
+      'I build audio tools',
+      expect.objectContaining({ speakerId: 'Speaker 2' })
+    );
+
+    sessionManager.renameSpeaker('Speaker 1', '  Interviewer ');
+
+    expect(engineMock.renameSpeaker).toHaveBeenCalledWith('Speaker 1', 'Interviewer');
+    expect(latestTranscripts(events).map(({ speakerLabel }) => speakerLabel)).toEqual([
+      'Interviewer',
+      'Speaker 2',
+    ]);
+  });
+
+  it('only checks the voice print once a system channel is present', async () => {
+    engineMock.transcribe.mockResolvedValue(transcript('hello'));
+    vadMock.process.mockResolvedValue({ speech: true, pause: true });
+
+    await sessionManager.start({ mode: 'job_interviews' });
+    await sessionManager.processAudioChunk(createChunk('system'));
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    await sessionManager.waitForIdle();
+
+    expect(engineMock.transcribe).toHaveBeenCalledTimes(2);
+    expect(engineMock.identifySpeaker).toHaveBeenCalledTimes(1);
+    expect(engineMock.identifySpeaker).toHaveBeenCalledWith(expect.any(Float32Array), {
+      diarize: false,
+    });
+  });
+
+  it('labels microphone speech by the enrolled voice print', async () => {
+    engineMock.transcribe
+      .mockResolvedValueOnce(transcript('why do you want this role'))
+      .mockResolvedValueOnce(transcript('I enjoy hard problems'));
+    engineMock.identifySpeaker
+      .mockResolvedValueOnce({ speakerId: null, isUser: false })
+      .mockResolvedValueOnce({ speakerId: null, isUser: true });
+    vadMock.process.mockResolvedValue({ speech: true, pause: true });
+
+    const events = recordEvents();
+
+    await sessionManager.start({ mode: 'job_interviews' });
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    await sessionManager.waitForIdle();
+
+    const transcripts = latestTranscripts(events);
+    expect(transcripts.map(({ speaker }) => speaker)).toEqual(['other', 'user']);
+    expect(engineMock.generateSuggestions).toHaveBeenCalledWith(
+      'why do you want this role',
+      expect.objectContaining({ speaker: 'other' })
+    );
+  });
+
+  it('streams interim transcripts and clears them once the segment is final', async () => {
+    engineMock.getConfig.mockReturnValue({
+      performance: { latencyTarget: 5000 },
+      streaming: { enabled: true, partialIntervalMs: 200 },
+    });
+    engineMock.transcribePartial.mockResolvedValue('tell me about');
+    engineMock.transcribe.mockResolvedValue(transcript('tell me about yourself'));
+    vadMock.process.mockResolvedValue({ speech: true, pause: false });
+
+    const events = recordEvents();
+    const partials = () =>
+      events.flatMap((event) =>
+        event.type === 'transcript' && event.phase === 'partial' ? [event.partial.text] : []
+      );
+
+    await sessionManager.start({ mode: 'job_interviews' });
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    expect(engineMock.transcribePartial).not.toHaveBeenCalled();
+
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    expect(engineMock.transcribePartial).toHaveBeenCalledTimes(1);
+    expect(engineMock.transcribePartial.mock.calls[0][0]).toHaveLength(3200);
+    await vi.waitFor(() => expect(partials()).toEqual(['tell me about']));
+
+    vadMock.process.mockResolvedValue({ speech: false, pause: true });
+    await sessionManager.processAudioChunk(createChunk('microphone'));
+    await sessionManager.waitForIdle();
+
+    expect(partials()).toEqual(['tell me about', '']);
+    expect(engineMock.transcribe).toHaveBeenCalledTimes(1);
+  });
+
+  describe('forced segment cuts', () => {
+    const createLongChunk = (seconds: number): AudioChunk => ({
+      data: new Float32Array(16000 * seconds).fill(0.1),
+      sampleRate: 16000,
+      channels: 1,
+      timestamp: Date.now(),
+      maxAmplitude: 0.1,
+      source: 'microphone',
+    });
+    const word = (text: string, start: number, confidence = 0.9) => ({
+      text,
+      start,
+      end: start + 0.3,
+      confidence,
+    });
+
+    const latestTexts = (events: SessionEvent[]) => latestTranscripts(events).map(({ text }) => text);
+
+    const runForcedCut = async () => {
+      const events = recordEvents();
+
+      await sessionManager.start({ mode: 'job_interviews' });
+      vadMock.process.mockResolvedValue({ speech: true, pause: false });
+      await sessionManager.processAudioChunk(createLongChunk(3));
+      await sessionManager.processAudioChunk(createLongChunk(3));
+      vadMock.process.mockResolvedValue({ speech: true, pause: true });
+      await sessionManager.processAudioChunk(createLongChunk(1));
+      await sessionManager.waitForIdle();
+      return events;
+    };
+
+    it('carries overlap into the next segment and splits words at its midpoint', async () => {
+      engineMock.transcribe
+        .mockResolvedValueOnce({
+          text: 'so my favourite',
+          words: [word('so', 0.2), word('my', 5.1), word('favourite', 5.7)],
+          confidence: 0.9,
+        })
+        .mockResolvedValueOnce({
+          text: 'my favourite project',
+          words: [word('my', 0.1), word('favourite', 0.7), word('project', 1.2)],
+          confidence: 0.9,
+        });
+
+      const events = await runForcedCut();
+
+      const [first, second] = engineMock.transcribe.mock.calls;
+      expect(first[0]).toHaveLength(96000);
+      // One second of the forced segment leads the next one
+      expect(second[0]).toHaveLength(32000);
+      expect(latestTexts(events)).toEqual(['so my', 'favourite project']);
+    });
+
+    it('reports segment and word times relative to the session start', async () => {
+      engineMock.transcribe
+        .mockResolvedValueOnce({
+          text: 'so my favourite',
+          words: [word('so', 0.2, 0.8), word('my', 5.1, 0.6), word('favourite', 5.7)],
+          confidence: 0.75,
+        })
+        .mockResolvedValueOnce({
+          text: 'my favourite project',
+          words: [word('my', 0.1), word('favourite', 0.7, 0.3), word('project', 1.2, 0.5)],
+          confidence: 0.5,
+        });
+
+      const events = await runForcedCut();
+
+      const [first, second] = latestTranscripts(events);
+      expect(first).toMatchObject({ start: 0, end: 5.5, confidence: expect.closeTo(0.7, 6) });
+      expect(second).toMatchObject({ start: 5.5, end: 7, confidence: expect.closeTo(0.4, 6) });
+      expect(second.words?.map(({ text, start }) => ({ text, start }))).toEqual([
+        { text: 'favourite', start: expect.closeTo(5.7, 6) },
+        { text: 'project', start: expect.closeTo(6.2, 6) },
+      ]);
+    });
+
+    it('flushes the overlap when a pause follows the cut', async () => {
+      engineMock.transcribe
+        .mockResolvedValueOnce({
+          text: 'so my favourite',
+          words: [word('so', 0.2), word('my', 5.1), word('favourite', 5.7)],
+          confidence: 0.9,
+        })
+        .mockResolvedValueOnce({ text: 'favourite', words: [word('favourite', 0.7)], confidence: 0.9 })
+        .mockResolvedValueOnce({ text: 'next question', words: [word('next', 0.1)], confidence: 0.9 });
+      const events = recordEvents();
+
+      await sessionManager.start({ mode: 'job_interviews' });
+      vadMock.process.mockResolvedValue({ speech: true, pause: false });
+      await sessionManager.processAudioChunk(createLongChunk(3));
+      await sessionManager.processAudioChunk(createLongChunk(3));
+      vadMock.process.mockResolvedValueOnce({ speech: false, pause: true });
+      await sessionManager.processAudioChunk(createLongChunk(1));
+      vadMock.process.mockResolvedValueOnce({ speech: false, pause: false });
+      await sessionManager.processAudioChunk(createLongChunk(2));
+      vadMock.process.mockResolvedValueOnce({ speech: true, pause: true });
+      await sessionManager.processAudioChunk(createLongChunk(1));
+      await sessionManager.waitForIdle();
+
+      const calls = engineMock.transcribe.mock.calls;
+      expect(calls.map(([audio]) => audio.length)).toEqual([96000, 16000, 16000]);
+      const [, tail, next] = latestTranscripts(events);
+      expect(tail).toMatchObject({ text: 'favourite', start: 5.5, end: 6 });
+      expect(next).toMatchObject({ text: 'next question', start: 9, end: 10 });
+      expect(next.words?.[0].start).toBeCloseTo(9.1, 6);
+    });
+
+    it('trims repeated text when word timestamps are unavailable', async () => {
+      engineMock.transcribe
+        .mockResolvedValueOnce(transcript('I worked on the audio'))
+        .mockResolvedValueOnce(transcript('the audio pipeline'));
+
+      const events = await runForcedCut();
+
+      expect(latestTexts(events)).toEqual(['I worked on the audio', 'pipeline']);
+    });
+  });
+
+  describe('recordings', () => {
+    // 48 kHz file: one second of speech, one of silence, then speech to the end
+    const createRecording = () => {
+      const samples = new Float32Array(48000 * 3);
+      samples.fill(0.2, 0, 48000);
+      samples.fill(0.2, 96000);
+      return { fileName: 'interview.wav', samples, sampleRate: 48000 };
+    };
+
+    beforeEach(() => {
+      vadMock.process.mockImplementation(async (audio: Float32Array) => {
+        const speech = audio[0] > 0.1;
+        return { speech, pause: !speech };
+      });
+    });
+
+    it('transcribes every segment, generates suggestions and saves the session', async () => {
+      let segment = 0;
+      engineMock.transcribe.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return transcript(`segment ${++segment}`);
+      });
+      engineMock.generateSuggestions.mockImplementation(async (text: string) => [
+        { text: `reply to ${text}` },
+      ]);
+      const save = vi.fn();
+      sessionManager.setRecordStore({ save });
+      const events = recordEvents();
+
+      const record = await sessionManager.processRecording({ mode: 'education' }, createRecording());
+
+      expect(engineMock.transcribe).toHaveBeenCalledTimes(2);
+      expect(engineMock.transcribe.mock.calls.every(([, sampleRate]) => sampleRate === 16000)).toBe(true);
+      expect(record).toMatchObject({
+        mode: 'education',
+        recording: { fileName: 'interview.wav', durationSeconds: 3 },
+      });
+      expect(record?.transcripts.map((entry) => entry.text)).toEqual(['segment 1', 'segment 2']);
+      expect(record?.suggestions.map((entry) => entry.suggestions[0].text)).toEqual([
+        'reply to segment 1',
+        'reply to segment 2',
+      ]);
+      expect(save).toHaveBeenCalledWith(record);
+      const metrics = events.flatMap((event) => (event.type === 'metrics' ? [event.metrics] : []));
+      expect(metrics.filter((entry) => entry.stage === 'recording').pop()).toMatchObject({
+        processedSeconds: 3,
+        durationSeconds: 3,
+      });
+      expect(metrics.filter((entry) => entry.stage === 'suggestions')).toHaveLength(2);
+      expect(events.flatMap((event) => (event.type === 'status' ? [event.change] : []))).toEqual([
+        'recording-started',
+        'recording-finished',
+      ]);
+      expect(engineMock.transcribePartial).not.toHaveBeenCalled();
+      expect(sessionManager.getIsActive()).toBe(false);
+    });
+
+    it('keeps slow generations and transcribes ahead of them', async () => {
+      engineMock.getConfig.mockReturnValue({ performance: { latencyTarget: 10 } });
+      let segment = 0;
+      engineMock.transcribe.mockImplementation(async () => transcript(`segment ${++segment}`));
+      const transcribedBeforeReply: number[] = [];
+      engineMock.generateSuggestions.mockImplementation(async (text: string) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        transcribedBeforeReply.push(engineMock.transcribe.mock.calls.length);
+        return [{ text: `reply to ${text}` }];
+      });
+      const events = recordEvents();
+
+      const record = await sessionManager.processRecording({ mode: 'education' }, createRecording());
+
+      expect(record?.suggestions.map((entry) => entry.suggestions[0].text)).toEqual([
+        'reply to segment 1',
+        'reply to segment 2',
+      ]);
+      expect(transcribedBeforeReply[0]).toBe(2);
+      expect(events.some((event) => event.type === 'suggestion' && event.phase === 'cancelled')).toBe(false);
+    });
+
+    it('saves nothing when the session is stopped during processing', async () => {
+      engineMock.transcribe.mockImplementation(async () => {
+        void sessionManager.stop();
+        return transcript('cut short');
+      });
+      const save = vi.fn();
+      sessionManager.setRecordStore({ save });
+
+      const record = await sessionManager.processRecording({ mode: 'education' }, createRecording());
+
+      expect(record).toBeNull();
+      expect(save).not.toHaveBeenCalled();
+      expect(sessionManager.getIsActive()).toBe(false);
+    });
+
+    it('refuses to start while a live session is running', async () => {
+      await sessionManager.start({ mode: 'job_interviews' });
+
+      await expect(
+        sessionManager.processRecording({ mode: 'education' }, createRecording())
+      ).rejects.toThrow('Session is already active');
+    });
   });
 });
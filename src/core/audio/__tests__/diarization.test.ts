@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { SpeakerClusterer, cosineSimilarity } from '../diarization';
+
+describe('cosineSimilarity', () => {
+  it('is 1 for parallel vectors and 0 for orthogonal ones', () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 6);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('SpeakerClusterer', () => {
+  it('gives similar embeddings the same speaker id', () => {
+    const clusterer = new SpeakerClusterer({ similarityThreshold: 0.8 });
+
+    expect(clusterer.assign([1, 0, 0])).toBe('Speaker 1');
+    expect(clusterer.assign([0, 1, 0])).toBe('Speaker 2');
+    expect(clusterer.assign([0.95, 0.1, 0])).toBe('Speaker 1');
+    expect(clusterer.assign([0.1, 0.9, 0.05])).toBe('Speaker 2');
+    expect(clusterer.getSpeakerIds()).toEqual(['Speaker 1', 'Speaker 2']);
+  });
+
+  it('assigns the closest speaker once maxSpeakers is reached', () => {
+    const clusterer = new SpeakerClusterer({ similarityThreshold: 0.9, maxSpeakers: 2 });
+
+    clusterer.assign([1, 0, 0]);
+    clusterer.assign([0, 1, 0]);
+
+    expect(clusterer.assign([0.2, 0, 1])).toBe('Speaker 1');
+    expect(clusterer.getSpeakerIds()).toHaveLength(2);
+  });
+
+  it('starts numbering again after reset', () => {
+    const clusterer = new SpeakerClusterer();
+    clusterer.assign([1, 0]);
+    clusterer.assign([0, 1]);
+
+    clusterer.reset();
+
+    expect(clusterer.assign([0, 1])).toBe('Speaker 1');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { HallucinationFilter } from '../hallucination-filter';
+
+describe('HallucinationFilter', () => {
+  const filter = new HallucinationFilter();
+
+  it('rejects output that is only non-speech tags', () => {
+    expect(filter.check({ text: '[BLANK_AUDIO]' })).toEqual({ accepted: false, rule: 'non-speech-tag' });
+    expect(filter.check({ text: ' (music) ♪ ' })).toEqual({ accepted: false, rule: 'non-speech-tag' });
+  });
+
+  it('strips tags around real speech', () => {
+    expect(filter.check({ text: '(laughs) That was close.' })).toEqual({
+      accepted: true,
+      text: 'That was close.',
+    });
+  });
+
+  it('rejects known subtitle phrases', () => {
+    expect(filter.check({ text: 'Thank you for watching!', speechRatio: 0.9 })).toEqual({
+      accepted: false,
+      rule: 'known-phrase',
+    });
+    expect(filter.check({ text: 'Subtitles by the Amara.org community' }).accepted).toBe(false);
+  });
+
+  it('only rejects courtesy phrases on weak evidence of speech', () => {
+    expect(filter.check({ text: 'Thank you.', speechRatio: 0.9, confidence: 0.8 }).accepted).toBe(true);
+    expect(filter.check({ text: 'Thank you. Thank you.', speechRatio: 0.3 })).toEqual({
+      accepted: false,
+      rule: 'known-phrase',
+    });
+    expect(filter.check({ text: 'Bye.', confidence: 0.2 }).accepted).toBe(false);
+  });
+
+  it('rejects repetition loops but keeps short repeats', () => {
+    expect(
+      filter.check({ text: 'I will be there. I will be there. I will be there. I will be there.' })
+    ).toEqual({ accepted: false, rule: 'repetition' });
+    expect(filter.check({ text: 'No, no, no, no, that is not it.' }).accepted).toBe(true);
+  });
+
+  it('rejects segments that are mostly silence', () => {
+    expect(filter.check({ text: 'So the plan is', speechRatio: 0.05 })).toEqual({
+      accepted: false,
+      rule: 'low-speech-ratio',
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { joinWords, removeRepeatedPrefix, selectWords } from '../overlap';
+
+const word = (text: string, start: number, end = start + 0.3) => ({ text, start, end });
+
+describe('selectWords', () => {
+  it('assigns boundary words to the segment they start in', () => {
+    const previous = [word('so', 4.1), word('my', 4.6), word('favourite', 5.2, 5.6)];
+    const next = [word('my', 0.1), word('favourite', 0.7, 1.1), word('project', 1.2), word('was', 1.6)];
+
+    // A 5.5s segment with one second of overlap: the next segment starts at 4.5s,
+    // so the previous one owns words starting before 5.0s and the next one the rest
+    expect(joinWords(selectWords(previous, { before: 5.0 }))).toBe('so my');
+    expect(joinWords(selectWords(next, { from: 0.5 }))).toBe('favourite project was');
+  });
+
+  it('keeps every word without bounds', () => {
+    expect(selectWords([word('hi', 0)], {})).toHaveLength(1);
+  });
+});
+
+describe('removeRepeatedPrefix', () => {
+  it('removes words the previous segment already ended with', () => {
+    expect(removeRepeatedPrefix('I worked on the audio', 'the audio pipeline last year')).toBe(
+      'pipeline last year'
+    );
+  });
+
+  it('ignores case and punctuation', () => {
+    expect(removeRepeatedPrefix('We shipped it.', 'Shipped it, and then')).toBe('and then');
+  });
+
+  it('leaves text without overlap untouched', () => {
+    expect(removeRepeatedPrefix('first part', 'second part')).toBe('second part');
+  });
+});
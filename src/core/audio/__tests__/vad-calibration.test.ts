@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { NoiseFloorCalibrator } from '../vad-calibration';
+
+describe('NoiseFloorCalibrator', () => {
+  it('reports nothing until enough audio was measured', () => {
+    const calibrator = new NoiseFloorCalibrator(1000);
+    expect(calibrator.add(0.01, 400)).toBeNull();
+    expect(calibrator.add(0.01, 400)).toBeNull();
+    expect(calibrator.add(0.01, 400)).not.toBeNull();
+  });
+
+  it('reads the noise floor from quiet chunks even when someone speaks', () => {
+    const calibrator = new NoiseFloorCalibrator(1000);
+    const peaks = [0.3, 0.01, 0.012, 0.25, 0.011, 0.4, 0.009, 0.01, 0.35, 0.01];
+
+    let calibration = null;
+    for (const peak of peaks) {
+      calibration = calibrator.add(peak, 100);
+    }
+
+    expect(calibration?.noiseFloor).toBe(0.01);
+    expect(calibration?.energyThreshold).toBeCloseTo(0.025);
+  });
+
+  it('keeps the threshold within usable bounds', () => {
+    const silent = new NoiseFloorCalibrator(100);
+    expect(silent.add(0, 100)?.energyThreshold).toBe(0.003);
+
+    const noisy = new NoiseFloorCalibrator(100);
+    expect(noisy.add(0.9, 100)?.energyThreshold).toBe(0.1);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EnergyVADBackend } from '../vad-backends';
+import { VADProcessor } from '../vad';
+
+vi.mock('../../inference/client', () => ({
+  loadInferencePipeline: vi.fn().mockRejectedValue(new Error('offline')),
+}));
+
+const CHUNK = 4096;
+
+function tone(amplitude: number, frequency = 200): Float32Array {
+  const audio = new Float32Array(CHUNK);
+  for (let i = 0; i < CHUNK; i++) {
+    audio[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / 16000);
+  }
+  return audio;
+}
+
+function hiss(amplitude: number): Float32Array {
+  // Sign flips on every sample, like broadband noise
+  return Float32Array.from({ length: CHUNK }, (_, i) => (i % 2 === 0 ? amplitude : -amplitude));
+}
+
+describe('EnergyVADBackend', () => {
+  it('separates voiced audio from silence', async () => {
+    const backend = new EnergyVADBackend();
+    expect(await backend.isSpeech(new Float32Array(CHUNK), 'mic')).toBe(false);
+    expect(await backend.isSpeech(tone(0.2), 'mic')).toBe(true);
+  });
+
+  it('rejects high zero-crossing noise', async () => {
+    const backend = new EnergyVADBackend();
+    expect(await backend.isSpeech(hiss(0.2), 'mic')).toBe(false);
+  });
+
+  it('adapts to a steady background level per stream', async () => {
+    const backend = new EnergyVADBackend();
+    const hum = tone(0.02);
+    const results: boolean[] = [];
+    for (let i = 0; i < 200; i++) {
+      results.push(await backend.isSpeech(hum, 'system'));
+    }
+
+    expect(results[0]).toBe(true);
+    expect(results[results.length - 1]).toBe(false);
+    expect(await backend.isSpeech(tone(0.2), 'system')).toBe(true);
+    // The microphone stream has its own floor
+    expect(await backend.isSpeech(hum, 'mic')).toBe(true);
+  });
+});
+
+describe('VADProcessor', () => {
+  it('falls back to energy detection when the model backend fails to load', async () => {
+    const vad = new VADProcessor({ backend: 'silero' });
+    await expect(vad.isReady()).resolves.toBeUndefined();
+
+    expect(vad.getBackendName()).toBe('energy');
+    expect(await vad.process(tone(0.2), 0.2, 'mic')).toEqual({ speech: true, pause: false });
+  });
+
+  it('reports a pause after sustained silence', async () => {
+    const vad = new VADProcessor({ backend: 'energy' });
+    await vad.process(tone(0.2), 0.2, 'mic');
+
+    const results = [];
+    for (let i = 0; i < 5; i++) {
+      results.push(await vad.process(new Float32Array(CHUNK), 0, 'mic'));
+    }
+
+    expect(results.slice(0, 4).every((result) => result.speech && !result.pause)).toBe(true);
+    expect(results[4]).toEqual({ speech: false, pause: true });
+  });
+
+  it('waits for both the silence duration and the chunk count', async () => {
+    const vad = new VADProcessor({
+      backend: 'energy',
+      thresholds: { minSilenceDurationMs: 500, pauseDelayChunks: 3 },
+    });
+    await vad.process(tone(0.2), 0.2, 'mic');
+
+    // 256 ms chunks: 500 ms is reached after two, the chunk count after three
+    const silence = new Float32Array(CHUNK);
+    expect((await vad.process(silence, 0, 'mic')).pause).toBe(false);
+    expect((await vad.process(silence, 0, 'mic')).pause).toBe(false);
+    expect((await vad.process(silence, 0, 'mic')).pause).toBe(true);
+  });
+
+  it('gates speech on a per-stream energy threshold until reset', async () => {
+    const vad = new VADProcessor({ backend: 'energy' });
+    vad.setEnergyThreshold(0.3, 'mic');
+
+    expect(await vad.process(tone(0.2), 0.2, 'mic')).toEqual({ speech: false, pause: false });
+    expect(await vad.process(tone(0.2), 0.2, 'system')).toEqual({ speech: true, pause: false });
+
+    vad.resetState();
+    expect(vad.getEnergyThreshold('mic')).toBe(0.01);
+  });
+});
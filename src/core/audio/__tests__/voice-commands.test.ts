@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { VoiceCommandChunk, VoiceCommandRecognizer } from '../voice-commands';
+
+const CHUNK_MS = 256;
+
+// One chunk per entry: a label is a confident keyword, '' is other speech and
+// null is silence; the utterance ends with a pause chunk
+function say(
+  recognizer: VoiceCommandRecognizer,
+  words: Array<string | null>,
+  startMs = 0,
+  score = 0.95
+) {
+  const chunks: VoiceCommandChunk[] = words.map((word, index) => ({
+    speech: word !== null,
+    pause: false,
+    keyword: word === null ? null : { label: word || '_unknown_', score },
+    startMs: startMs + index * CHUNK_MS,
+    durationMs: CHUNK_MS,
+  }));
+  chunks.push({
+    speech: false,
+    pause: true,
+    keyword: null,
+    startMs: startMs + words.length * CHUNK_MS,
+    durationMs: CHUNK_MS,
+  });
+
+  return chunks.map((chunk) => recognizer.process(chunk)).filter(Boolean);
+}
+
+describe('VoiceCommandRecognizer', () => {
+  it('fires when an utterance is exactly a command sequence', () => {
+    const recognizer = new VoiceCommandRecognizer();
+    expect(say(recognizer, ['marvin', 'marvin', 'stop', 'stop'])).toEqual(['pause']);
+  });
+
+  it('ignores keywords below the confidence threshold', () => {
+    const recognizer = new VoiceCommandRecognizer();
+    expect(say(recognizer, ['marvin', 'go'], 0, 0.5)).toEqual([]);
+  });
+
+  it('ignores commands inside longer speech', () => {
+    const recognizer = new VoiceCommandRecognizer();
+    expect(say(recognizer, ['', '', 'marvin', 'stop', '', ''])).toEqual([]);
+
+    const pauses = new Array(20).fill(null);
+    expect(say(recognizer, ['marvin', 'stop', ...pauses, 'go'], 10_000)).toEqual([]);
+  });
+
+  it('requires the words to follow each other closely', () => {
+    const recognizer = new VoiceCommandRecognizer({ maxKeywordGapMs: 500 });
+    expect(say(recognizer, ['marvin', null, null, null, 'forward'])).toEqual([]);
+  });
+
+  it('debounces repeated commands', () => {
+    const recognizer = new VoiceCommandRecognizer({ cooldownMs: 3000 });
+    expect(say(recognizer, ['marvin', 'learn'])).toEqual(['bookmark']);
+    expect(say(recognizer, ['marvin', 'learn'], 1000)).toEqual([]);
+    expect(say(recognizer, ['marvin', 'learn'], 5000)).toEqual(['bookmark']);
+  });
+
+  it('accepts custom sequences', () => {
+    const recognizer = new VoiceCommandRecognizer({ commands: { regenerate: ['sheila', 'up'] } });
+    expect(say(recognizer, ['sheila', 'up'])).toEqual(['regenerate']);
+    expect(say(recognizer, ['marvin', 'forward'], 10_000)).toEqual([]);
+  });
+});
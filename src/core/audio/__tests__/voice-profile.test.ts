@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import {
+  VoiceProfile,
+  averageEmbeddings,
+  matchesVoiceProfile,
+  splitEnrollmentAudio,
+} from '../voice-profile';
+
+describe('voice profile', () => {
+  it('splits enrollment audio into whole windows', () => {
+    const windows = splitEnrollmentAudio(new Float32Array(16000 * 10), 16000);
+
+    expect(windows).toHaveLength(3);
+    windows.forEach((window) => expect(window).toHaveLength(48000));
+    expect(splitEnrollmentAudio(new Float32Array(16000), 16000)).toHaveLength(1);
+  });
+
+  it('averages normalised embeddings', () => {
+    expect(averageEmbeddings([[2, 0], [0, 4]])).toEqual([0.5, 0.5]);
+    expect(() => averageEmbeddings([])).toThrow();
+  });
+
+  it('matches embeddings close to the enrolled voice', () => {
+    const profile: VoiceProfile = { embedding: [1, 0, 0], model: 'test', createdAt: 0 };
+
+    expect(matchesVoiceProfile([0.9, 0.2, 0.1], profile)).toBe(true);
+    expect(matchesVoiceProfile([0.2, 0.9, 0.1], profile)).toBe(false);
+    expect(matchesVoiceProfile([0.6, 0.8, 0], profile, 0.5)).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { decodeWav } from '../wav';
+
+// Builds a WAV file with an extra chunk before the data, as many writers add
+function createWav(options: {
+  format: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  frames: number[][];
+}): Uint8Array {
+  const bytesPerSample = options.bitsPerSample / 8;
+  const dataSize = options.frames.length * options.channels * bytesPerSample;
+  const buffer = Buffer.alloc(12 + 24 + 12 + 8 + dataSize);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(buffer.length - 8, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(options.format, 20);
+  buffer.writeUInt16LE(options.channels, 22);
+  buffer.writeUInt32LE(options.sampleRate, 24);
+  buffer.writeUInt32LE(options.sampleRate * options.channels * bytesPerSample, 28);
+  buffer.writeUInt16LE(options.channels * bytesPerSample, 32);
+  buffer.writeUInt16LE(options.bitsPerSample, 34);
+  buffer.write('LIST', 36);
+  buffer.writeUInt32LE(4, 40);
+  buffer.write('INFO', 44);
+  buffer.write('data', 48);
+  buffer.writeUInt32LE(dataSize, 52);
+
+  let offset = 56;
+  for (const frame of options.frames) {
+    for (const value of frame) {
+      if (options.format === 3) {
+        buffer.writeFloatLE(value, offset);
+      } else if (options.bitsPerSample === 16) {
+        buffer.writeInt16LE(value, offset);
+      } else {
+        buffer.writeIntLE(value, offset, 3);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return new Uint8Array(buffer);
+}
+
+describe('decodeWav', () => {
+  it('decodes 16-bit PCM and mixes stereo down to mono', () => {
+    const wav = createWav({
+      format: 1,
+      channels: 2,
+      sampleRate: 44100,
+      bitsPerSample: 16,
+      frames: [
+        [16384, 16384],
+        [-32768, 0],
+      ],
+    });
+
+    const { samples, sampleRate } = decodeWav(wav);
+
+    expect(sampleRate).toBe(44100);
+    expect(Array.from(samples)).toEqual([0.5, -0.5]);
+  });
+
+  it('decodes 24-bit PCM and 32-bit float', () => {
+    const pcm24 = createWav({ format: 1, channels: 1, sampleRate: 16000, bitsPerSample: 24, frames: [[-4194304]] });
+    const float = createWav({ format: 3, channels: 1, sampleRate: 48000, bitsPerSample: 32, frames: [[0.25]] });
+
+    expect(Array.from(decodeWav(pcm24).samples)).toEqual([-0.5]);
+    expect(decodeWav(float)).toEqual({ samples: new Float32Array([0.25]), sampleRate: 48000 });
+  });
+
+  it('rejects files that are not uncompressed WAV', () => {
+    expect(() => decodeWav(new TextEncoder().encode('ID3 not a wav file'))).toThrow('Not a WAV file');
+    const adpcm = createWav({ format: 2, channels: 1, sampleRate: 8000, bitsPerSample: 16, frames: [[0]] });
+    expect(() => decodeWav(adpcm)).toThrow('Unsupported WAV encoding');
+  });
+});
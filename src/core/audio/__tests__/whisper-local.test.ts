@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { LocalWhisper } from '../whisper-local';
+import { LocalWhisper, groupTokenConfidences } from '../whisper-local';
 
 describe('LocalWhisper', () => {
   let whisper: LocalWhisper;
@@ -14,13 +14,13 @@ describe('LocalWhisper', () => {
     (whisper as any).processor = processorMock;
 
     const chunk = new Float32Array([0.1, -0.2, 0.3]);
-    const transcript = await whisper.transcribe(chunk, 16000);
+    const result = await whisper.transcribe(chunk, 16000, { wordTimestamps: false });
 
-    expect(transcript).toBe('hello world');
+    expect(result).toEqual({ text: 'hello world', words: null, confidence: null, language: null });
     expect(processorMock).toHaveBeenCalledWith(chunk, {
       return_timestamps: false,
       sampling_rate: 16000,
-      language: 'english',
+      language: null,
       task: 'transcribe',
     });
   });
@@ -33,4 +33,75 @@ describe('LocalWhisper', () => {
       'Transcription failed: boom'
     );
   });
+
+  it('returns word timestamps and confidences from the processor output', async () => {
+    const processorMock = vi.fn().mockResolvedValue({
+      text: ' hello world',
+      chunks: [
+        { text: ' hello', timestamp: [0, 0.4] },
+        { text: ' world', timestamp: [0.4, null] },
+      ],
+      token_confidences: [
+        { text: ' hel', probability: 0.9 },
+        { text: 'lo', probability: 0.7 },
+        { text: ' world', probability: 0.5 },
+      ],
+    });
+    (whisper as any).processor = processorMock;
+
+    const result = await whisper.transcribe(new Float32Array([0.1, 0.2]), 16000);
+
+    expect(processorMock.mock.calls[0][1]).toMatchObject({ return_timestamps: 'word' });
+    expect(result.words).toEqual([
+      { text: 'hello', start: 0, end: 0.4, confidence: expect.closeTo(0.8, 6) },
+      { text: 'world', start: 0.4, end: 0.4, confidence: 0.5 },
+    ]);
+    expect(result.confidence).toBeCloseTo(0.7, 6);
+  });
+
+  it('reports the detected language unless one is forced', async () => {
+    const processorMock = vi.fn().mockResolvedValue({ text: 'bonjour', detected_language: 'fr' });
+    (whisper as any).processor = processorMock;
+
+    const detected = await whisper.transcribe(new Float32Array([0.1]), 16000);
+    const forced = await whisper.transcribe(new Float32Array([0.1]), 16000, { language: 'de' });
+
+    expect(detected.language).toBe('fr');
+    expect(forced.language).toBe('de');
+    expect(processorMock.mock.calls.map((call) => call[1].language)).toEqual([null, 'de']);
+  });
+
+  it('falls back to plain transcription when word timestamps fail', async () => {
+    const processorMock = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('no alignment heads'))
+      .mockResolvedValue({ text: 'hello' });
+    (whisper as any).processor = processorMock;
+
+    const first = await whisper.transcribe(new Float32Array([0.1]), 16000);
+    await whisper.transcribe(new Float32Array([0.1]), 16000);
+
+    expect(first).toEqual({ text: 'hello', words: null, confidence: null, language: null });
+    expect(processorMock.mock.calls.map((call) => call[1].return_timestamps)).toEqual([
+      'word',
+      false,
+      false,
+    ]);
+  });
+});
+
+describe('groupTokenConfidences', () => {
+  it('starts a new word at each leading space', () => {
+    const words = groupTokenConfidences([
+      { text: ' It', probability: 1 },
+      { text: "'s", probability: 0.5 },
+      { text: ' fine', probability: 0.25 },
+      { text: '.', probability: 0.75 },
+    ]);
+
+    expect(words).toEqual([
+      { text: "It's", confidence: 0.75 },
+      { text: 'fine.', confidence: 0.5 },
+    ]);
+  });
 });
@@ -0,0 +1,96 @@
+export interface SpeakerClustererConfig {
+  // Minimum cosine similarity for a segment to join an existing speaker
+  similarityThreshold: number;
+  // Once reached, segments are assigned to the closest known speaker
+  maxSpeakers: number;
+}
+
+export const DEFAULT_SPEAKER_CLUSTERER_CONFIG: SpeakerClustererConfig = {
+  similarityThreshold: 0.75,
+  maxSpeakers: 6,
+};
+
+interface SpeakerCluster {
+  id: string;
+  centroid: number[];
+  count: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Online speaker clustering. Each embedding joins the most similar known
+ * speaker when it clears the threshold, otherwise it starts a new speaker.
+ * Centroids are running means, so IDs stay stable for the whole session.
+ */
+export class SpeakerClusterer {
+  private config: SpeakerClustererConfig = DEFAULT_SPEAKER_CLUSTERER_CONFIG;
+  private clusters: SpeakerCluster[] = [];
+
+  constructor(config: Partial<SpeakerClustererConfig> = {}) {
+    this.configure(config);
+  }
+
+  // Unset values fall back to the defaults
+  configure(config: Partial<SpeakerClustererConfig>): void {
+    this.config = {
+      similarityThreshold:
+        config.similarityThreshold ?? DEFAULT_SPEAKER_CLUSTERER_CONFIG.similarityThreshold,
+      maxSpeakers: config.maxSpeakers ?? DEFAULT_SPEAKER_CLUSTERER_CONFIG.maxSpeakers,
+    };
+  }
+
+  assign(embedding: number[]): string {
+    let best: SpeakerCluster | null = null;
+    let bestSimilarity = -Infinity;
+
+    for (const cluster of this.clusters) {
+      const similarity = cosineSimilarity(embedding, cluster.centroid);
+      if (similarity > bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+
+    const canAddSpeaker = this.clusters.length < this.config.maxSpeakers;
+    if (!best || (bestSimilarity < this.config.similarityThreshold && canAddSpeaker)) {
+      const cluster: SpeakerCluster = {
+        id: `Speaker ${this.clusters.length + 1}`,
+        centroid: [...embedding],
+        count: 1,
+      };
+      this.clusters.push(cluster);
+      return cluster.id;
+    }
+
+    best.count++;
+    for (let i = 0; i < best.centroid.length; i++) {
+      best.centroid[i] += (embedding[i] - best.centroid[i]) / best.count;
+    }
+    return best.id;
+  }
+
+  getSpeakerIds(): string[] {
+    return this.clusters.map((cluster) => cluster.id);
+  }
+
+  reset(): void {
+    this.clusters = [];
+  }
+}
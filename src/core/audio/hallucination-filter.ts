@@ -0,0 +1,137 @@
+export type HallucinationRule = 'non-speech-tag' | 'low-speech-ratio' | 'known-phrase' | 'repetition';
+
+export interface TranscriptCandidate {
+  text: string;
+  // Fraction of the segment's audio the VAD classed as speech (0-1)
+  speechRatio?: number;
+  // Mean token probability, when the transcriber reports it
+  confidence?: number | null;
+}
+
+export type FilterResult =
+  | { accepted: true; text: string }
+  | { accepted: false; rule: HallucinationRule };
+
+export interface HallucinationFilterOptions {
+  // Segments with less speech than this are treated as silence
+  minSpeechRatio?: number;
+  // Below these, short courtesy phrases are assumed to be invented
+  ambiguousSpeechRatio?: number;
+  ambiguousConfidence?: number;
+  // A phrase repeated back to back this many times is a decoding loop
+  maxRepeats?: number;
+}
+
+const DEFAULTS: Required<HallucinationFilterOptions> = {
+  minSpeechRatio: 0.1,
+  ambiguousSpeechRatio: 0.5,
+  ambiguousConfidence: 0.5,
+  maxRepeats: 4,
+};
+
+// Phrases Whisper produces on silence or music, learned from subtitled video
+const HALLUCINATION_PHRASES = [
+  'thank you for watching',
+  'thanks for watching',
+  'thank you so much for watching',
+  'please subscribe',
+  'subscribe to my channel',
+  'like and subscribe',
+  'see you in the next video',
+  'subtitles by the amara org community',
+  'transcription by castingwords',
+];
+
+// Phrases people do say, so they only count as junk on weak evidence of speech
+const AMBIGUOUS_PHRASES = ['thank you very much', 'thank you', 'thanks', 'bye bye', 'bye', 'you', 'okay'];
+
+// [BLANK_AUDIO], (music), *laughs*, ♪ la la ♪
+const NON_SPEECH_TAG = /\[[^\]]*\]|\([^)]*\)|\*[^*]*\*|♪[^♪]*♪?|[♪♫]/g;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function consistsOf(text: string, phrases: string[]): boolean {
+  let rest = ` ${text} `;
+  for (const phrase of phrases) {
+    // Back-to-back repeats share a space, so one pass can leave some behind
+    let previous;
+    do {
+      previous = rest;
+      rest = rest.split(` ${phrase} `).join(' ');
+    } while (rest !== previous);
+  }
+  return rest.trim().length === 0;
+}
+
+// Short runs such as "no no no no" are real speech; loops fill whole segments
+const MIN_LOOP_WORDS = 8;
+const MAX_LOOP_PHRASE_WORDS = 8;
+
+function hasRepetitionLoop(words: string[], minRepeats: number): boolean {
+  for (let length = 1; length <= MAX_LOOP_PHRASE_WORDS; length++) {
+    for (let start = 0; start + length * minRepeats <= words.length; start++) {
+      let repeats = 1;
+      let next = start + length;
+      while (
+        next + length <= words.length &&
+        words.slice(next, next + length).every((word, index) => word === words[start + index])
+      ) {
+        repeats++;
+        next += length;
+      }
+      if (repeats >= minRepeats && repeats * length >= MIN_LOOP_WORDS) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Screens Whisper output before it is shown or sent to the LLM. Bracketed
+ * non-speech tags are stripped; what remains is rejected when it is empty,
+ * came from near-silent audio, is a known subtitle phrase or is stuck in a
+ * repetition loop.
+ */
+export class HallucinationFilter {
+  private options: Required<HallucinationFilterOptions>;
+
+  constructor(options: HallucinationFilterOptions = {}) {
+    this.options = { ...DEFAULTS, ...options };
+  }
+
+  check(candidate: TranscriptCandidate): FilterResult {
+    const text = candidate.text.replace(NON_SPEECH_TAG, ' ').replace(/\s+/g, ' ').trim();
+    const normalized = normalize(text);
+    if (!normalized) {
+      return { accepted: false, rule: 'non-speech-tag' };
+    }
+
+    const { speechRatio, confidence } = candidate;
+    if (speechRatio !== undefined && speechRatio < this.options.minSpeechRatio) {
+      return { accepted: false, rule: 'low-speech-ratio' };
+    }
+
+    const weakEvidence =
+      (speechRatio !== undefined && speechRatio < this.options.ambiguousSpeechRatio) ||
+      (typeof confidence === 'number' && confidence < this.options.ambiguousConfidence);
+    if (
+      consistsOf(normalized, HALLUCINATION_PHRASES) ||
+      (weakEvidence && consistsOf(normalized, AMBIGUOUS_PHRASES))
+    ) {
+      return { accepted: false, rule: 'known-phrase' };
+    }
+
+    if (hasRepetitionLoop(normalized.split(' '), this.options.maxRepeats)) {
+      return { accepted: false, rule: 'repetition' };
+    }
+
+    return { accepted: true, text };
+  }
+}
@@ -0,0 +1,75 @@
+import { InferenceProcessor, loadInferencePipeline } from '../inference/client';
+import { isModelUnavailableError } from '../models/cache';
+
+export interface KeywordScore {
+  label: string;
+  score: number;
+}
+
+export const DEFAULT_KEYWORD_MODEL = 'Xenova/ast-finetuned-speech-commands-v2';
+
+// The speech-commands model files everything outside its vocabulary here
+export function isUnknownKeyword(label: string): boolean {
+  return label === '_unknown_' || label.toLowerCase().includes('unknown');
+}
+
+/**
+ * Runs the speech-commands classifier, which recognises a small fixed
+ * vocabulary ("go", "stop", "yes", digits, ...). Used both as a crude VAD and
+ * for voice commands.
+ */
+export class KeywordSpotter {
+  private classifier: InferenceProcessor | null = null;
+
+  constructor(private readonly model: string = DEFAULT_KEYWORD_MODEL) {}
+
+  async initialize(): Promise<void> {
+    if (this.classifier) {
+      return;
+    }
+
+    try {
+      this.classifier = await loadInferencePipeline('audio-classification', this.model, {
+        quantized: true,
+        use_cache: false,
+      });
+    } catch (error) {
+      if (isModelUnavailableError(error)) {
+        throw new Error(
+          `${error.message} The ${this.model} model is not installed; download it or import a model bundle in Settings.`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Scores a chunk against every label, highest first.
+   */
+  async classify(audio: Float32Array): Promise<KeywordScore[]> {
+    if (!this.classifier) {
+      throw new Error('Keyword spotter is not initialized');
+    }
+
+    const results = await this.classifier(audio, { topk: null });
+    const outputs = Array.isArray(results) ? results : [results];
+
+    const scores: KeywordScore[] = [];
+    for (const item of outputs) {
+      if (!item || typeof item !== 'object') continue;
+      scores.push({
+        label: typeof item.label === 'string' ? item.label : '',
+        score: typeof item.score === 'number' ? item.score : 0,
+      });
+    }
+    return scores.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * The best label for a chunk, which may be "_unknown_" for ordinary speech.
+   */
+  async spot(audio: Float32Array): Promise<KeywordScore | null> {
+    const [top] = await this.classify(audio);
+    return top ?? null;
+  }
+}
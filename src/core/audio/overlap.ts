@@ -0,0 +1,47 @@
+import type { TranscribedWord } from './whisper-local';
+
+// Bounds, in seconds from the start of a segment, of the words it owns
+export interface WordWindow {
+  from?: number;
+  before?: number;
+}
+
+/**
+ * Keeps the words a segment owns. Overlapping segments split the shared audio
+ * at its midpoint and each word goes to the segment it starts in, so a word
+ * cut off at the end of one segment is taken whole from the next.
+ */
+export function selectWords(words: TranscribedWord[], window: WordWindow): TranscribedWord[] {
+  return words.filter(
+    (word) =>
+      (window.from === undefined || word.start >= window.from) &&
+      (window.before === undefined || word.start < window.before)
+  );
+}
+
+export function joinWords(words: TranscribedWord[]): string {
+  return words.map((word) => word.text).join(' ');
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Drops the longest run of words at the start of `next` that repeats the end
+ * of `previous`. Used when the transcriber returns no word timestamps.
+ */
+export function removeRepeatedPrefix(previous: string, next: string, maxWords = 8): string {
+  const previousWords = previous.trim().split(/\s+/).filter(Boolean).map(normalizeWord);
+  const nextWords = next.trim().split(/\s+/).filter(Boolean);
+  const normalizedNext = nextWords.map(normalizeWord);
+  const limit = Math.min(maxWords, previousWords.length, nextWords.length);
+
+  for (let length = limit; length > 0; length--) {
+    const tail = previousWords.slice(-length);
+    if (tail.every((word, index) => word === normalizedNext[index])) {
+      return nextWords.slice(length).join(' ');
+    }
+  }
+  return nextWords.join(' ');
+}
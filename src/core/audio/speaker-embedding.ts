@@ -0,0 +1,59 @@
+import { InferenceProcessor, loadInferencePipeline } from '../inference/client';
+
+export const DEFAULT_SPEAKER_EMBEDDING_MODEL = 'Xenova/wavlm-base-plus-sv';
+
+/**
+ * Computes fixed-length voice embeddings (x-vectors) for speech segments.
+ * Embeddings of the same voice have a high cosine similarity, which is what
+ * speaker clustering relies on.
+ */
+export class SpeakerEmbedder {
+  private processor: InferenceProcessor | null = null;
+  private modelName: string | null = null;
+  private initializationPromise: Promise<void> | null = null;
+
+  async initialize(modelName: string = DEFAULT_SPEAKER_EMBEDDING_MODEL): Promise<void> {
+    if (this.processor && this.modelName === modelName) {
+      return;
+    }
+
+    if (this.initializationPromise && this.modelName === modelName) {
+      return this.initializationPromise;
+    }
+
+    this.modelName = modelName;
+    this.processor = null;
+
+    this.initializationPromise = (async () => {
+      try {
+        console.log(`[speaker-embedding] Loading model: ${modelName}`);
+        this.processor = await loadInferencePipeline('speaker-embedding', modelName, {
+          quantized: true,
+        });
+        console.log('[speaker-embedding] Model loaded');
+      } catch (error) {
+        console.error('[speaker-embedding] Failed to load model:', error);
+        throw new Error(`Failed to initialize speaker embedding model: ${error}`);
+      } finally {
+        this.initializationPromise = null;
+      }
+    })();
+
+    return this.initializationPromise;
+  }
+
+  async embed(audio: Float32Array): Promise<number[]> {
+    if (this.initializationPromise) {
+      await this.initializationPromise;
+    } else if (!this.processor) {
+      await this.initialize(this.modelName ?? DEFAULT_SPEAKER_EMBEDDING_MODEL);
+    }
+
+    if (!this.processor) {
+      throw new Error('Speaker embedding model is not available');
+    }
+
+    // The worker resolves embeddings to plain arrays
+    return (await this.processor(audio)) as number[];
+  }
+}
@@ -0,0 +1,194 @@
+import { InferenceProcessor, loadInferencePipeline } from '../inference/client';
+import type { VoiceActivityResult } from '../inference/pipelines';
+import { DEFAULT_KEYWORD_MODEL, KeywordScore, KeywordSpotter, isUnknownKeyword } from './keyword-spotter';
+
+export type VADBackendName = 'classifier' | 'energy' | 'silero';
+
+/**
+ * Decides whether a single audio chunk contains speech. Pause tracking lives
+ * in VADProcessor; backends only keep whatever per-stream state their own
+ * detector needs.
+ */
+export interface VADBackend {
+  readonly name: VADBackendName;
+  initialize(): Promise<void>;
+  isSpeech(audio: Float32Array, streamId: string): Promise<boolean>;
+  // Top label of the stream's last chunk, for backends that spot keywords
+  getKeyword?(streamId: string): KeywordScore | null;
+  resetState(): void;
+}
+
+export interface VADBackendOptions {
+  model?: string;
+  speechConfidenceThreshold?: number;
+}
+
+export const DEFAULT_CLASSIFIER_VAD_MODEL = DEFAULT_KEYWORD_MODEL;
+export const DEFAULT_SILERO_VAD_MODEL = 'onnx-community/silero-vad';
+
+const debug = (...args: unknown[]) => {
+  if (process.env.DEBUG_AUDIO === 'true') {
+    console.log('[VAD]', ...args);
+  }
+};
+
+/**
+ * The original detector: a keyword-spotting classifier whose "_unknown_"
+ * label is read as silence. VADProcessor applies the energy gate. The top
+ * label is kept so voice commands can reuse it.
+ */
+export class ClassifierVADBackend implements VADBackend {
+  readonly name = 'classifier';
+  private spotter: KeywordSpotter;
+  private keywords = new Map<string, KeywordScore | null>();
+
+  constructor(
+    model: string = DEFAULT_CLASSIFIER_VAD_MODEL,
+    private readonly speechConfidenceThreshold = 0.25
+  ) {
+    this.spotter = new KeywordSpotter(model);
+  }
+
+  async initialize(): Promise<void> {
+    await this.spotter.initialize();
+  }
+
+  async isSpeech(audio: Float32Array, streamId: string): Promise<boolean> {
+    const [top] = await this.spotter.classify(audio);
+    const topLabel = top?.label ?? '';
+    const topScore = top?.score ?? 0;
+    const isUnknownTop = isUnknownKeyword(topLabel);
+    const meetsConfidence = topScore >= this.speechConfidenceThreshold;
+    this.keywords.set(streamId, top ?? null);
+
+    debug('classifier:', {
+      stream: streamId,
+      top: top ? `${topLabel} (${topScore.toFixed(2)})` : 'n/a',
+      meetsConfidence,
+    });
+
+    return meetsConfidence && !isUnknownTop;
+  }
+
+  getKeyword(streamId: string): KeywordScore | null {
+    return this.keywords.get(streamId) ?? null;
+  }
+
+  resetState(): void {
+    this.keywords.clear();
+  }
+}
+
+// Per-stream estimate of the background level
+interface NoiseState {
+  floor: number;
+}
+
+/**
+ * Model-free detector: a chunk is speech when its RMS energy stands clearly
+ * above the stream's noise floor and its zero-crossing rate is in the range of
+ * voiced sound rather than hiss. The floor follows quiet chunks quickly and
+ * loud ones slowly, so steady background noise is absorbed over time.
+ */
+export class EnergyVADBackend implements VADBackend {
+  readonly name = 'energy';
+  private streams = new Map<string, NoiseState>();
+
+  private readonly minSpeechRms = 0.005;
+  private readonly noiseFloorRatio = 3;
+  private readonly maxSpeechZeroCrossingRate = 0.35;
+  private readonly floorDecay = 0.5;
+  private readonly floorRise = 0.01;
+
+  async initialize(): Promise<void> {}
+
+  async isSpeech(audio: Float32Array, streamId: string): Promise<boolean> {
+    let sumSquares = 0;
+    let crossings = 0;
+    for (let i = 0; i < audio.length; i++) {
+      sumSquares += audio[i] * audio[i];
+      if (i > 0 && audio[i] >= 0 !== audio[i - 1] >= 0) {
+        crossings++;
+      }
+    }
+    const rms = Math.sqrt(sumSquares / audio.length);
+    const zeroCrossingRate = audio.length > 1 ? crossings / (audio.length - 1) : 0;
+
+    let state = this.streams.get(streamId);
+    if (!state) {
+      state = { floor: 0 };
+      this.streams.set(streamId, state);
+    }
+
+    const threshold = Math.max(this.minSpeechRms, state.floor * this.noiseFloorRatio);
+    const isSpeech = rms >= threshold && zeroCrossingRate <= this.maxSpeechZeroCrossingRate;
+
+    const rate = rms < state.floor ? this.floorDecay : this.floorRise;
+    state.floor += (rms - state.floor) * rate;
+
+    debug('energy:', {
+      stream: streamId,
+      rms: rms.toFixed(4),
+      floor: state.floor.toFixed(4),
+      zcr: zeroCrossingRate.toFixed(3),
+      isSpeech,
+    });
+
+    return isSpeech;
+  }
+
+  resetState(): void {
+    this.streams.clear();
+  }
+}
+
+/**
+ * Silero VAD, a small model trained for exactly this task. Its recurrent
+ * state is carried per stream between chunks.
+ */
+export class SileroVADBackend implements VADBackend {
+  readonly name = 'silero';
+  private model: InferenceProcessor | null = null;
+  private streams = new Map<string, Omit<VoiceActivityResult, 'probability'>>();
+
+  constructor(
+    private readonly modelName: string = DEFAULT_SILERO_VAD_MODEL,
+    private readonly speechThreshold = 0.5
+  ) {}
+
+  async initialize(): Promise<void> {
+    this.model = await loadInferencePipeline('voice-activity', this.modelName, { quantized: false });
+  }
+
+  async isSpeech(audio: Float32Array, streamId: string): Promise<boolean> {
+    if (!this.model) {
+      throw new Error('Silero VAD is not initialized');
+    }
+
+    const previous = this.streams.get(streamId);
+    const result = (await this.model(audio, {
+      state: previous?.state,
+      context: previous?.context,
+    })) as VoiceActivityResult;
+    this.streams.set(streamId, { state: result.state, context: result.context });
+
+    debug('silero:', { stream: streamId, probability: result.probability.toFixed(2) });
+
+    return result.probability >= this.speechThreshold;
+  }
+
+  resetState(): void {
+    this.streams.clear();
+  }
+}
+
+export function createVADBackend(name: VADBackendName, options: VADBackendOptions = {}): VADBackend {
+  switch (name) {
+    case 'classifier':
+      return new ClassifierVADBackend(options.model, options.speechConfidenceThreshold);
+    case 'silero':
+      return new SileroVADBackend(options.model, options.speechConfidenceThreshold);
+    case 'energy':
+      return new EnergyVADBackend();
+  }
+}
@@ -0,0 +1,55 @@
+// Noise measurement for one microphone, stored so later sessions start with it
+export interface VADCalibration {
+  // Typical chunk peak while nobody speaks
+  noiseFloor: number;
+  energyThreshold: number;
+  calibratedAt: number;
+}
+
+// Persists calibrations by microphone device id
+export interface VADCalibrationStore {
+  get(deviceId: string): VADCalibration | null;
+  save(deviceId: string, calibration: VADCalibration): void;
+}
+
+export const DEFAULT_CALIBRATION_MS = 3000;
+
+// Speech during calibration only raises the upper chunks, so the floor is
+// read from the quieter end of the distribution
+const NOISE_PERCENTILE = 0.25;
+const NOISE_MARGIN = 2.5;
+const MIN_ENERGY_THRESHOLD = 0.003;
+const MAX_ENERGY_THRESHOLD = 0.1;
+
+/**
+ * Collects chunk peak levels for the first few seconds of a session and
+ * derives the energy threshold from them: a margin above the room's noise
+ * floor, clamped so a silent or very loud start cannot disable the VAD.
+ */
+export class NoiseFloorCalibrator {
+  private peaks: number[] = [];
+  private measuredMs = 0;
+
+  constructor(private readonly durationMs: number = DEFAULT_CALIBRATION_MS) {}
+
+  /**
+   * Adds one chunk; returns the calibration once enough audio was measured
+   * and null until then.
+   */
+  add(peak: number, chunkDurationMs: number): VADCalibration | null {
+    this.peaks.push(peak);
+    this.measuredMs += chunkDurationMs;
+    if (this.measuredMs < this.durationMs) {
+      return null;
+    }
+
+    const sorted = [...this.peaks].sort((a, b) => a - b);
+    const noiseFloor = sorted[Math.floor((sorted.length - 1) * NOISE_PERCENTILE)];
+    const energyThreshold = Math.min(
+      MAX_ENERGY_THRESHOLD,
+      Math.max(MIN_ENERGY_THRESHOLD, noiseFloor * NOISE_MARGIN)
+    );
+
+    return { noiseFloor, energyThreshold, calibratedAt: Date.now() };
+  }
+}
@@ -1,148 +1,136 @@
-import * as fs from 'fs';
-import * as os from 'os';
-import * as path from 'path';
+import { EnergyVADBackend, VADBackend, VADBackendName, createVADBackend } from './vad-backends';
+import type { KeywordScore } from './keyword-spotter';
 
-// Dynamic import wrapper for @xenova/transformers to keep bundlers happy.
-let pipeline: any;
-let env: any;
-let envConfigured = false;
+export type { VADBackendName } from './vad-backends';
 
-function configureTransformersEnv(): void {
-  if (envConfigured || !env) {
-    return;
-  }
-
-  env.allowRemoteModels = true;
-  env.allowLocalModels = true;
-  env.useBrowserCache = false;
-
-  const cacheDir =
-    process.env.TRANSFORMERS_CACHE ??
-    process.env.HF_HOME ??
-    path.join(os.homedir(), '.cache', 'ai-consul', 'transformers');
-
-  try {
-    fs.mkdirSync(cacheDir, { recursive: true });
-  } catch (error) {
-    console.warn('[VAD] Failed to create transformers cache directory:', error);
-  }
-
-  env.cacheDir = cacheDir;
-  env.localModelPath = cacheDir;
-
-  const token =
-    process.env.HF_TOKEN ??
-    process.env.HF_ACCESS_TOKEN ??
-    process.env.HF_API_TOKEN ??
-    process.env.HUGGINGFACE_TOKEN ??
-    process.env.HUGGINGFACEHUB_API_TOKEN ??
-    process.env.HUGGING_FACE_HUB_TOKEN;
-
-  if (token) {
-    if (!process.env.HF_TOKEN) {
-      process.env.HF_TOKEN = token;
-    }
-    if (!process.env.HF_ACCESS_TOKEN) {
-      process.env.HF_ACCESS_TOKEN = token;
-    }
-  }
+export interface VADResult {
+  speech: boolean;
+  pause: boolean;
+  // Top speech-commands label of a speech chunk; absent for backends that do
+  // not spot keywords
+  keyword?: KeywordScore | null;
+}
 
-  envConfigured = true;
+// Speech/pause tracking for one audio stream (e.g. microphone or system audio)
+interface StreamState {
+  speechDetected: boolean;
+  accumulatedSilenceMs: number;
+  silenceChunkCount: number;
 }
 
-async function loadTransformers(): Promise<{ pipeline: any; env: any }> {
-  if (!pipeline || !env) {
-    const importTransformers = new Function('specifier', 'return import(specifier)');
-    const transformers = await importTransformers('@xenova/transformers');
-    pipeline = transformers.pipeline;
-    env = transformers.env;
-    configureTransformersEnv();
-  }
-  return { pipeline, env };
+const DEFAULT_STREAM_ID = 'default';
+
+export interface VADThresholds {
+  // Silence needed after speech before a pause is reported
+  minSilenceDurationMs: number;
+  // Peak amplitude below which a chunk is never speech
+  energyThreshold: number;
+  // Minimum model score for speech; each model backend has its own default
+  speechConfidenceThreshold?: number;
+  // Silent chunks needed as well, so one short chunk cannot end an utterance
+  pauseDelayChunks: number;
 }
 
-export interface VADResult {
-  speech: boolean;
-  pause: boolean;
+export const DEFAULT_VAD_THRESHOLDS: VADThresholds = {
+  minSilenceDurationMs: 1200,
+  energyThreshold: 0.01,
+  pauseDelayChunks: 2,
+};
+
+export interface VADOptions {
+  backend?: VADBackendName;
+  // Model id for the classifier or silero backend
+  model?: string;
+  thresholds?: Partial<VADThresholds>;
 }
 
+/**
+ * Classifies audio chunks as speech or silence and reports pauses. The
+ * speech decision comes from a pluggable backend; if a model backend cannot
+ * be loaded the energy detector takes over, so VAD never blocks startup.
+ * Pause tracking is kept per stream id so independently captured channels
+ * can be segmented separately.
+ */
 export class VADProcessor {
-  private vad: any = null;
-  private isInitialized = false;
+  private backend: VADBackend;
   private initializationPromise: Promise<void> | null = null;
-  private initializationError: Error | null = null;
 
-  private speechDetected = false;
-  private accumulatedSilenceMs = 0;
-  private silenceChunkCount = 0;
+  private streams = new Map<string, StreamState>();
+  private thresholds: VADThresholds;
+  // Calibrated energy thresholds that override the configured one per stream
+  private energyThresholds = new Map<string, number>();
 
   private readonly sampleRate = 16000;
-  private readonly minSilenceDurationMs = 1200;
-  private readonly speechThreshold = 0.5;
-  private readonly energyThreshold = 0.01;
-  private readonly speechConfidenceThreshold = 0.25;
-  private readonly pauseDelayChunks = 5;
 
-  constructor() {
+  constructor(options: VADOptions = {}) {
+    this.thresholds = { ...DEFAULT_VAD_THRESHOLDS, ...options.thresholds };
+    this.backend = createVADBackend(options.backend ?? 'energy', {
+      model: options.model,
+      speechConfidenceThreshold: this.thresholds.speechConfidenceThreshold,
+    });
     this.initializationPromise = this.initialize();
   }
 
   private async initialize(): Promise<void> {
-    const { pipeline: pipelineFn } = await loadTransformers();
-
-    if (this.isInitialized) {
-      return;
-    }
-
-    this.initializationError = null;
-
     try {
-      console.log('[VAD] Initializing speech-commands VAD model...');
-      this.vad = await pipelineFn('audio-classification', 'Xenova/ast-finetuned-speech-commands-v2', {
-        quantized: true,
-        use_cache: false,
-      });
-      this.isInitialized = true;
-      console.log('[VAD] Speech-commands VAD initialized');
+      console.log(`[VAD] Initializing ${this.backend.name} backend...`);
+      await this.backend.initialize();
+      console.log(`[VAD] ${this.backend.name} backend initialized`);
     } catch (error) {
-      const wrapped = this.normalizeInitializationError(error);
-      this.initializationError = wrapped;
-      console.error('[VAD] Failed to initialize VAD model:', wrapped);
-      throw wrapped;
-    } finally {
-      this.initializationPromise = null;
+      console.warn(
+        `[VAD] Failed to initialize ${this.backend.name} backend, falling back to energy detection:`,
+        error instanceof Error ? error.message : error
+      );
+      this.backend = new EnergyVADBackend();
+      await this.backend.initialize();
     }
   }
 
   public async isReady(): Promise<void> {
-    if (this.initializationError) {
-      throw this.initializationError;
-    }
+    await this.initializationPromise;
+  }
 
-    if (this.isInitialized) {
-      return;
-    }
+  // Whether process() reports keywords, so callers need no spotter of their own
+  public spotsKeywords(): boolean {
+    return typeof this.backend.getKeyword === 'function';
+  }
 
-    if (!this.initializationPromise) {
-      this.initializationPromise = this.initialize();
-    }
+  // The backend in use, which differs from the configured one after a fallback
+  public getBackendName(): VADBackendName {
+    return this.backend.name;
+  }
+
+  /**
+   * Applies new pause and energy thresholds. The backend's confidence
+   * threshold is fixed when it is created.
+   */
+  public setThresholds(thresholds: Partial<VADThresholds>): void {
+    this.thresholds = { ...DEFAULT_VAD_THRESHOLDS, ...thresholds };
+  }
+
+  public getEnergyThreshold(streamId: string = DEFAULT_STREAM_ID): number {
+    return this.energyThresholds.get(streamId) ?? this.thresholds.energyThreshold;
+  }
 
-    return this.initializationPromise;
+  // Used after noise calibration; cleared again by resetState
+  public setEnergyThreshold(threshold: number, streamId: string = DEFAULT_STREAM_ID): void {
+    this.energyThresholds.set(streamId, threshold);
   }
 
   public resetState(): void {
-    if (!this.isInitialized || this.initializationError) {
-      return;
-    }
-    this.speechDetected = false;
-    this.accumulatedSilenceMs = 0;
-    this.silenceChunkCount = 0;
+    this.streams.clear();
+    this.energyThresholds.clear();
+    this.backend.resetState();
     if (process.env.DEBUG_AUDIO === 'true') {
       console.log('[VAD] State reset');
     }
   }
 
-  public async process(audioChunk: Float32Array, maxAmplitude?: number): Promise<VADResult> {
+  public async process(
+    audioChunk: Float32Array,
+    maxAmplitude?: number,
+    streamId: string = DEFAULT_STREAM_ID
+  ): Promise<VADResult> {
     if (!audioChunk || audioChunk.length === 0) {
       if (process.env.DEBUG_AUDIO === 'true') {
         console.warn('[VAD] Received empty audio chunk, skipping.');
@@ -150,93 +138,44 @@ export class VADProcessor {
       return { speech: false, pause: false };
     }
 
-    if (this.initializationError) {
-      throw this.initializationError;
-    }
-
-    if (!this.isInitialized) {
-      await this.isReady();
-    }
-
-    if (!this.vad) {
-      console.warn('[VAD] Processor unavailable');
-      return { speech: false, pause: false };
-    }
+    await this.isReady();
 
     try {
-      const results = await this.vad(audioChunk, { topk: null });
-      const outputs = Array.isArray(results) ? results : [results];
-
-      let silenceScore = 0;
-      let speechScore = 0;
-      let topResult: { label: string; score: number } | null = null;
-
-      for (const item of outputs) {
-        if (!item || typeof item !== 'object') continue;
-        const rawLabel = typeof item.label === 'string' ? item.label : '';
-        const label = rawLabel.toLowerCase();
-        const score = typeof item.score === 'number' ? item.score : 0;
-
-        if (!topResult || score > topResult.score) {
-          topResult = { label: rawLabel, score };
-        }
-
-        if (rawLabel === '_unknown_' || label.includes('unknown')) {
-          silenceScore = Math.max(silenceScore, score);
-        } else {
-          speechScore = Math.max(speechScore, score);
-        }
-      }
-
-      const topLabel = topResult?.label ?? '';
-      const topScore = topResult?.score ?? 0;
-      const isUnknownTop =
-        topLabel === '_unknown_' || topLabel.toLowerCase().includes('unknown');
       const energyLevel =
         typeof maxAmplitude === 'number' ? maxAmplitude : this.computeMaxAmplitude(audioChunk);
-
-      const meetsEnergy = energyLevel >= this.energyThreshold;
-      const meetsConfidence = topScore >= this.speechConfidenceThreshold;
-      const isSpeech = meetsEnergy && meetsConfidence && !isUnknownTop;
+      const detected = await this.backend.isSpeech(audioChunk, streamId);
+      const isSpeech = detected && energyLevel >= this.getEnergyThreshold(streamId);
 
       const chunkDurationMs = (audioChunk.length / this.sampleRate) * 1000;
       let pauseDetected = false;
 
+      const state = this.getStreamState(streamId);
       if (isSpeech) {
-        this.speechDetected = true;
-        this.accumulatedSilenceMs = 0;
-        this.silenceChunkCount = 0;
-      } else if (this.speechDetected) {
-        this.accumulatedSilenceMs += chunkDurationMs;
-        this.silenceChunkCount += 1;
-        if (this.accumulatedSilenceMs >= this.minSilenceDurationMs) {
+        state.speechDetected = true;
+        state.accumulatedSilenceMs = 0;
+        state.silenceChunkCount = 0;
+      } else if (state.speechDetected) {
+        state.accumulatedSilenceMs += chunkDurationMs;
+        state.silenceChunkCount += 1;
+        if (
+          state.accumulatedSilenceMs >= this.thresholds.minSilenceDurationMs &&
+          state.silenceChunkCount >= this.thresholds.pauseDelayChunks
+        ) {
           pauseDetected = true;
-          this.speechDetected = false;
-          this.accumulatedSilenceMs = 0;
-          this.silenceChunkCount = 0;
-        } else if (this.silenceChunkCount >= this.pauseDelayChunks) {
-          pauseDetected = true;
-          this.speechDetected = false;
-          this.accumulatedSilenceMs = 0;
-          this.silenceChunkCount = 0;
+          state.speechDetected = false;
+          state.accumulatedSilenceMs = 0;
+          state.silenceChunkCount = 0;
         }
       }
 
-      const speechActive = isSpeech || this.speechDetected;
+      const speechActive = isSpeech || state.speechDetected;
 
       if (process.env.DEBUG_AUDIO === 'true') {
-        const topLabel = topResult
-          ? `${topResult.label} (${topResult.score.toFixed(2)})`
-          : 'n/a';
-        console.log('[VAD] scores:', {
-          top: topLabel,
-          silenceScore: silenceScore.toFixed(2),
-          speechScore: speechScore.toFixed(2),
+        console.log('[VAD] result:', {
+          stream: streamId,
+          backend: this.backend.name,
           energy: energyLevel.toFixed(4),
-          meetsEnergy,
-          topScore: topScore.toFixed(2),
-          meetsConfidence,
-          isUnknownTop,
+          detected,
           isSpeech,
           speechActive,
           pauseDetected,
@@ -246,6 +185,9 @@ export class VADProcessor {
       return {
         speech: speechActive,
         pause: pauseDetected,
+        ...(this.backend.getKeyword
+          ? { keyword: isSpeech ? this.backend.getKeyword(streamId) : null }
+          : {}),
       };
     } catch (error) {
       console.error('[VAD] Error processing audio chunk:', error);
@@ -253,17 +195,13 @@ export class VADProcessor {
     }
   }
 
-  private normalizeInitializationError(error: unknown): Error {
-    if (error instanceof Error) {
-      if (error.message.includes('Unauthorized access to file')) {
-        const hint =
-          'Ensure the application can access Hugging Face to download the Xenova/ast-finetuned-speech-commands-v2 assets.';
-        return new Error(`${error.message} ${hint}`);
-      }
-      return error;
+  private getStreamState(streamId: string): StreamState {
+    let state = this.streams.get(streamId);
+    if (!state) {
+      state = { speechDetected: false, accumulatedSilenceMs: 0, silenceChunkCount: 0 };
+      this.streams.set(streamId, state);
     }
-
-    return new Error('Unknown error during VAD initialization');
+    return state;
   }
 
   private computeMaxAmplitude(buffer: Float32Array): number {
@@ -0,0 +1,154 @@
+import { KeywordScore, isUnknownKeyword } from './keyword-spotter';
+
+export type VoiceCommandAction = 'pause' | 'resume' | 'regenerate' | 'bookmark';
+
+export interface VoiceCommandOptions {
+  // Speech-commands labels to say, in order, for each action
+  commands?: Partial<Record<VoiceCommandAction, string[]>>;
+  // Keywords scored lower than this are ignored
+  minConfidence?: number;
+  // Longest silence allowed between the words of a command
+  maxKeywordGapMs?: number;
+  // Utterances longer than this are conversation, not commands
+  maxUtteranceMs?: number;
+  // Speech chunks without a confident keyword allowed around a command, for
+  // word onsets and endings
+  maxOtherSpeechChunks?: number;
+  // A command repeated within this window is ignored
+  cooldownMs?: number;
+}
+
+// "Marvin" is one of the model's labels and rare in conversation, so every
+// command starts with it
+export const DEFAULT_VOICE_COMMANDS: Record<VoiceCommandAction, string[]> = {
+  pause: ['marvin', 'stop'],
+  resume: ['marvin', 'go'],
+  regenerate: ['marvin', 'forward'],
+  bookmark: ['marvin', 'learn'],
+};
+
+/**
+ * The keyword sequence for every action: configured sequences replace the
+ * defaults, the rest keep them.
+ */
+export function resolveVoiceCommands(
+  commands?: VoiceCommandOptions['commands']
+): Record<VoiceCommandAction, string[]> {
+  return { ...DEFAULT_VOICE_COMMANDS, ...commands };
+}
+
+const DEFAULTS: Required<Omit<VoiceCommandOptions, 'commands'>> = {
+  minConfidence: 0.8,
+  maxKeywordGapMs: 1500,
+  maxUtteranceMs: 4000,
+  maxOtherSpeechChunks: 2,
+  cooldownMs: 3000,
+};
+
+// A word spans several chunks; repeats closer than this are the same word
+const SAME_WORD_MS = 600;
+
+export interface VoiceCommandChunk {
+  speech: boolean;
+  pause: boolean;
+  // Top label of a voiced chunk, null for silence
+  keyword: KeywordScore | null;
+  // Chunk position in the stream
+  startMs: number;
+  durationMs: number;
+}
+
+interface HeardKeyword {
+  label: string;
+  atMs: number;
+}
+
+/**
+ * Turns per-chunk keyword labels into session commands. A command fires when
+ * an utterance ends and consisted of exactly one configured keyword sequence,
+ * each word recognised with high confidence and close to the previous one.
+ * Long utterances and ones with other words around the command are ignored,
+ * so the same words inside normal conversation never trigger anything.
+ */
+export class VoiceCommandRecognizer {
+  private options: Required<Omit<VoiceCommandOptions, 'commands'>>;
+  private commands: Array<[VoiceCommandAction, string[]]>;
+  private utteranceStartMs: number | null = null;
+  private heard: HeardKeyword[] = [];
+  private otherSpeechChunks = 0;
+  private lastFiredMs = new Map<VoiceCommandAction, number>();
+
+  constructor(options: VoiceCommandOptions = {}) {
+    const { commands, ...rest } = options;
+    this.options = { ...DEFAULTS, ...rest };
+    this.commands = Object.entries(resolveVoiceCommands(commands)) as Array<
+      [VoiceCommandAction, string[]]
+    >;
+  }
+
+  process(chunk: VoiceCommandChunk): VoiceCommandAction | null {
+    if (chunk.speech) {
+      this.utteranceStartMs ??= chunk.startMs;
+      this.hear(chunk.keyword, chunk.startMs);
+    }
+
+    if (!chunk.pause || this.utteranceStartMs === null) {
+      return null;
+    }
+
+    const utteranceMs = chunk.startMs - this.utteranceStartMs;
+    const heard = this.heard;
+    const otherSpeechChunks = this.otherSpeechChunks;
+    this.utteranceStartMs = null;
+    this.heard = [];
+    this.otherSpeechChunks = 0;
+
+    if (
+      utteranceMs > this.options.maxUtteranceMs ||
+      otherSpeechChunks > this.options.maxOtherSpeechChunks
+    ) {
+      return null;
+    }
+    const action = this.match(heard);
+    if (!action) {
+      return null;
+    }
+    if (chunk.startMs - (this.lastFiredMs.get(action) ?? -Infinity) < this.options.cooldownMs) {
+      return null;
+    }
+    this.lastFiredMs.set(action, chunk.startMs);
+    return action;
+  }
+
+  private hear(keyword: KeywordScore | null, atMs: number): void {
+    if (!keyword) {
+      return;
+    }
+    if (isUnknownKeyword(keyword.label) || keyword.score < this.options.minConfidence) {
+      this.otherSpeechChunks++;
+      return;
+    }
+
+    const label = keyword.label.toLowerCase();
+    const previous = this.heard[this.heard.length - 1];
+    if (previous?.label === label && atMs - previous.atMs <= SAME_WORD_MS) {
+      previous.atMs = atMs;
+      return;
+    }
+    this.heard.push({ label, atMs });
+  }
+
+  private match(heard: HeardKeyword[]): VoiceCommandAction | null {
+    for (let i = 1; i < heard.length; i++) {
+      if (heard[i].atMs - heard[i - 1].atMs > this.options.maxKeywordGapMs) {
+        return null;
+      }
+    }
+
+    const spoken = heard.map((keyword) => keyword.label).join(' ');
+    const found = this.commands.find(
+      ([, sequence]) => sequence.length > 0 && sequence.join(' ').toLowerCase() === spoken
+    );
+    return found ? found[0] : null;
+  }
+}
@@ -0,0 +1,54 @@
+import { cosineSimilarity } from './diarization';
+
+// The enrolled user's voice print, stored locally and never sent anywhere
+export interface VoiceProfile {
+  embedding: number[];
+  // Embedding model the print was made with; prints from other models do not compare
+  model: string;
+  createdAt: number;
+}
+
+export const DEFAULT_VOICE_MATCH_THRESHOLD = 0.7;
+
+// Enrollment audio is embedded in windows of this length and averaged
+const ENROLLMENT_WINDOW_SECONDS = 3;
+
+export function splitEnrollmentAudio(audio: Float32Array, sampleRate: number): Float32Array[] {
+  const windowSize = Math.floor(ENROLLMENT_WINDOW_SECONDS * sampleRate);
+  if (audio.length <= windowSize) {
+    return [audio];
+  }
+
+  const windows: Float32Array[] = [];
+  for (let offset = 0; offset + windowSize <= audio.length; offset += windowSize) {
+    windows.push(audio.subarray(offset, offset + windowSize));
+  }
+  return windows;
+}
+
+/**
+ * Averages unit-normalised embeddings so every enrollment window counts the
+ * same regardless of its loudness.
+ */
+export function averageEmbeddings(embeddings: number[][]): number[] {
+  if (embeddings.length === 0) {
+    throw new Error('Cannot build a voice profile without embeddings');
+  }
+
+  const average = new Array<number>(embeddings[0].length).fill(0);
+  for (const embedding of embeddings) {
+    const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0)) || 1;
+    for (let i = 0; i < average.length; i++) {
+      average[i] += embedding[i] / norm / embeddings.length;
+    }
+  }
+  return average;
+}
+
+export function matchesVoiceProfile(
+  embedding: number[],
+  profile: VoiceProfile,
+  threshold: number = DEFAULT_VOICE_MATCH_THRESHOLD
+): boolean {
+  return cosineSimilarity(embedding, profile.embedding) >= threshold;
+}
@@ -0,0 +1,93 @@
+export interface DecodedAudio {
+  // Mono samples in [-1, 1] at `sampleRate`
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function readSample(view: DataView, offset: number, bitsPerSample: number, isFloat: boolean): number {
+  if (isFloat) {
+    return bitsPerSample === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bitsPerSample) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+/**
+ * Decodes a RIFF/WAVE file (8/16/24/32-bit PCM or 32/64-bit float) and mixes
+ * it down to mono. Compressed formats need a real decoder and are rejected.
+ */
+export function decodeWav(data: Uint8Array): DecodedAudio {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tag = (offset: number) =>
+    String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+
+  if (data.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null =
+    null;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const chunkId = tag(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let audioFormat = view.getUint16(body, true);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        // The real format is the first two bytes of the sub-format GUID
+        audioFormat = view.getUint16(body + 24, true);
+      }
+      format = {
+        audioFormat,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk appears before its format chunk');
+      }
+      if (format.audioFormat !== WAVE_FORMAT_PCM && format.audioFormat !== WAVE_FORMAT_IEEE_FLOAT) {
+        throw new Error(`Unsupported WAV encoding (format ${format.audioFormat}); convert to PCM first`);
+      }
+
+      const isFloat = format.audioFormat === WAVE_FORMAT_IEEE_FLOAT;
+      const bytesPerSample = format.bitsPerSample / 8;
+      const frameSize = bytesPerSample * format.channels;
+      // Some writers leave the size at 0 or past the end when streaming
+      const dataSize = Math.min(chunkSize || data.byteLength, data.byteLength - body);
+      const frames = Math.floor(dataSize / frameSize);
+      const samples = new Float32Array(frames);
+
+      for (let frame = 0; frame < frames; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < format.channels; channel++) {
+          sum += readSample(view, body + frame * frameSize + channel * bytesPerSample, format.bitsPerSample, isFloat);
+        }
+        samples[frame] = sum / format.channels;
+      }
+      return { samples, sampleRate: format.sampleRate };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no audio data');
+}
@@ -1,6 +1,12 @@
 import axios from 'axios';
 import FormData from 'form-data';
 
+export interface CloudTranscription {
+  text: string;
+  // As reported by the API: the English name of the language, e.g. 'french'
+  language: string | null;
+}
+
 export class CloudWhisper {
   private apiKey: string;
   private baseURL = 'https://api.openai.com/v1';
@@ -12,7 +18,17 @@ export class CloudWhisper {
     }
   }
 
-  async transcribe(audioChunk: Float32Array, sampleRate: number = 16000): Promise<string> {
+  /**
+   * Transcribes in the given ISO 639-1 language, or detects it when none is
+   * given; verbose output is requested so the detected language is returned.
+   * Vocabulary terms are sent as the prompt so their spelling is followed.
+   */
+  async transcribe(
+    audioChunk: Float32Array,
+    sampleRate: number = 16000,
+    language: string | null = null,
+    vocabulary: string[] = []
+  ): Promise<CloudTranscription> {
     try {
       // Convert Float32Array to WAV format
       const wavBuffer = this.float32ToWav(audioChunk, sampleRate);
@@ -25,7 +41,13 @@ export class CloudWhisper {
         contentType: 'audio/wav',
       });
       formData.append('model', 'whisper-1');
-      formData.append('language', 'en');
+      formData.append('response_format', 'verbose_json');
+      if (language) {
+        formData.append('language', language);
+      }
+      if (vocabulary.length > 0) {
+        formData.append('prompt', `${vocabulary.join(', ')}.`);
+      }
 
       const response = await axios.post(
         `${this.baseURL}/audio/transcriptions`,
@@ -38,7 +60,10 @@ export class CloudWhisper {
         }
       );
 
-      return response.data.text || '';
+      return {
+        text: response.data.text || '',
+        language: typeof response.data.language === 'string' ? response.data.language : null,
+      };
     } catch (error: any) {
       console.error('Cloud Whisper error:', error);
       throw new Error(`Cloud transcription failed: ${error.message}`);
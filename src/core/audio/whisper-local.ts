@@ -1,29 +1,82 @@
-// Dynamic import for ES module support
-let pipeline: any;
-let env: any;
-
-async function loadTransformers() {
-  if (!pipeline || !env) {
-    // Use Function constructor to force true dynamic import (not transformed by TypeScript)
-    const importTransformers = new Function('specifier', 'return import(specifier)');
-    const transformers = await importTransformers('@xenova/transformers');
-    pipeline = transformers.pipeline;
-    env = transformers.env;
-    
-    // Disable local model files to use CDN
-    env.allowLocalModels = false;
-    env.allowRemoteModels = true;
+import { InferenceProcessor, loadInferencePipeline } from '../inference/client';
+import type { SpeechRecognitionResult, TokenConfidence } from '../inference/pipelines';
+
+export interface TranscribedWord {
+  text: string;
+  // Seconds from the start of the transcribed audio
+  start: number;
+  end: number;
+  // Mean probability of the word's tokens (0-1); null when unavailable
+  confidence: number | null;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Null when word timestamps were not requested or are unsupported by the model
+  words: TranscribedWord[] | null;
+  // Mean token probability of the whole transcript (0-1); null when unavailable
+  confidence: number | null;
+  // ISO 639-1 code Whisper decoded in: the forced language or the detected one
+  language: string | null;
+}
+
+export interface TranscribeOptions {
+  // Defaults to true; interim decodes skip it to save time
+  wordTimestamps?: boolean;
+  // ISO 639-1 code to decode in; null or omitted lets Whisper detect it
+  language?: string | null;
+  // Names and jargon the decoder is nudged toward
+  vocabulary?: string[];
+}
+
+export type WhisperModelSize = 'tiny' | 'base' | 'small';
+
+export function getWhisperModelName(modelSize: WhisperModelSize): string {
+  return `Xenova/whisper-${modelSize}`;
+}
+
+const EMPTY_RESULT: TranscriptionResult = { text: '', words: null, confidence: null, language: null };
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Groups Whisper tokens into words: a token starting with a space begins a
+ * new word, anything else (sub-words, punctuation) continues the current one.
+ */
+export function groupTokenConfidences(
+  tokens: TokenConfidence[]
+): Array<{ text: string; confidence: number }> {
+  const words: Array<{ text: string; probabilities: number[] }> = [];
+
+  for (const token of tokens) {
+    const current = words[words.length - 1];
+    if (!current || token.text.startsWith(' ')) {
+      words.push({ text: token.text.trim(), probabilities: [token.probability] });
+    } else {
+      current.text += token.text;
+      current.probabilities.push(token.probability);
+    }
   }
-  return { pipeline, env };
+
+  return words
+    .filter((word) => word.text.length > 0)
+    .map((word) => ({ text: word.text, confidence: mean(word.probabilities) ?? 0 }));
 }
 
 export class LocalWhisper {
   private model: any = null;
-  private processor: any = null;
+  private processor: InferenceProcessor | null = null;
   private isInitialized = false;
   private modelSize: 'tiny' | 'base' | 'small' = 'base';
   private initializationPromise: Promise<void> | null = null;
+  private wordTimestampsSupported = true;
 
+  /**
+   * Loads the multilingual Whisper checkpoint of the given size; the English
+   * only `.en` variants are avoided so any session language can be decoded.
+   */
   async initialize(modelSize: 'tiny' | 'base' | 'small' = 'base'): Promise<void> {
     if (this.isInitialized && this.modelSize === modelSize) {
       return;
@@ -34,15 +87,14 @@ export class LocalWhisper {
     }
 
     this.modelSize = modelSize;
-    const modelName = `Xenova/whisper-${modelSize}`;
+    this.wordTimestampsSupported = true;
+    const modelName = getWhisperModelName(modelSize);
 
     this.initializationPromise = (async () => {
       try {
         console.log(`Loading Whisper model: ${modelName}`);
 
-        const { pipeline: pipelineFn } = await loadTransformers();
-
-        this.processor = await pipelineFn(
+        this.processor = await loadInferencePipeline(
           'automatic-speech-recognition',
           modelName,
           {
@@ -63,12 +115,77 @@ export class LocalWhisper {
     return this.initializationPromise;
   }
 
-  async transcribe(audioChunk: Float32Array<ArrayBufferLike>, sampleRate: number = 16000): Promise<string> {
+  async transcribe(
+    audioChunk: Float32Array<ArrayBufferLike>,
+    sampleRate: number = 16000,
+    options: TranscribeOptions = {}
+  ): Promise<TranscriptionResult> {
+    const wantsWords = (options.wordTimestamps ?? true) && this.wordTimestampsSupported;
+    const language = options.language ?? null;
+    const vocabulary = options.vocabulary ?? [];
+
+    let result: SpeechRecognitionResult | null;
+    try {
+      result = await this.decode(audioChunk, sampleRate, wantsWords ? 'word' : false, language, vocabulary);
+    } catch (error) {
+      if (!wantsWords) {
+        throw error;
+      }
+      // Models exported without alignment heads cannot time words
+      console.warn('[whisper] Word timestamps unavailable, transcribing without them:', error);
+      result = await this.decode(audioChunk, sampleRate, false, language, vocabulary);
+      this.wordTimestampsSupported = false;
+    }
+
+    if (!result) {
+      return { ...EMPTY_RESULT };
+    }
+
+    const tokens = result.token_confidences ?? null;
+    const words = wantsWords && Array.isArray(result.chunks) ? this.toWords(result.chunks, tokens) : null;
+
+    return {
+      text: result.text || '',
+      words,
+      confidence: tokens ? mean(tokens.map((token) => token.probability)) : null,
+      language: language ?? result.detected_language ?? null,
+    };
+  }
+
+  private toWords(
+    chunks: Array<{ text: string; timestamp: [number, number | null] }>,
+    tokens: TokenConfidence[] | null
+  ): TranscribedWord[] {
+    const words = chunks
+      .map((chunk) => ({
+        text: chunk.text.trim(),
+        start: chunk.timestamp[0],
+        end: chunk.timestamp[1] ?? chunk.timestamp[0],
+      }))
+      .filter((word) => word.text.length > 0);
+
+    // Confidences are only attached when token and word boundaries agree
+    const grouped = tokens ? groupTokenConfidences(tokens) : [];
+    const aligned = grouped.length === words.length;
+
+    return words.map((word, index) => ({
+      ...word,
+      confidence: aligned ? grouped[index].confidence : null,
+    }));
+  }
+
+  private async decode(
+    audioChunk: Float32Array<ArrayBufferLike>,
+    sampleRate: number,
+    returnTimestamps: false | 'word',
+    language: string | null,
+    vocabulary: string[]
+  ): Promise<SpeechRecognitionResult | null> {
     if (!audioChunk || audioChunk.length === 0) {
       if (process.env.DEBUG_AUDIO === 'true') {
         console.warn('[whisper] Received empty audio buffer, skipping transcription.');
       }
-      return '';
+      return null;
     }
 
     // Ensure model is fully initialized before transcribing
@@ -97,19 +214,20 @@ export class LocalWhisper {
         });
       }
 
-      const result = await this.processor(audioChunk, {
-        return_timestamps: false,
+      const result = (await this.processor(audioChunk, {
+        return_timestamps: returnTimestamps,
         sampling_rate: sampleRate,
-        language: 'english',
+        language,
         task: 'transcribe',
-      });
+        ...(vocabulary.length > 0 ? { vocabulary } : {}),
+      })) as SpeechRecognitionResult;
 
       if (process.env.DEBUG_AUDIO === 'true') {
         console.log(`[whisper] result:`, result);
         console.log(`[whisper] extracted text: "${result.text}"`);
       }
 
-      return result.text || '';
+      return result;
     } catch (error) {
       console.error('Whisper transcription error:', error);
       if (error instanceof Error) {
@@ -125,7 +243,7 @@ export class LocalWhisper {
     
     for (const chunk of audioChunks) {
       try {
-        const text = await this.transcribe(chunk, sampleRate);
+        const { text } = await this.transcribe(chunk, sampleRate);
         if (text) {
           results.push(text);
         }
@@ -95,6 +95,23 @@ describe('ContextManager', () => {
     });
   });
 
+  describe('speaker labels', () => {
+    it('should render diarized speakers by id until they are renamed', () => {
+      manager.addExchange({
+        speaker: 'user',
+        speakerId: 'Speaker 2',
+        text: 'Shall we start?',
+        timestamp: Date.now(),
+      });
+
+      expect(manager.getContext()).toContain('Speaker 2: Shall we start?');
+
+      manager.setSpeakerLabel('Speaker 2', 'Priya');
+      expect(manager.getContext()).toContain('Priya: Shall we start?');
+      expect(manager.getSpeakerLabel('Speaker 1')).toBe('Speaker 1');
+    });
+  });
+
   describe('clearExpiredData', () => {
     it('should clear expired exchanges', () => {
       const oldTimestamp = Date.now() - 8 * 24 * 60 * 60 * 1000; // 8 days ago
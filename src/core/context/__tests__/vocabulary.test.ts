@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { buildVocabulary, extractDocumentTerms } from '../vocabulary';
+
+describe('vocabulary', () => {
+  it('extracts names and jargon from document text', () => {
+    const terms = extractDocumentTerms([
+      'Led the migration to Kubernetes at Acme. Worked with Priya on GraphQL APIs.\n' +
+        'The team ran K8s clusters on AWS and shipped Node.js services with Priya.',
+    ]);
+
+    expect(terms[0]).toBe('Priya');
+    expect(terms).toEqual(
+      expect.arrayContaining(['Kubernetes', 'Acme', 'GraphQL', 'APIs', 'K8s', 'AWS', 'Node.js'])
+    );
+    expect(terms).not.toContain('Led');
+    expect(terms).not.toContain('The');
+  });
+
+  it('puts user terms first, drops duplicates and respects the limit', () => {
+    const vocabulary = buildVocabulary(
+      {
+        customTerms: ['Siobhan', ' '],
+        participants: ['siobhan', 'Marek'],
+        skills: ['PyTorch'],
+        documents: ['Built models in PyTorch and Rust with Marek.'],
+      },
+      4
+    );
+
+    expect(vocabulary).toEqual(['Siobhan', 'Marek', 'PyTorch', 'Rust']);
+  });
+});
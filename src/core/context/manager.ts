@@ -1,7 +1,12 @@
-interface ConversationExchange {
-  speaker: 'user' | 'other' | 'system';
+// 'user' is the person AI Consul assists; 'other' is anyone else in the conversation
+export type Speaker = 'user' | 'other' | 'system';
+
+export interface ConversationExchange {
+  speaker: Speaker;
   text: string;
   timestamp: number;
+  // Diarized voice (e.g. "Speaker 1") when several people share one channel
+  speakerId?: string;
 }
 
 interface ContextManagerConfig {
@@ -16,6 +21,7 @@ export class ContextManager {
   private exchanges: ConversationExchange[] = [];
   private config: ContextManagerConfig;
   private lastSummarizationTime: number = Date.now();
+  private speakerLabels = new Map<string, string>();
 
   constructor(config: ContextManagerConfig) {
     this.config = config;
@@ -38,10 +44,26 @@ export class ContextManager {
     // Get recent exchanges, respecting token limit
     const recentExchanges = this.getRecentExchanges();
     return recentExchanges
-      .map((ex) => `${ex.speaker}: ${ex.text}`)
+      .map((ex) => `${this.getSpeakerName(ex)}: ${ex.text}`)
       .join('\n');
   }
 
+  setSpeakerLabel(speakerId: string, label: string): void {
+    this.speakerLabels.set(speakerId, label);
+  }
+
+  getSpeakerLabel(speakerId: string): string {
+    return this.speakerLabels.get(speakerId) ?? speakerId;
+  }
+
+  clearSpeakerLabels(): void {
+    this.speakerLabels.clear();
+  }
+
+  private getSpeakerName(exchange: ConversationExchange): string {
+    return exchange.speakerId ? this.getSpeakerLabel(exchange.speakerId) : exchange.speaker;
+  }
+
   private getRecentExchanges(): ConversationExchange[] {
     // Simple token estimation: ~4 characters per token
     const maxChars = this.config.maxTokens * 4;
@@ -76,7 +98,7 @@ export class ContextManager {
 
     // Create summary of old exchanges
     const summaryText = old
-      .map((ex) => `${ex.speaker}: ${ex.text}`)
+      .map((ex) => `${this.getSpeakerName(ex)}: ${ex.text}`)
       .join('; ');
 
     // Replace old exchanges with summary
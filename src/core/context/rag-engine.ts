@@ -105,6 +105,15 @@ export class RAGEngine {
       .join('\n\n');
   }
 
+  /**
+   * Full text of every loaded document, one entry per document.
+   */
+  getDocumentTexts(): string[] {
+    return Array.from(this.documents.values()).map((chunks) =>
+      chunks.map((chunk) => chunk.text).join('\n\n')
+    );
+  }
+
   clear(): void {
     this.documents.clear();
   }
@@ -0,0 +1,91 @@
+export interface VocabularySources {
+  participants?: string[];
+  skills?: string[];
+  // Edited by the user in settings
+  customTerms?: string[];
+  // Raw text of the loaded documents (resume, job description, notes)
+  documents?: string[];
+}
+
+// Keeps the local decoder bias cheap and the cloud prompt within Whisper's
+// 224 token limit
+export const MAX_VOCABULARY_TERMS = 60;
+
+// Capitalised words that are common in prose and not worth biasing toward
+const STOP_WORDS = new Set([
+  'The', 'This', 'That', 'These', 'Those', 'And', 'But', 'For', 'With', 'From',
+  'Our', 'Their', 'Your', 'You', 'We', 'They', 'He', 'She', 'It', 'In', 'On',
+  'At', 'As', 'By', 'To', 'Of', 'An', 'A', 'I', 'My', 'If', 'Or', 'Is', 'Are',
+  'Was', 'Were', 'Be', 'Been', 'Will', 'Can', 'May', 'Also', 'All', 'Any',
+  'Each', 'When', 'Where', 'What', 'Which', 'Who', 'How', 'Why', 'January',
+  'February', 'March', 'April', 'June', 'July', 'August', 'September',
+  'October', 'November', 'December', 'Monday', 'Tuesday', 'Wednesday',
+  'Thursday', 'Friday', 'Saturday', 'Sunday',
+]);
+
+// Acronyms (AWS), mixed case (GraphQL, iOS), digits (K8s, S3) or dotted
+// names (Node.js) look like jargon wherever they appear
+const JARGON = /^(?:[A-Z]{2,5}s?|[A-Za-z]*[a-z][A-Z][A-Za-z]*|[A-Za-z]+\d[A-Za-z\d]*|[A-Za-z]+\.[a-z]{2,})$/;
+
+/**
+ * Picks names and technical terms out of document text: jargon-shaped words
+ * anywhere, and capitalised words that do not start a sentence. Terms are
+ * ranked by how often they occur.
+ */
+export function extractDocumentTerms(texts: string[], limit: number = MAX_VOCABULARY_TERMS): string[] {
+  const counts = new Map<string, number>();
+
+  for (const text of texts) {
+    const tokens = text.split(/\s+/);
+    tokens.forEach((raw, index) => {
+      const word = raw.replace(/^[^\w]+|[^\w.+#]+$|\.+$/g, '');
+      if (word.length < 2 || STOP_WORDS.has(word)) {
+        return;
+      }
+
+      const startsSentence = index === 0 || /[.!?:•\-–]$/.test(tokens[index - 1]);
+      const isName = /^[A-Z][a-z]+$/.test(word) && !startsSentence;
+      if (JARGON.test(word) || isName) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+      }
+    });
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([term]) => term);
+}
+
+/**
+ * Builds the session vocabulary. User-provided terms come first, then
+ * participants and skills, then terms found in documents; duplicates are
+ * dropped case-insensitively and the list is capped at `limit`.
+ */
+export function buildVocabulary(
+  sources: VocabularySources,
+  limit: number = MAX_VOCABULARY_TERMS
+): string[] {
+  const candidates = [
+    ...(sources.customTerms ?? []),
+    ...(sources.participants ?? []),
+    ...(sources.skills ?? []),
+    ...extractDocumentTerms(sources.documents ?? [], limit),
+  ];
+
+  const seen = new Set<string>();
+  const vocabulary: string[] = [];
+  for (const candidate of candidates) {
+    const term = candidate.trim();
+    const key = term.toLowerCase();
+    if (!term || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    vocabulary.push(term);
+    if (vocabulary.length >= limit) {
+      break;
+    }
+  }
+  return vocabulary;
+}
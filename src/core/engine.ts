@@ -1,24 +1,43 @@
-import { LocalWhisper } from './audio/whisper-local';
-import { CloudWhisper } from './audio/whisper-cloud';
+import { LocalWhisper, TranscriptionResult } from './audio/whisper-local';
+import { CloudTranscription, CloudWhisper } from './audio/whisper-cloud';
 import { LLMRouter } from './llm/router';
-import { ContextManager } from './context/manager';
+import { ContextManager, Speaker } from './context/manager';
 import { RAGEngine } from './context/rag-engine';
-import { SecureDataFlow } from './security/privacy';
+import { buildVocabulary } from './context/vocabulary';
+import { SecureDataFlow, allowsCloudServices } from './security/privacy';
 import { PromptBuilder } from './prompts/builder';
 import { OutputValidator } from './prompts/validator';
-import { VADProcessor } from './audio/vad';
+import { SuggestionStreamParser } from './prompts/stream-parser';
+import { VADBackendName, VADProcessor, VADThresholds } from './audio/vad';
+import { KeywordSpotter } from './audio/keyword-spotter';
+import type { VoiceCommandOptions } from './audio/voice-commands';
+import { DEFAULT_SPEAKER_EMBEDDING_MODEL, SpeakerEmbedder } from './audio/speaker-embedding';
+import { SpeakerClusterer } from './audio/diarization';
+import {
+  VoiceProfile,
+  averageEmbeddings,
+  matchesVoiceProfile,
+  splitEnrollmentAudio,
+} from './audio/voice-profile';
+import { setLocalFilesOnly } from './inference/client';
+import { SessionLanguage, getForcedLanguage, toLanguageCode } from './language';
+import type { StageConfig } from './pipeline/stage';
 // Load JSON at runtime using fs to avoid import path issues
 import * as fs from 'fs';
 import * as path from 'path';
 
 const promptLibraryPath = path.join(__dirname, '../../ai_prompt_library_final_v2.1.json');
 const promptLibrary = JSON.parse(fs.readFileSync(promptLibraryPath, 'utf-8'));
+const SUPPORTED_LANGUAGES: string[] = promptLibrary.metadata?.supported_languages ?? ['en'];
 
 export interface EngineConfig {
   privacy: {
     offlineFirst: boolean;
     cloudFallback: boolean;
     dataRetention: number; // days
+    // Never touch the network: models load from the local cache only and
+    // cloud services are disabled
+    strictOffline?: boolean;
   };
   performance: {
     hardwareTier: 'basic' | 'standard' | 'pro' | 'auto-detect';
@@ -35,6 +54,43 @@ export interface EngineConfig {
       fallbacks: string[]; // e.g., ['gpt-4o-mini', 'claude-3-haiku']
     };
   };
+  pipeline?: {
+    transcription?: Partial<StageConfig>;
+    suggestions?: Partial<StageConfig>;
+  };
+  // Splits a single mixed channel into speakers using voice embeddings
+  diarization?: {
+    enabled: boolean;
+    model?: string;
+    similarityThreshold?: number;
+    maxSpeakers?: number;
+    // Minimum similarity to the enrolled voice print for speech to count as the user's
+    voiceMatchThreshold?: number;
+  };
+  // Interim transcripts re-decoded from the growing speech buffer (local Whisper only)
+  streaming?: {
+    enabled: boolean;
+    partialIntervalMs?: number;
+  };
+  // Speech detector; model backends fall back to 'energy' if they fail to load
+  vad?: {
+    backend: VADBackendName;
+    model?: string;
+    thresholds?: Partial<VADThresholds>;
+    // Sets the microphone's energy threshold from its noise floor at session start
+    calibration?: {
+      enabled: boolean;
+      durationMs?: number;
+    };
+  };
+  // Hands-free session control through spoken keyword sequences (opt-in)
+  voiceCommands?: VoiceCommandOptions & {
+    enabled: boolean;
+  };
+  // Names and jargon Whisper should favour, edited by the user
+  vocabulary?: {
+    customTerms: string[];
+  };
 }
 
 export interface SessionConfig {
@@ -45,6 +101,10 @@ export interface SessionConfig {
     participants?: string[];
   };
   persona?: string;
+  // Capture device, so noise calibration is kept per microphone
+  microphoneId?: string;
+  // Conversation language; 'auto' (the default) detects it per segment
+  language?: SessionLanguage;
   suggestions?: {
     types?: string[];
     timing?: 'post-question' | 'real-time';
@@ -60,6 +120,32 @@ export interface Suggestion {
   useCase?: string;
 }
 
+export type PartialSuggestionHandler = (suggestions: Suggestion[]) => void;
+
+export interface GenerateSuggestionsOptions {
+  onPartial?: PartialSuggestionHandler;
+  signal?: AbortSignal;
+  // Who spoke the transcription; defaults to the user
+  speaker?: Speaker;
+  // Diarized speaker id, when the channel carries several voices
+  speakerId?: string;
+  // Language the transcription was detected in; suggestions follow it
+  language?: string | null;
+}
+
+export interface IdentifySpeakerOptions {
+  // Cluster the segment into session speakers (single mixed channel only)
+  diarize?: boolean;
+}
+
+export interface SpeakerIdentity {
+  speakerId: string | null;
+  // Whether the voice matches the enrolled profile; null without a usable profile
+  isUser: boolean | null;
+}
+
+const MAX_SUGGESTION_WORDS = 12;
+
 export class AIConsulEngine {
   private config: EngineConfig;
   private localWhisper: LocalWhisper;
@@ -71,32 +157,23 @@ export class AIConsulEngine {
   private promptBuilder: PromptBuilder;
   private outputValidator: OutputValidator;
   private currentSession: SessionConfig | null = null;
+  private conversationLanguage: string | null = null;
+  private vocabulary: string[] = [];
   private isInitialized = false;
   private initializationPromise: Promise<void> | null = null;
   private vadProcessor: VADProcessor | null = null;
+  // Only loaded for voice commands when the VAD does not spot keywords itself
+  private keywordSpotter: KeywordSpotter | null = null;
+  private speakerEmbedder = new SpeakerEmbedder();
+  private speakerClusterer = new SpeakerClusterer();
+  private voiceProfile: VoiceProfile | null = null;
 
   constructor(config: EngineConfig) {
     this.config = config;
     this.localWhisper = new LocalWhisper();
+    setLocalFilesOnly(!!config.privacy.strictOffline);
 
-    const wantsCloudTranscription =
-      config.models.transcription.primary === 'cloud-whisper' ||
-      config.models.transcription.fallback === 'cloud-whisper';
-    const allowCloudFallback = config.privacy.cloudFallback || wantsCloudTranscription;
-
-    if (allowCloudFallback) {
-      try {
-        this.cloudWhisper = new CloudWhisper();
-      } catch (error) {
-        console.warn(
-          'Cloud Whisper initialization skipped:',
-          error instanceof Error ? error.message : error
-        );
-        this.cloudWhisper = null;
-      }
-    } else {
-      this.cloudWhisper = null;
-    }
+    this.cloudWhisper = this.createCloudWhisper(config);
     this.llmRouter = new LLMRouter(config);
     this.contextManager = new ContextManager({
       maxTokens: 4000,
@@ -131,12 +208,7 @@ export class AIConsulEngine {
         if (
           this.config.models.transcription.primary.startsWith('local-whisper')
         ) {
-          let modelSize: 'tiny' | 'base' | 'small' = 'tiny';
-          if (this.config.models.transcription.primary.includes('small')) {
-            modelSize = 'small';
-          } else if (this.config.models.transcription.primary.includes('base')) {
-            modelSize = 'base';
-          }
+          const modelSize = this.getWhisperModelSize();
           console.log(`Initializing Whisper model (model size: ${modelSize})...`);
           await this.localWhisper.initialize(modelSize);
           console.log('Whisper model initialized');
@@ -144,10 +216,11 @@ export class AIConsulEngine {
 
         if (!this.vadProcessor) {
           console.log('[engine] Initializing VAD...');
-          this.vadProcessor = new VADProcessor();
+          this.vadProcessor = new VADProcessor(this.config.vad);
           await this.vadProcessor.isReady();
-          console.log('[engine] VAD initialized');
+          console.log(`[engine] VAD initialized (${this.vadProcessor.getBackendName()})`);
         }
+        await this.ensureKeywordSpotter();
 
         this.isInitialized = true;
         console.log('Engine initialization complete');
@@ -162,51 +235,314 @@ export class AIConsulEngine {
     return this.initializationPromise;
   }
 
+  /**
+   * Applies a new EngineConfig without restarting the app. Cloud clients and
+   * the LLM router are rebuilt; the local Whisper model and the VAD are only
+   * reloaded when their settings changed and they were already loaded.
+   */
+  async updateConfig(config: EngineConfig): Promise<void> {
+    const previous = this.config;
+    this.config = config;
+    setLocalFilesOnly(!!config.privacy.strictOffline);
+
+    this.cloudWhisper = this.createCloudWhisper(config);
+    this.llmRouter = new LLMRouter(config);
+    this.secureDataFlow = new SecureDataFlow(config.privacy);
+    this.refreshVocabulary();
+
+    const transcriptionChanged =
+      previous.models.transcription.primary !== config.models.transcription.primary;
+
+    if (
+      transcriptionChanged &&
+      this.isInitialized &&
+      config.models.transcription.primary.startsWith('local-whisper')
+    ) {
+      const modelSize = this.getWhisperModelSize();
+      console.log(`[engine] Reloading Whisper model (model size: ${modelSize})...`);
+      await this.localWhisper.initialize(modelSize);
+    }
+
+    const vadChanged =
+      previous.vad?.backend !== config.vad?.backend ||
+      previous.vad?.model !== config.vad?.model ||
+      previous.vad?.thresholds?.speechConfidenceThreshold !==
+        config.vad?.thresholds?.speechConfidenceThreshold;
+    if (vadChanged && this.vadProcessor) {
+      console.log(`[engine] Switching VAD backend to ${config.vad?.backend ?? 'energy'}...`);
+      const vadProcessor = new VADProcessor(config.vad);
+      await vadProcessor.isReady();
+      this.vadProcessor = vadProcessor;
+    } else {
+      this.vadProcessor?.setThresholds(config.vad?.thresholds ?? {});
+    }
+    if (this.isInitialized) {
+      await this.ensureKeywordSpotter();
+    }
+
+    console.log('[engine] Configuration updated');
+  }
+
+  getConfig(): EngineConfig {
+    return this.config;
+  }
+
+  private getWhisperModelSize(): 'tiny' | 'base' | 'small' {
+    const primary = this.config.models.transcription.primary;
+    if (primary.includes('small')) {
+      return 'small';
+    }
+    if (primary.includes('base')) {
+      return 'base';
+    }
+    return 'tiny';
+  }
+
+  private createCloudWhisper(config: EngineConfig): CloudWhisper | null {
+    const wantsCloudTranscription =
+      config.models.transcription.primary === 'cloud-whisper' ||
+      config.models.transcription.fallback === 'cloud-whisper';
+    const allowCloudFallback = config.privacy.cloudFallback || wantsCloudTranscription;
+
+    if (!allowCloudFallback || config.privacy.strictOffline) {
+      return null;
+    }
+
+    try {
+      return new CloudWhisper();
+    } catch (error) {
+      console.warn(
+        'Cloud Whisper initialization skipped:',
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
   public getVADProcessor(): VADProcessor | null {
     return this.vadProcessor;
   }
 
-  async transcribe(audioChunk: Float32Array<ArrayBufferLike>, sampleRate: number = 16000): Promise<string> {
+  public getKeywordSpotter(): KeywordSpotter | null {
+    return this.keywordSpotter;
+  }
+
+  /**
+   * Loads the speech-commands model when voice commands are on and the VAD
+   * backend does not already report keywords. A failure only disables voice
+   * commands.
+   */
+  private async ensureKeywordSpotter(): Promise<void> {
+    const needed =
+      !!this.config.voiceCommands?.enabled && !this.vadProcessor?.spotsKeywords();
+    if (!needed || this.keywordSpotter) {
+      return;
+    }
+
+    const spotter = new KeywordSpotter();
+    try {
+      console.log('[engine] Loading keyword spotter for voice commands...');
+      await spotter.initialize();
+      this.keywordSpotter = spotter;
+    } catch (error) {
+      console.warn(
+        '[engine] Voice commands unavailable:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Embeds a speech segment once and uses it to cluster the segment into a
+   * session speaker ("Speaker 1", "Speaker 2", ...) and to compare it with the
+   * enrolled voice print. Either part is null when it is disabled or the
+   * embedding model is unavailable, so transcription never depends on it.
+   */
+  async identifySpeaker(
+    audio: Float32Array,
+    options: IdentifySpeakerOptions = {}
+  ): Promise<SpeakerIdentity> {
+    const identity: SpeakerIdentity = { speakerId: null, isUser: null };
+    const diarization = this.config.diarization;
+    const diarize = !!options.diarize && !!diarization?.enabled;
+    const profile = this.getUsableVoiceProfile();
+
+    if (!diarize && !profile) {
+      return identity;
+    }
+
+    try {
+      await this.speakerEmbedder.initialize(this.getSpeakerEmbeddingModel());
+      const embedding = await this.speakerEmbedder.embed(audio);
+
+      if (diarize) {
+        identity.speakerId = this.speakerClusterer.assign(embedding);
+      }
+      if (profile) {
+        identity.isUser = matchesVoiceProfile(
+          embedding,
+          profile,
+          diarization?.voiceMatchThreshold
+        );
+      }
+    } catch (error) {
+      console.warn('[engine] Speaker identification failed:', error);
+    }
+
+    return identity;
+  }
+
+  /**
+   * Builds a voice print from a few seconds of the user speaking. The caller
+   * is responsible for storing it and handing it back via setVoiceProfile.
+   */
+  async createVoiceProfile(audio: Float32Array, sampleRate: number): Promise<VoiceProfile> {
+    if (sampleRate !== 16000) {
+      throw new Error(`Voice enrollment expects 16 kHz audio, received ${sampleRate} Hz`);
+    }
+
+    const model = this.getSpeakerEmbeddingModel();
+    await this.speakerEmbedder.initialize(model);
+
+    const embeddings: number[][] = [];
+    for (const window of splitEnrollmentAudio(audio, sampleRate)) {
+      embeddings.push(await this.speakerEmbedder.embed(window));
+    }
+
+    return {
+      embedding: averageEmbeddings(embeddings),
+      model,
+      createdAt: Date.now(),
+    };
+  }
+
+  setVoiceProfile(profile: VoiceProfile | null): void {
+    this.voiceProfile = profile;
+    if (profile && profile.model !== this.getSpeakerEmbeddingModel()) {
+      console.warn('[engine] Voice profile was enrolled with a different model and will be ignored');
+    }
+  }
+
+  private getSpeakerEmbeddingModel(): string {
+    return this.config.diarization?.model ?? DEFAULT_SPEAKER_EMBEDDING_MODEL;
+  }
+
+  // Embeddings from different models are not comparable
+  private getUsableVoiceProfile(): VoiceProfile | null {
+    const profile = this.voiceProfile;
+    return profile && profile.model === this.getSpeakerEmbeddingModel() ? profile : null;
+  }
+
+  renameSpeaker(speakerId: string, label: string): void {
+    this.contextManager.setSpeakerLabel(speakerId, label);
+  }
+
+  getSpeakerLabel(speakerId: string): string {
+    return this.contextManager.getSpeakerLabel(speakerId);
+  }
+
+  /**
+   * Transcribes a segment. Local Whisper also reports word timings and
+   * confidence; cloud transcription only returns text, so those are null.
+   */
+  async transcribe(
+    audioChunk: Float32Array<ArrayBufferLike>,
+    sampleRate: number = 16000
+  ): Promise<TranscriptionResult> {
+    const language = getForcedLanguage(this.currentSession?.language);
+    const textOnly = (text: string): TranscriptionResult => ({
+      text,
+      words: null,
+      confidence: null,
+      language: null,
+    });
+    const fromCloud = (result: CloudTranscription): TranscriptionResult => ({
+      ...textOnly(result.text),
+      language: language ?? toLanguageCode(result.language, SUPPORTED_LANGUAGES),
+    });
+
     try {
       // Try primary transcription method
       if (
         this.config.models.transcription.primary.startsWith('local-whisper')
       ) {
         try {
-          const transcript = await this.localWhisper.transcribe(audioChunk, sampleRate);
-          if (transcript && transcript.trim().length > 0) {
-            return transcript;
+          const result = await this.localWhisper.transcribe(audioChunk, sampleRate, {
+            language,
+            vocabulary: this.vocabulary,
+          });
+          if (result.text && result.text.trim().length > 0) {
+            return result;
           }
-          return '';
+          return textOnly('');
         } catch (error) {
           console.warn('Local Whisper transcription failed, attempting fallback if available.', error);
         }
       } else if (
         this.config.models.transcription.primary === 'cloud-whisper'
       ) {
+        if (this.config.privacy.strictOffline) {
+          throw new Error('Cloud transcription is blocked by strict offline mode');
+        }
         if (!this.cloudWhisper) {
           throw new Error('Cloud transcription is unavailable: missing API key');
         }
-        return await this.cloudWhisper.transcribe(audioChunk);
+        return fromCloud(await this.cloudWhisper.transcribe(audioChunk, sampleRate, language, this.vocabulary));
       }
 
       // Fallback to cloud if enabled
       if (
         this.config.models.transcription.fallback === 'cloud-whisper' &&
-        this.config.privacy.cloudFallback &&
+        allowsCloudServices(this.config.privacy) &&
         this.cloudWhisper
       ) {
-        return await this.cloudWhisper.transcribe(audioChunk);
+        return fromCloud(await this.cloudWhisper.transcribe(audioChunk, sampleRate, language, this.vocabulary));
       }
 
-      return '';
+      return textOnly('');
     } catch (error) {
       console.error('Transcription error:', error);
       throw error;
     }
   }
 
-  async generateSuggestions(transcription: string): Promise<Suggestion[]> {
+  /**
+   * Decodes an unfinished segment for an interim transcript. Only local
+   * Whisper is used so partial decodes never cost cloud requests; failures
+   * yield an empty string because the final transcript follows anyway.
+   */
+  async transcribePartial(
+    audioChunk: Float32Array<ArrayBufferLike>,
+    sampleRate: number = 16000
+  ): Promise<string> {
+    if (!this.config.models.transcription.primary.startsWith('local-whisper')) {
+      return '';
+    }
+
+    try {
+      const result = await this.localWhisper.transcribe(audioChunk, sampleRate, {
+        wordTimestamps: false,
+        language: getForcedLanguage(this.currentSession?.language),
+        vocabulary: this.vocabulary,
+      });
+      return result.text;
+    } catch (error) {
+      console.warn('[engine] Partial transcription failed:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Generates suggestions for the latest transcript. When onPartial is given the
+   * LLM response is streamed and partial suggestions are reported as they are
+   * parsed; the returned list is always the fully validated result. Aborting
+   * the signal rejects with GenerationCancelledError.
+   */
+  async generateSuggestions(
+    transcription: string,
+    options: GenerateSuggestionsOptions = {}
+  ): Promise<Suggestion[]> {
+    const { onPartial, signal, speaker = 'user', speakerId, language } = options;
     const session = this.currentSession;
 
     if (!session) {
@@ -216,23 +552,54 @@ export class AIConsulEngine {
 
     // Add to context
     this.contextManager.addExchange({
-      speaker: 'user',
+      speaker,
+      speakerId,
       text: transcription,
       timestamp: Date.now(),
     });
 
+    // With auto-detection the conversation language is whatever was spoken last
+    if (language) {
+      this.conversationLanguage = language;
+    }
+
     // Build prompt with mode awareness
     const prompt = this.promptBuilder.buildPrompt(
       session.mode as any, // Type assertion for mode compatibility
       this.contextManager.getContext(),
-      this.ragEngine.getRelevantContext(transcription)
+      this.ragEngine.getRelevantContext(transcription),
+      undefined,
+      speaker,
+      this.conversationLanguage ?? undefined
     );
 
     // Generate via LLM router
-    const llmResponse = await this.llmRouter.generate(
-      prompt.userPrompt,
-      prompt.systemPrompt
-    );
+    let llmResponse: string;
+    if (onPartial) {
+      const parser = new SuggestionStreamParser();
+      llmResponse = await this.llmRouter.generateStream(
+        prompt.userPrompt,
+        (chunk) => {
+          const partial = parser.push(chunk);
+          if (partial) {
+            onPartial(
+              partial.suggestions.slice(0, 3).map((text) => ({
+                text: text.split(/\s+/).slice(0, MAX_SUGGESTION_WORDS).join(' '),
+                useCase: partial.useCase,
+              }))
+            );
+          }
+        },
+        prompt.systemPrompt,
+        signal
+      );
+    } else {
+      llmResponse = await this.llmRouter.generate(
+        prompt.userPrompt,
+        prompt.systemPrompt,
+        signal
+      );
+    }
 
     // Validate output
     const validated = this.outputValidator.validate(
@@ -248,18 +615,33 @@ export class AIConsulEngine {
 
   async startSession(config: SessionConfig): Promise<void> {
     this.currentSession = config;
+    this.conversationLanguage = getForcedLanguage(config.language);
 
     if (this.vadProcessor) {
       this.vadProcessor.resetState();
     }
 
+    // Speaker ids restart with every session; participants name them in order
+    this.speakerClusterer.configure({
+      similarityThreshold: this.config.diarization?.similarityThreshold,
+      maxSpeakers: this.config.diarization?.maxSpeakers,
+    });
+    this.speakerClusterer.reset();
+    this.contextManager.clearSpeakerLabels();
+    config.context?.participants?.forEach((participant, index) => {
+      this.contextManager.setSpeakerLabel(`Speaker ${index + 1}`, participant);
+    });
+
     if (config.context?.documents) {
       await this.ragEngine.loadDocuments(config.context.documents);
     }
+    this.refreshVocabulary();
   }
 
   stopSession(): void {
     this.currentSession = null;
+    this.conversationLanguage = null;
+    this.vocabulary = [];
     if (this.vadProcessor) {
       this.vadProcessor.resetState();
     }
@@ -270,5 +652,26 @@ export class AIConsulEngine {
   getCurrentSession(): SessionConfig | null {
     return this.currentSession;
   }
+
+  /**
+   * Terms transcription is biased toward during the current session.
+   */
+  getVocabulary(): string[] {
+    return [...this.vocabulary];
+  }
+
+  private refreshVocabulary(): void {
+    if (!this.currentSession) {
+      this.vocabulary = [];
+      return;
+    }
+
+    this.vocabulary = buildVocabulary({
+      customTerms: this.config.vocabulary?.customTerms,
+      participants: this.currentSession.context?.participants,
+      skills: this.currentSession.context?.skills,
+      documents: this.ragEngine.getDocumentTexts(),
+    });
+  }
 }
 
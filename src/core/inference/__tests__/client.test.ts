@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InferenceWorkerClient } from '../client';
+
+// A stand-in for the compiled worker: echoes the sample count, or the offline
+// flag the 'offline' model was loaded with, and exits the thread when asked to
+// run the 'crash' model.
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads');
+const strictOffline = new Map();
+parentPort.on('message', (request) => {
+  if (request.type === 'load') {
+    strictOffline.set(request.model, request.strictOffline);
+  }
+  if (request.type === 'run' && request.model === 'offline') {
+    parentPort.postMessage({ id: request.id, ok: true, result: strictOffline.get('offline') });
+    return;
+  }
+  if (request.type === 'run' && request.model === 'crash') {
+    process.exit(1);
+  }
+  if (request.type === 'run' && request.model === 'fail') {
+    parentPort.postMessage({ id: request.id, ok: false, error: 'model failed' });
+    return;
+  }
+  const result = request.type === 'run' ? { samples: request.audio.length } : undefined;
+  parentPort.postMessage({ id: request.id, ok: true, result });
+});
+`;
+
+describe('InferenceWorkerClient', () => {
+  let tempDir: string;
+  let scriptPath: string;
+  let client: InferenceWorkerClient;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'inference-worker-'));
+    scriptPath = path.join(tempDir, 'worker.js');
+    fs.writeFileSync(scriptPath, WORKER_SOURCE);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await client?.terminate();
+  });
+
+  it('runs requests on the worker without detaching the caller buffer', async () => {
+    client = new InferenceWorkerClient(scriptPath);
+    await client.load('audio-classification', 'echo');
+
+    const audio = new Float32Array([0.1, 0.2, 0.3]);
+    const result = await client.run('audio-classification', 'echo', audio);
+
+    expect(result).toEqual({ samples: 3 });
+    expect(audio.length).toBe(3);
+  });
+
+  it('rejects with the worker error message', async () => {
+    client = new InferenceWorkerClient(scriptPath);
+
+    await expect(
+      client.run('audio-classification', 'fail', new Float32Array([0.1]))
+    ).rejects.toThrow('model failed');
+  });
+
+  it('restarts the worker after a crash', async () => {
+    client = new InferenceWorkerClient(scriptPath);
+    await client.load('audio-classification', 'echo');
+
+    const restarted = new Promise<void>((resolve) => client.once('restart', resolve));
+    await expect(
+      client.run('audio-classification', 'crash', new Float32Array([0.1]))
+    ).rejects.toThrow('exited with code 1');
+    await restarted;
+
+    const result = await client.run('audio-classification', 'echo', new Float32Array(2));
+    expect(result).toEqual({ samples: 2 });
+  });
+
+  it('sends the strict offline flag with loads and reloads', async () => {
+    client = new InferenceWorkerClient(scriptPath);
+    await client.load('audio-classification', 'offline', undefined, true);
+    expect(await client.run('audio-classification', 'offline', new Float32Array(1))).toBe(true);
+
+    const restarted = new Promise<void>((resolve) => client.once('restart', resolve));
+    await expect(client.run('audio-classification', 'crash', new Float32Array(1))).rejects.toThrow();
+    await restarted;
+
+    expect(await client.run('audio-classification', 'offline', new Float32Array(1))).toBe(true);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { applyVocabularyBias } from '../pipelines';
+
+describe('applyVocabularyBias', () => {
+  it('nudges term starts and strongly favours finishing a started term', () => {
+    const logits = new Float32Array(10);
+
+    applyVocabularyBias(logits, [1, 2, 7], [
+      [7, 8, 9],
+      [7, 5],
+    ]);
+
+    expect(logits[7]).toBe(1);
+    expect(logits[8]).toBe(4);
+    expect(logits[5]).toBe(4);
+    expect(logits[9]).toBe(0);
+  });
+
+  it('continues from the longest matching prefix', () => {
+    const logits = new Float32Array(10);
+
+    applyVocabularyBias(logits, [3, 7, 8], [[7, 8, 9]]);
+
+    expect(logits[9]).toBe(4);
+    expect(logits[8]).toBe(0);
+  });
+});
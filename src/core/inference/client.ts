@@ -0,0 +1,245 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { createInferencePipeline } from './pipelines';
+import { setAllowRemoteModels } from './transformers';
+import {
+  InferenceOptions,
+  InferenceProcessor,
+  InferenceRequest,
+  InferenceResponse,
+  InferenceTask,
+  LoadModelRequest,
+  getModelKey,
+} from './protocol';
+
+export type { InferenceProcessor } from './protocol';
+
+const RESTART_DELAY_MS = 1000;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+type OutgoingRequest =
+  | Omit<LoadModelRequest, 'id'>
+  | { type: 'run'; task: InferenceTask; model: string; audio: Float32Array; options?: InferenceOptions };
+
+/**
+ * Owns the inference worker thread. Requests are matched to responses by id;
+ * if the worker crashes, pending requests are rejected and a new worker is
+ * started with every previously loaded model, so callers only see the
+ * requests that were in flight fail.
+ */
+export class InferenceWorkerClient extends EventEmitter {
+  private readonly scriptPath: string;
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private loadedModels = new Map<string, Omit<LoadModelRequest, 'id'>>();
+  private restartTimer: NodeJS.Timeout | null = null;
+  private terminated = false;
+
+  constructor(scriptPath: string) {
+    super();
+    this.scriptPath = scriptPath;
+  }
+
+  async load(task: InferenceTask, model: string, options?: InferenceOptions, strictOffline = false): Promise<void> {
+    const request: Omit<LoadModelRequest, 'id'> = { type: 'load', task, model, options, strictOffline };
+    await this.send(request);
+    this.loadedModels.set(getModelKey(task, model), request);
+  }
+
+  /**
+   * Runs a loaded model on the worker. The samples are copied into a fresh
+   * buffer that is transferred rather than cloned, so the caller keeps
+   * ownership of its own array.
+   */
+  async run(
+    task: InferenceTask,
+    model: string,
+    audio: Float32Array,
+    options?: InferenceOptions
+  ): Promise<unknown> {
+    return this.send({ type: 'run', task, model, audio: new Float32Array(audio), options });
+  }
+
+  async terminate(): Promise<void> {
+    this.terminated = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const worker = this.worker;
+    this.worker = null;
+    this.rejectPending(new Error('Inference worker terminated'));
+    if (worker) {
+      await worker.terminate();
+    }
+  }
+
+  private send(request: OutgoingRequest): Promise<unknown> {
+    if (this.terminated) {
+      return Promise.reject(new Error('Inference worker terminated'));
+    }
+
+    const worker = this.ensureWorker();
+    const id = this.nextId++;
+    const message = { ...request, id } as InferenceRequest;
+    const transfer = message.type === 'run' ? [message.audio.buffer as ArrayBuffer] : [];
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage(message, transfer);
+    });
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const worker = new Worker(this.scriptPath);
+    worker.on('message', (response: InferenceResponse) => this.handleResponse(response));
+    worker.on('error', (error) => this.handleCrash(worker, error));
+    worker.on('exit', (code) => {
+      if (code !== 0) {
+        this.handleCrash(worker, new Error(`Inference worker exited with code ${code}`));
+      } else if (this.worker === worker) {
+        this.worker = null;
+      }
+    });
+    this.worker = worker;
+
+    // Restore models from before a crash; messages are ordered, so these
+    // loads complete before any queued run request is handled
+    for (const request of this.loadedModels.values()) {
+      const id = this.nextId++;
+      this.pending.set(id, {
+        resolve: () => {},
+        reject: (error) => console.error('[inference] Failed to reload model:', error),
+      });
+      worker.postMessage({ ...request, id });
+    }
+
+    return worker;
+  }
+
+  private handleResponse(response: InferenceResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.ok) {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.error));
+    }
+  }
+
+  private handleCrash(worker: Worker, error: Error): void {
+    if (this.worker !== worker) {
+      return;
+    }
+
+    console.error('[inference] Worker crashed:', error);
+    this.worker = null;
+    this.rejectPending(error);
+    this.emit('crash', error);
+
+    if (this.terminated || this.loadedModels.size === 0) {
+      return;
+    }
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (!this.terminated && !this.worker) {
+        console.log('[inference] Restarting worker');
+        this.ensureWorker();
+        this.emit('restart');
+      }
+    }, RESTART_DELAY_MS);
+    this.restartTimer.unref?.();
+  }
+
+  private rejectPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = new Map();
+    pending.forEach((request) => request.reject(error));
+  }
+}
+
+let sharedClient: InferenceWorkerClient | null = null;
+let localFilesOnly = false;
+
+function getWorkerScriptPath(): string {
+  return path.join(__dirname, 'worker.js');
+}
+
+/**
+ * Returns the shared worker client, or null when the compiled worker script
+ * is not available (e.g. when running from TypeScript sources in tests).
+ */
+export function getInferenceClient(): InferenceWorkerClient | null {
+  if (sharedClient) {
+    return sharedClient;
+  }
+
+  const scriptPath = getWorkerScriptPath();
+  if (!fs.existsSync(scriptPath)) {
+    return null;
+  }
+
+  sharedClient = new InferenceWorkerClient(scriptPath);
+  return sharedClient;
+}
+
+export async function shutdownInferenceClient(): Promise<void> {
+  const client = sharedClient;
+  sharedClient = null;
+  if (client) {
+    await client.terminate();
+  }
+}
+
+/**
+ * In strict offline mode models are only read from the local cache; a model
+ * that is not installed fails to load instead of being downloaded. The flag
+ * goes to the worker with each load and to the in-process transformers env.
+ */
+export function setLocalFilesOnly(enabled: boolean): void {
+  localFilesOnly = enabled;
+  setAllowRemoteModels(!enabled);
+}
+
+/**
+ * Loads a transformers pipeline and returns a processor function for it. The
+ * model runs on the inference worker when available and in-process otherwise.
+ */
+export async function loadInferencePipeline(
+  task: InferenceTask,
+  model: string,
+  loadOptions?: InferenceOptions
+): Promise<InferenceProcessor> {
+  const client = getInferenceClient();
+  const options = localFilesOnly ? { ...loadOptions, local_files_only: true } : loadOptions;
+
+  if (client) {
+    await client.load(task, model, options, localFilesOnly);
+    return (audio, runOptions) => client.run(task, model, audio, runOptions);
+  }
+
+  console.warn('[inference] Worker script not found, running inference in-process');
+  return createInferencePipeline(task, model, options);
+}
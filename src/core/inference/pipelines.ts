@@ -0,0 +1,278 @@
+import { AsrPipeline, WhisperTokenizer, loadTransformers } from './transformers';
+import { InferenceOptions, InferenceProcessor, InferenceTask } from './protocol';
+
+// Probability the decoder gave one text token of a transcript
+export interface TokenConfidence {
+  text: string;
+  probability: number;
+}
+
+// Output of the 'automatic-speech-recognition' task; `chunks` only with word timestamps
+export interface SpeechRecognitionResult {
+  text: string;
+  chunks?: Array<{ text: string; timestamp: [number, number | null] }>;
+  token_confidences: TokenConfidence[] | null;
+  detected_language: string | null;
+}
+
+// Output of the 'voice-activity' task for one chunk
+export interface VoiceActivityResult {
+  // Highest speech probability over the chunk's windows
+  probability: number;
+  // Recurrent state and trailing samples to pass back with the next chunk
+  state: number[];
+  context: number[];
+}
+
+/**
+ * Builds a processor for the given task. Audio pipelines come straight from
+ * transformers.js; speaker embeddings use an x-vector model and resolve to a
+ * plain number array so the result can cross the worker boundary.
+ */
+export async function createInferencePipeline(
+  task: InferenceTask,
+  model: string,
+  options?: InferenceOptions
+): Promise<InferenceProcessor> {
+  const { pipeline, AutoProcessor, AutoModelForXVector } = await loadTransformers();
+
+  if (task === 'automatic-speech-recognition') {
+    return withTokenConfidences(await pipeline(task, model, options));
+  }
+
+  if (task === 'voice-activity') {
+    return createVoiceActivityPipeline(model, options);
+  }
+
+  if (task !== 'speaker-embedding') {
+    return pipeline(task, model, options);
+  }
+
+  const processor = await AutoProcessor.from_pretrained(model, options);
+  const xvector = await AutoModelForXVector.from_pretrained(model, options);
+
+  return async (audio: Float32Array) => {
+    const inputs = await processor(audio);
+    const { embeddings } = await xvector(inputs);
+    return Array.from(embeddings.data);
+  };
+}
+
+// Silero VAD v5 scores 512-sample windows at 16 kHz, each preceded by the
+// last 64 samples of the previous window
+const VAD_SAMPLE_RATE = 16000;
+const VAD_WINDOW_SAMPLES = 512;
+const VAD_CONTEXT_SAMPLES = 64;
+const VAD_STATE_SIZE = 2 * 1 * 128;
+
+/**
+ * Loads a Silero-style VAD graph. It has no transformers.js model class, so
+ * the bare ONNX session is driven directly. The processor is stateless: the
+ * caller passes back `state` and `context` from the previous chunk of the
+ * same stream.
+ */
+async function createVoiceActivityPipeline(
+  model: string,
+  options?: InferenceOptions
+): Promise<InferenceProcessor> {
+  const { PreTrainedModel, Tensor } = await loadTransformers();
+  const vad = await PreTrainedModel.from_pretrained(model, {
+    ...options,
+    config: { model_type: 'silero_vad' },
+  });
+
+  return async (audio: Float32Array, runOptions?: InferenceOptions): Promise<VoiceActivityResult> => {
+    const previousState = runOptions?.state as number[] | undefined;
+    const previousContext = runOptions?.context as number[] | undefined;
+
+    let state = new Float32Array(VAD_STATE_SIZE);
+    if (previousState?.length === VAD_STATE_SIZE) {
+      state.set(previousState);
+    }
+    let context = new Float32Array(VAD_CONTEXT_SAMPLES);
+    if (previousContext?.length === VAD_CONTEXT_SAMPLES) {
+      context.set(previousContext);
+    }
+
+    const sr = new Tensor('int64', BigInt64Array.from([BigInt(VAD_SAMPLE_RATE)]), []);
+    let probability = 0;
+
+    for (let offset = 0; offset < audio.length; offset += VAD_WINDOW_SAMPLES) {
+      // The last window is zero-padded to full length
+      const input = new Float32Array(VAD_CONTEXT_SAMPLES + VAD_WINDOW_SAMPLES);
+      input.set(context);
+      input.set(audio.subarray(offset, offset + VAD_WINDOW_SAMPLES), VAD_CONTEXT_SAMPLES);
+
+      const outputs = await vad({
+        input: new Tensor('float32', input, [1, input.length]),
+        sr,
+        state: new Tensor('float32', state, [2, 1, 128]),
+      });
+
+      probability = Math.max(probability, outputs.output.data[0]);
+      state = new Float32Array(outputs.stateN.data);
+      context = input.slice(input.length - VAD_CONTEXT_SAMPLES);
+    }
+
+    return { probability, state: Array.from(state), context: Array.from(context) };
+  };
+}
+
+function logSoftmaxAt(logits: Float32Array, index: number): number {
+  let max = -Infinity;
+  for (let i = 0; i < logits.length; i++) {
+    if (logits[i] > max) {
+      max = logits[i];
+    }
+  }
+
+  let sum = 0;
+  for (let i = 0; i < logits.length; i++) {
+    sum += Math.exp(logits[i] - max);
+  }
+  return logits[index] - max - Math.log(sum);
+}
+
+// Whisper language tokens look like <|fr|>; <|haw|> and <|yue|> are the longest
+const LANGUAGE_TOKEN = /^<\|([a-z]{2,3})\|>$/;
+
+// Logit boosts for `vocabulary` terms: a nudge toward starting a term and a
+// stronger one toward finishing it once its first tokens were chosen
+const TERM_START_BIAS = 1;
+const TERM_CONTINUATION_BIAS = 4;
+
+/**
+ * Tokenizes each term as Whisper would write it mid-sentence and at the
+ * start of a transcript.
+ */
+function tokenizeVocabulary(tokenizer: WhisperTokenizer, terms: string[]): number[][] {
+  const sequences: number[][] = [];
+  for (const term of terms) {
+    for (const variant of [` ${term}`, term]) {
+      const ids = tokenizer.encode(variant, null, { add_special_tokens: false });
+      if (ids.length > 0) {
+        sequences.push(ids);
+      }
+    }
+  }
+  return sequences;
+}
+
+/**
+ * Boosts the tokens that would start a vocabulary term, or continue one that
+ * the output already ends with.
+ */
+export function applyVocabularyBias(
+  logits: Float32Array,
+  outputTokens: number[],
+  sequences: number[][]
+): void {
+  // Terms can share tokens, so each token gets the largest applicable boost once
+  const boosts = new Map<number, number>();
+  const boost = (token: number, bias: number) => {
+    boosts.set(token, Math.max(boosts.get(token) ?? 0, bias));
+  };
+
+  for (const sequence of sequences) {
+    boost(sequence[0], TERM_START_BIAS);
+
+    for (let matched = Math.min(sequence.length - 1, outputTokens.length); matched > 0; matched--) {
+      const tail = outputTokens.slice(outputTokens.length - matched);
+      if (tail.every((token, index) => token === sequence[index])) {
+        boost(sequence[matched], TERM_CONTINUATION_BIAS);
+        break;
+      }
+    }
+  }
+
+  boosts.forEach((bias, token) => {
+    logits[token] += bias;
+  });
+}
+
+/**
+ * Adds `token_confidences` and `detected_language` to Whisper results and
+ * applies the optional `vocabulary` bias. The pipeline only reports text, so
+ * the model's decoding step is hooked for the duration of a call to read
+ * each token it picks and its probability; the language token is the first
+ * one Whisper generates when none is forced. Calls are serialised so the
+ * hooks of concurrent requests never interleave; beam search is left alone.
+ */
+function withTokenConfidences(asr: AsrPipeline): InferenceProcessor {
+  let queue: Promise<unknown> = Promise.resolve();
+  let vocabularyKey = '';
+  let vocabularySequences: number[][] = [];
+
+  return (audio, options) => {
+    const { vocabulary, ...asrOptions } = options ?? {};
+    const terms = Array.isArray(vocabulary) ? (vocabulary as string[]) : [];
+    if (terms.join('\n') !== vocabularyKey) {
+      vocabularyKey = terms.join('\n');
+      vocabularySequences = tokenizeVocabulary(asr.tokenizer, terms);
+    }
+
+    const sequences = vocabularySequences;
+    const run = queue.then(() => decodeWithConfidences(asr, audio, asrOptions, sequences));
+    queue = run.catch(() => undefined);
+    return run;
+  };
+}
+
+async function decodeWithConfidences(
+  asr: AsrPipeline,
+  audio: Float32Array,
+  options: InferenceOptions,
+  vocabulary: number[][]
+): Promise<SpeechRecognitionResult> {
+  const model = asr.model;
+  const tokenizer = asr.tokenizer;
+  const originalRunBeam = model.runBeam;
+  const specialIds = new Set<number>(tokenizer.all_special_ids ?? []);
+  const timestampBegin = tokenizer.model.convert_tokens_to_ids(['<|notimestamps|>'])[0] + 1;
+
+  const steps: Array<{ token: number; logProb: number }> = [];
+  let lastLogits: Float32Array | null = null;
+  let singleBeam = true;
+
+  model.runBeam = async (beam) => {
+    const output = await originalRunBeam.call(model, beam);
+    const [, length, vocabSize] = output.logits.dims;
+    const logits = output.logits.data.subarray((length - 1) * vocabSize, length * vocabSize);
+
+    // Confidences come from the unbiased distribution; the first step picks the language
+    if (vocabulary.length > 0 && beam.output_token_ids.length > 1) {
+      lastLogits = logits.slice();
+      applyVocabularyBias(logits, beam.output_token_ids, vocabulary);
+    } else {
+      lastLogits = logits;
+    }
+    return output;
+  };
+
+  const callback_function = (beams: Array<{ output_token_ids: number[] }>) => {
+    singleBeam = singleBeam && beams.length === 1;
+    const tokens = beams[0]?.output_token_ids;
+    if (lastLogits && tokens) {
+      const token = tokens[tokens.length - 1];
+      steps.push({ token, logProb: logSoftmaxAt(lastLogits, token) });
+    }
+    lastLogits = null;
+  };
+
+  try {
+    const result = await asr(audio, { ...options, callback_function });
+    const languageStep = steps.find(({ token }) => specialIds.has(token));
+    const languageMatch = languageStep ? LANGUAGE_TOKEN.exec(tokenizer.decode([languageStep.token])) : null;
+    const token_confidences: TokenConfidence[] | null = singleBeam
+      ? steps
+          .filter(({ token }) => !specialIds.has(token) && token < timestampBegin)
+          .map(({ token, logProb }) => ({
+            text: tokenizer.decode([token]),
+            probability: Math.exp(logProb),
+          }))
+      : null;
+    return { ...result, token_confidences, detected_language: languageMatch?.[1] ?? null };
+  } finally {
+    model.runBeam = originalRunBeam;
+  }
+}
@@ -0,0 +1,40 @@
+// 'speaker-embedding' and 'voice-activity' are not transformers.js pipelines;
+// see createInferencePipeline
+export type InferenceTask =
+  | 'automatic-speech-recognition'
+  | 'audio-classification'
+  | 'speaker-embedding'
+  | 'voice-activity';
+
+export type InferenceOptions = Record<string, unknown>;
+
+export type InferenceProcessor = (audio: Float32Array, options?: InferenceOptions) => Promise<unknown>;
+
+export interface LoadModelRequest {
+  type: 'load';
+  id: number;
+  task: InferenceTask;
+  model: string;
+  options?: InferenceOptions;
+  // Applied to the worker's transformers env before the model loads
+  strictOffline?: boolean;
+}
+
+export interface RunModelRequest {
+  type: 'run';
+  id: number;
+  task: InferenceTask;
+  model: string;
+  audio: Float32Array;
+  options?: InferenceOptions;
+}
+
+export type InferenceRequest = LoadModelRequest | RunModelRequest;
+
+export type InferenceResponse =
+  | { id: number; ok: true; result?: unknown }
+  | { id: number; ok: false; error: string };
+
+export function getModelKey(task: InferenceTask, model: string): string {
+  return `${task}:${model}`;
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import { getModelCacheDir } from '../models/cache';
+
+// The parts of @xenova/transformers this code uses. The package is loaded
+// with a dynamic import, so its own typings never reach the compiler.
+export interface TensorLike {
+  data: Float32Array;
+  dims: number[];
+}
+
+type TensorConstructor = new (
+  type: 'float32' | 'int64',
+  data: Float32Array | BigInt64Array,
+  dims: number[]
+) => TensorLike;
+
+export interface WhisperTokenizer {
+  encode(text: string, pair: null, options: { add_special_tokens: boolean }): number[];
+  decode(ids: number[]): string;
+  all_special_ids?: number[];
+  model: {
+    convert_tokens_to_ids(tokens: string[]): number[];
+  };
+}
+
+export interface Beam {
+  output_token_ids: number[];
+}
+
+// Whisper decoder; runBeam is the single decoding step that gets hooked
+export interface WhisperModel {
+  runBeam(beam: Beam): Promise<{ logits: TensorLike }>;
+}
+
+export interface AsrPipeline {
+  (audio: Float32Array, options?: Record<string, unknown>): Promise<{
+    text: string;
+    chunks?: Array<{ text: string; timestamp: [number, number | null] }>;
+  }>;
+  model: WhisperModel;
+  tokenizer: WhisperTokenizer;
+}
+
+type AudioPipeline = (audio: Float32Array, options?: Record<string, unknown>) => Promise<unknown>;
+
+interface PipelineFactory {
+  (task: 'automatic-speech-recognition', model: string, options?: Record<string, unknown>): Promise<AsrPipeline>;
+  (task: string, model: string, options?: Record<string, unknown>): Promise<AudioPipeline>;
+}
+
+interface Pretrained<T> {
+  from_pretrained(model: string, options?: Record<string, unknown>): Promise<T>;
+}
+
+type FeatureExtractor = (audio: Float32Array) => Promise<Record<string, TensorLike>>;
+type XVectorModel = (inputs: Record<string, TensorLike>) => Promise<{ embeddings: TensorLike }>;
+// A bare ONNX session: named input tensors in, named output tensors out
+type OnnxModel = (inputs: Record<string, TensorLike>) => Promise<Record<string, TensorLike>>;
+
+interface TransformersEnv {
+  allowRemoteModels: boolean;
+  allowLocalModels: boolean;
+  useBrowserCache: boolean;
+  cacheDir: string;
+  localModelPath: string;
+}
+
+interface TransformersModule {
+  pipeline: PipelineFactory;
+  env: TransformersEnv;
+  AutoProcessor: Pretrained<FeatureExtractor>;
+  AutoModelForXVector: Pretrained<XVectorModel>;
+  PreTrainedModel: Pretrained<OnnxModel>;
+  Tensor: TensorConstructor;
+}
+
+// Dynamic import wrapper for @xenova/transformers to keep bundlers happy.
+let transformers: TransformersModule | null = null;
+let env: TransformersEnv | null = null;
+let envConfigured = false;
+let allowRemoteModels = true;
+
+function configureTransformersEnv(): void {
+  if (envConfigured || !env) {
+    return;
+  }
+
+  env.allowRemoteModels = allowRemoteModels;
+  env.allowLocalModels = true;
+  env.useBrowserCache = false;
+
+  const cacheDir = getModelCacheDir();
+
+  try {
+    fs.mkdirSync(cacheDir, { recursive: true });
+  } catch (error) {
+    console.warn('[transformers] Failed to create cache directory:', error);
+  }
+
+  env.cacheDir = cacheDir;
+  env.localModelPath = cacheDir;
+
+  const token =
+    process.env.HF_TOKEN ??
+    process.env.HF_ACCESS_TOKEN ??
+    process.env.HF_API_TOKEN ??
+    process.env.HUGGINGFACE_TOKEN ??
+    process.env.HUGGINGFACEHUB_API_TOKEN ??
+    process.env.HUGGING_FACE_HUB_TOKEN;
+
+  if (token) {
+    if (!process.env.HF_TOKEN) {
+      process.env.HF_TOKEN = token;
+    }
+    if (!process.env.HF_ACCESS_TOKEN) {
+      process.env.HF_ACCESS_TOKEN = token;
+    }
+  }
+
+  envConfigured = true;
+}
+
+/**
+ * Strict offline mode turns this off so transformers.js never fetches a model
+ * or its config files, whatever the options of a single load say.
+ */
+export function setAllowRemoteModels(allowed: boolean): void {
+  allowRemoteModels = allowed;
+  if (env) {
+    env.allowRemoteModels = allowed;
+  }
+}
+
+export async function loadTransformers(): Promise<TransformersModule> {
+  if (!transformers) {
+    // Use Function constructor to force true dynamic import (not transformed by TypeScript)
+    const importTransformers = new Function('specifier', 'return import(specifier)') as (
+      specifier: string
+    ) => Promise<TransformersModule>;
+    transformers = await importTransformers('@xenova/transformers');
+    env = transformers.env;
+    configureTransformersEnv();
+  }
+  return {
+    pipeline: transformers.pipeline,
+    env: transformers.env,
+    AutoProcessor: transformers.AutoProcessor,
+    AutoModelForXVector: transformers.AutoModelForXVector,
+    PreTrainedModel: transformers.PreTrainedModel,
+    Tensor: transformers.Tensor,
+  };
+}
@@ -0,0 +1,66 @@
+import { parentPort } from 'worker_threads';
+import { createInferencePipeline } from './pipelines';
+import { setAllowRemoteModels } from './transformers';
+import {
+  InferenceOptions,
+  InferenceProcessor,
+  InferenceRequest,
+  InferenceResponse,
+  InferenceTask,
+  getModelKey,
+} from './protocol';
+
+// Entry point for the inference worker thread. Pipelines are cached per
+// task/model so Whisper and VAD can share a single worker.
+const pipelines = new Map<string, Promise<InferenceProcessor>>();
+
+function loadPipeline(
+  task: InferenceTask,
+  model: string,
+  options?: InferenceOptions
+): Promise<InferenceProcessor> {
+  const key = getModelKey(task, model);
+  let pending = pipelines.get(key);
+
+  if (!pending) {
+    pending = createInferencePipeline(task, model, options);
+    // Drop failed loads so the next request retries instead of reusing the rejection
+    pending.catch(() => pipelines.delete(key));
+    pipelines.set(key, pending);
+  }
+
+  return pending;
+}
+
+async function handleRequest(request: InferenceRequest): Promise<unknown> {
+  if (request.type === 'load') {
+    setAllowRemoteModels(!request.strictOffline);
+    await loadPipeline(request.task, request.model, request.options);
+    return undefined;
+  }
+
+  // Runs never load: they would skip the load options and the offline flag
+  const pending = pipelines.get(getModelKey(request.task, request.model));
+  if (!pending) {
+    throw new Error(`Model not loaded: ${request.model} (${request.task})`);
+  }
+  const processor = await pending;
+  return processor(request.audio, request.options);
+}
+
+if (parentPort) {
+  const port = parentPort;
+
+  port.on('message', async (request: InferenceRequest) => {
+    let response: InferenceResponse;
+
+    try {
+      const result = await handleRequest(request);
+      response = { id: request.id, ok: true, result };
+    } catch (error) {
+      response = { id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    port.postMessage(response);
+  });
+}
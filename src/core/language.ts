@@ -0,0 +1,55 @@
+// ISO 639-1 code such as 'fr', or 'auto' to let Whisper detect each segment
+export type SessionLanguage = 'auto' | string;
+
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/**
+ * Returns the English name of a language code ('de' -> 'German'), falling
+ * back to the code itself when the runtime does not know it.
+ */
+export function getLanguageName(code: string): string {
+  try {
+    return displayNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Maps a language reported by a transcriber to its ISO 639-1 code. Accepts
+ * codes ('fr'), Whisper tokens ('<|fr|>') and English names ('french'), as the
+ * OpenAI API reports the latter; `candidates` limits which names are matched.
+ */
+export function toLanguageCode(value: string | null | undefined, candidates: string[]): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase().replace(/^<\|(.+)\|>$/, '$1');
+  if (/^[a-z]{2,3}$/.test(normalized)) {
+    return normalized;
+  }
+
+  return candidates.find((code) => getLanguageName(code).toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Normalizes a requested session language to 'auto' or an ISO 639-1 code the
+ * runtime can name; null for anything else ('zz', 'klingon').
+ */
+export function normalizeSessionLanguage(value: string): SessionLanguage | null {
+  if (value.trim().toLowerCase() === AUTO_DETECT_LANGUAGE) {
+    return AUTO_DETECT_LANGUAGE;
+  }
+  const code = toLanguageCode(value, []);
+  return code && getLanguageName(code) !== code ? code : null;
+}
+
+/**
+ * The fixed language to decode with, or null to auto-detect.
+ */
+export function getForcedLanguage(language: SessionLanguage | undefined): string | null {
+  return !language || language === AUTO_DETECT_LANGUAGE ? null : language.toLowerCase();
+}
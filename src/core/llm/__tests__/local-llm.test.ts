@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { LocalLLM } from '../local-llm';
 import axios from 'axios';
+import { PassThrough } from 'stream';
 
 vi.mock('axios');
 const mockedAxios = vi.mocked(axios);
@@ -102,6 +103,24 @@ describe('LocalLLM', () => {
     });
   });
 
+  describe('generateStream', () => {
+    it('emits chunks split across network frames and resolves with the full text', async () => {
+      const stream = new PassThrough();
+      mockAxiosInstance.post = vi.fn().mockResolvedValue({ data: stream });
+
+      const chunks: string[] = [];
+      const resultPromise = localLLM.generateStream('Prompt', 'llama3:8b', (chunk) => chunks.push(chunk));
+
+      await new Promise((resolve) => setImmediate(resolve));
+      stream.write('{"response":"Hel');
+      stream.write('lo"}\n{"response":" there"}\n');
+      stream.end('{"response":"","done":true}\n');
+
+      await expect(resultPromise).resolves.toBe('Hello there');
+      expect(chunks).toEqual(['Hello', ' there']);
+    });
+  });
+
   describe('parseModelString', () => {
     it('should parse ollama:// model string', () => {
       const result = localLLM.parseModelString('ollama://llama3:8b');
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { LLMRouter } from '../router';
 import { EngineConfig } from '../../engine';
 import { LocalLLM } from '../local-llm';
+import { GenerationCancelledError } from '../cancellation';
 
 vi.mock('../local-llm');
 vi.mock('../cloud-llm');
@@ -62,10 +63,39 @@ describe('LLMRouter', () => {
       expect(localLLMInstance.generate).toHaveBeenCalledWith(
         'Test prompt',
         'llama3:8b',
+        undefined,
         undefined
       );
     });
 
+    it('does not try fallbacks once the signal is aborted', async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      config.privacy.cloudFallback = true;
+
+      const testRouter = new LLMRouter(config);
+      const localLLMInstance = (testRouter as any).localLLM;
+      vi.spyOn(localLLMInstance, 'parseModelString').mockReturnValue({
+        model: 'llama3',
+        tag: '8b',
+      });
+      vi.spyOn(localLLMInstance, 'checkConnection').mockResolvedValue(true);
+      vi.spyOn(localLLMInstance, 'checkModelAvailable').mockResolvedValue(true);
+
+      const controller = new AbortController();
+      vi.spyOn(localLLMInstance, 'generate').mockImplementation(async () => {
+        controller.abort('latency-target');
+        throw new GenerationCancelledError('latency-target');
+      });
+
+      const openAIGenerate = vi.fn();
+      (testRouter as any).openAIService = { generate: openAIGenerate };
+
+      await expect(
+        testRouter.generate('Test prompt', undefined, controller.signal)
+      ).rejects.toMatchObject({ reason: 'latency-target' });
+      expect(openAIGenerate).not.toHaveBeenCalled();
+    });
+
     it('should fallback to cloud when local LLM unavailable', async () => {
       process.env.OPENAI_API_KEY = 'test-key';
       config.privacy.cloudFallback = true;
@@ -99,5 +129,59 @@ describe('LLMRouter', () => {
       );
     });
   });
-});
 
+  describe('generateStream', () => {
+    it('streams tokens from the local LLM', async () => {
+      const testRouter = new LLMRouter(config);
+      const localLLMInstance = (testRouter as any).localLLM;
+
+      vi.spyOn(localLLMInstance, 'parseModelString').mockReturnValue({
+        model: 'llama3',
+        tag: '8b',
+      });
+      vi.spyOn(localLLMInstance, 'checkConnection').mockResolvedValue(true);
+      vi.spyOn(localLLMInstance, 'checkModelAvailable').mockResolvedValue(true);
+      vi.spyOn(localLLMInstance, 'generateStream').mockImplementation(
+        async (_prompt: string, _model: string, onChunk: (chunk: string) => void) => {
+          onChunk('Hello ');
+          onChunk('world');
+          return 'Hello world';
+        }
+      );
+
+      const chunks: string[] = [];
+      const result = await testRouter.generateStream('Test prompt', (chunk) => chunks.push(chunk));
+
+      expect(result).toBe('Hello world');
+      expect(chunks).toEqual(['Hello ', 'world']);
+    });
+
+    it('does not fall back once tokens have been emitted', async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      config.privacy.cloudFallback = true;
+
+      const testRouter = new LLMRouter(config);
+      const localLLMInstance = (testRouter as any).localLLM;
+      vi.spyOn(localLLMInstance, 'parseModelString').mockReturnValue({
+        model: 'llama3',
+        tag: '8b',
+      });
+      vi.spyOn(localLLMInstance, 'checkConnection').mockResolvedValue(true);
+      vi.spyOn(localLLMInstance, 'checkModelAvailable').mockResolvedValue(true);
+      vi.spyOn(localLLMInstance, 'generateStream').mockImplementation(
+        async (_prompt: string, _model: string, onChunk: (chunk: string) => void) => {
+          onChunk('partial');
+          throw new Error('stream dropped');
+        }
+      );
+
+      const openAIStream = vi.fn();
+      (testRouter as any).openAIService = { generateStream: openAIStream };
+
+      await expect(testRouter.generateStream('Test prompt', () => {})).rejects.toThrow(
+        'stream dropped'
+      );
+      expect(openAIStream).not.toHaveBeenCalled();
+    });
+  });
+});
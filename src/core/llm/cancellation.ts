@@ -0,0 +1,69 @@
+export type CancellationReason = 'superseded' | 'latency-target' | 'session-stopped' | 'session-paused';
+
+export class GenerationCancelledError extends Error {
+  readonly reason: CancellationReason;
+
+  constructor(reason: CancellationReason) {
+    super(`Generation cancelled: ${reason}`);
+    this.name = 'GenerationCancelledError';
+    this.reason = reason;
+  }
+}
+
+export function isGenerationCancelled(error: unknown): error is GenerationCancelledError {
+  return error instanceof GenerationCancelledError;
+}
+
+function getReason(signal: AbortSignal): CancellationReason {
+  const reason = signal.reason;
+  if (
+    reason === 'superseded' ||
+    reason === 'latency-target' ||
+    reason === 'session-stopped' ||
+    reason === 'session-paused'
+  ) {
+    return reason;
+  }
+  return 'superseded';
+}
+
+/**
+ * Converts an aborted signal into a GenerationCancelledError. Callers abort
+ * with `controller.abort(reason)` so the reason survives to the UI.
+ */
+export function toCancellationError(signal: AbortSignal): GenerationCancelledError {
+  return new GenerationCancelledError(getReason(signal));
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toCancellationError(signal);
+  }
+}
+
+/**
+ * Stops a streaming response body when the signal aborts and rejects the
+ * given promise handler with a GenerationCancelledError.
+ */
+export function bindStreamToSignal(
+  stream: NodeJS.ReadableStream & { destroy?: () => void },
+  signal: AbortSignal | undefined,
+  reject: (error: Error) => void
+): () => void {
+  if (!signal) {
+    return () => {};
+  }
+
+  const onAbort = () => {
+    stream.destroy?.();
+    reject(toCancellationError(signal));
+  };
+
+  if (signal.aborted) {
+    onAbort();
+    return () => {};
+  }
+
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
@@ -1,4 +1,5 @@
 import axios, { AxiosInstance } from 'axios';
+import { bindStreamToSignal, throwIfCancelled, toCancellationError } from './cancellation';
 
 export interface LLMResponse {
   text: string;
@@ -8,6 +9,83 @@ export interface LLMResponse {
   };
 }
 
+export type StreamChunkHandler = (chunk: string) => void;
+
+/**
+ * Reads a server-sent events body and invokes onData with every `data:`
+ * payload. Resolves when the stream ends.
+ */
+function readServerSentEvents(
+  stream: NodeJS.ReadableStream,
+  onData: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let pending = '';
+    const unbind = bindStreamToSignal(stream, signal, reject);
+
+    const flushLines = (final: boolean) => {
+      const lines = pending.split(/\r?\n/);
+      pending = final ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          const data = line.slice(5).trim();
+          if (data.length > 0) {
+            onData(data);
+          }
+        }
+      }
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      if (signal?.aborted) {
+        return;
+      }
+      pending += chunk.toString();
+      flushLines(false);
+    });
+    stream.on('end', () => {
+      unbind();
+      flushLines(true);
+      resolve();
+    });
+    stream.on('error', (error: Error) => {
+      unbind();
+      reject(error);
+    });
+  });
+}
+
+// Streamed event shapes. Every field is optional and leaf values are checked
+// before use: providers add and omit fields between API versions.
+interface OpenAIStreamChunk {
+  choices?: Array<{ delta?: { content?: unknown } }>;
+}
+
+interface AnthropicStreamEvent {
+  type?: unknown;
+  message?: { usage?: { input_tokens?: unknown } };
+  usage?: { output_tokens?: unknown };
+  delta?: { text?: unknown };
+}
+
+interface GeminiStreamChunk {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }>;
+}
+
+function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    return null;
+  }
+}
+
+// Only JSON objects can be events; anything else is skipped
+function asEvent<T extends object>(value: unknown): T | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as T) : null;
+}
+
 export class OpenAIService {
   private apiKey: string;
   private client: AxiosInstance;
@@ -26,8 +104,11 @@ export class OpenAIService {
   async generate(
     prompt: string,
     model: string = 'gpt-4o-mini',
-    systemPrompt?: string
+    systemPrompt?: string,
+    signal?: AbortSignal
   ): Promise<LLMResponse> {
+    throwIfCancelled(signal);
+
     try {
       const messages = [];
       if (systemPrompt) {
@@ -35,12 +116,16 @@ export class OpenAIService {
       }
       messages.push({ role: 'user', content: prompt });
 
-      const response = await this.client.post('/chat/completions', {
-        model,
-        messages,
-        temperature: 0.7,
-        max_tokens: 200,
-      });
+      const response = await this.client.post(
+        '/chat/completions',
+        {
+          model,
+          messages,
+          temperature: 0.7,
+          max_tokens: 200,
+        },
+        { signal }
+      );
 
       return {
         text: response.data.choices[0].message.content,
@@ -50,10 +135,63 @@ export class OpenAIService {
         },
       };
     } catch (error) {
+      if (signal?.aborted) {
+        throw toCancellationError(signal);
+      }
       console.error('OpenAI API error:', error);
       throw new Error('OpenAI API request failed');
     }
   }
+
+  async generateStream(
+    prompt: string,
+    model: string = 'gpt-4o-mini',
+    onChunk: StreamChunkHandler,
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    throwIfCancelled(signal);
+
+    try {
+      const messages = [];
+      if (systemPrompt) {
+        messages.push({ role: 'system', content: systemPrompt });
+      }
+      messages.push({ role: 'user', content: prompt });
+
+      const response = await this.client.post(
+        '/chat/completions',
+        {
+          model,
+          messages,
+          temperature: 0.7,
+          max_tokens: 200,
+          stream: true,
+        },
+        { responseType: 'stream', signal }
+      );
+
+      let text = '';
+      await readServerSentEvents(response.data, (data) => {
+        if (data === '[DONE]') {
+          return;
+        }
+        const delta = asEvent<OpenAIStreamChunk>(parseEventData(data))?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta.length > 0) {
+          text += delta;
+          onChunk(delta);
+        }
+      }, signal);
+
+      return { text };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toCancellationError(signal);
+      }
+      console.error('OpenAI streaming error:', error);
+      throw new Error('OpenAI API request failed');
+    }
+  }
 }
 
 export class AnthropicService {
@@ -75,17 +213,24 @@ export class AnthropicService {
   async generate(
     prompt: string,
     model: string = 'claude-3-haiku-20240307',
-    systemPrompt?: string
+    systemPrompt?: string,
+    signal?: AbortSignal
   ): Promise<LLMResponse> {
+    throwIfCancelled(signal);
+
     try {
       const messages = [{ role: 'user', content: prompt }];
 
-      const response = await this.client.post('/messages', {
-        model,
-        max_tokens: 200,
-        system: systemPrompt,
-        messages,
-      });
+      const response = await this.client.post(
+        '/messages',
+        {
+          model,
+          max_tokens: 200,
+          system: systemPrompt,
+          messages,
+        },
+        { signal }
+      );
 
       return {
         text: response.data.content[0].text,
@@ -95,10 +240,70 @@ export class AnthropicService {
         },
       };
     } catch (error) {
+      if (signal?.aborted) {
+        throw toCancellationError(signal);
+      }
       console.error('Anthropic API error:', error);
       throw new Error('Anthropic API request failed');
     }
   }
+
+  async generateStream(
+    prompt: string,
+    model: string = 'claude-3-haiku-20240307',
+    onChunk: StreamChunkHandler,
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    throwIfCancelled(signal);
+
+    try {
+      const messages = [{ role: 'user', content: prompt }];
+
+      const response = await this.client.post(
+        '/messages',
+        {
+          model,
+          max_tokens: 200,
+          system: systemPrompt,
+          messages,
+          stream: true,
+        },
+        { responseType: 'stream', signal }
+      );
+
+      let text = '';
+      let promptTokens = 0;
+      let completionTokens = 0;
+      await readServerSentEvents(response.data, (data) => {
+        const event = asEvent<AnthropicStreamEvent>(parseEventData(data));
+        if (!event) {
+          return;
+        }
+        if (event.type === 'message_start') {
+          const inputTokens = event.message?.usage?.input_tokens;
+          promptTokens = typeof inputTokens === 'number' ? inputTokens : 0;
+        } else if (event.type === 'message_delta') {
+          const outputTokens = event.usage?.output_tokens;
+          completionTokens = typeof outputTokens === 'number' ? outputTokens : completionTokens;
+        } else if (event.type === 'content_block_delta' && typeof event.delta?.text === 'string') {
+          text += event.delta.text;
+          onChunk(event.delta.text);
+        }
+      }, signal);
+
+      return {
+        text,
+        usage: { promptTokens, completionTokens },
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toCancellationError(signal);
+      }
+      console.error('Anthropic streaming error:', error);
+      throw new Error('Anthropic API request failed');
+    }
+  }
 }
 
 export class GoogleAIService {
@@ -118,8 +323,11 @@ export class GoogleAIService {
   async generate(
     prompt: string,
     model: string = 'gemini-pro',
-    systemPrompt?: string
+    systemPrompt?: string,
+    signal?: AbortSignal
   ): Promise<LLMResponse> {
+    throwIfCancelled(signal);
+
     try {
       const fullPrompt = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt;
 
@@ -135,16 +343,72 @@ export class GoogleAIService {
             temperature: 0.7,
             maxOutputTokens: 200,
           },
-        }
+        },
+        { signal }
       );
 
       return {
         text: response.data.candidates[0].content.parts[0].text,
       };
     } catch (error) {
+      if (signal?.aborted) {
+        throw toCancellationError(signal);
+      }
       console.error('Google AI API error:', error);
       throw new Error('Google AI API request failed');
     }
   }
+
+  async generateStream(
+    prompt: string,
+    model: string = 'gemini-pro',
+    onChunk: StreamChunkHandler,
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    throwIfCancelled(signal);
+
+    try {
+      const fullPrompt = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt;
+
+      const response = await this.client.post(
+        `/models/${model}:streamGenerateContent`,
+        {
+          contents: [
+            {
+              parts: [{ text: fullPrompt }],
+            },
+          ],
+          generationConfig: {
+            temperature: 0.7,
+            maxOutputTokens: 200,
+          },
+        },
+        {
+          params: { alt: 'sse' },
+          responseType: 'stream',
+          signal,
+        }
+      );
+
+      let text = '';
+      await readServerSentEvents(response.data, (data) => {
+        const chunk = asEvent<GeminiStreamChunk>(parseEventData(data));
+        const delta = chunk?.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (typeof delta === 'string' && delta.length > 0) {
+          text += delta;
+          onChunk(delta);
+        }
+      }, signal);
+
+      return { text };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toCancellationError(signal);
+      }
+      console.error('Google AI streaming error:', error);
+      throw new Error('Google AI API request failed');
+    }
+  }
 }
 
@@ -1,4 +1,9 @@
 import axios, { AxiosInstance } from 'axios';
+import {
+  bindStreamToSignal,
+  throwIfCancelled,
+  toCancellationError,
+} from './cancellation';
 
 export interface LocalLLMResponse {
   text: string;
@@ -43,8 +48,11 @@ export class LocalLLM {
   async generate(
     prompt: string,
     model: string = 'llama3:8b',
-    systemPrompt?: string
+    systemPrompt?: string,
+    signal?: AbortSignal
   ): Promise<string> {
+    throwIfCancelled(signal);
+
     try {
       const fullPrompt = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt;
 
@@ -61,6 +69,7 @@ export class LocalLLM {
         },
         {
           timeout: 60000,
+          signal,
         }
       );
 
@@ -75,6 +84,9 @@ export class LocalLLM {
 
       return response.data.response || '';
     } catch (error: any) {
+      if (signal?.aborted) {
+        throw toCancellationError(signal);
+      }
       if (error.code === 'ECONNREFUSED') {
         throw new Error('Ollama is not running. Please start Ollama first.');
       }
@@ -83,12 +95,20 @@ export class LocalLLM {
     }
   }
 
+  /**
+   * Streams tokens from Ollama, calling onChunk for each fragment. Resolves with
+   * the full response once Ollama reports `done` or the stream ends. Aborting
+   * the signal closes the stream and rejects with GenerationCancelledError.
+   */
   async generateStream(
     prompt: string,
     model: string = 'llama3:8b',
     onChunk: (chunk: string) => void,
-    systemPrompt?: string
-  ): Promise<void> {
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    throwIfCancelled(signal);
+
     try {
       const fullPrompt = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt;
 
@@ -106,23 +126,76 @@ export class LocalLLM {
         {
           responseType: 'stream',
           timeout: 60000,
+          signal,
         }
       );
 
-      response.data.on('data', (chunk: Buffer) => {
-        const lines = chunk.toString().split('\n').filter((l) => l.trim());
-        for (const line of lines) {
+      return await new Promise<string>((resolve, reject) => {
+        let fullText = '';
+        let pending = '';
+        let settled = false;
+
+        const unbind = bindStreamToSignal(response.data, signal, (error) => {
+          if (!settled) {
+            settled = true;
+            reject(error);
+          }
+        });
+
+        const finish = () => {
+          if (!settled) {
+            settled = true;
+            unbind();
+            resolve(fullText);
+          }
+        };
+
+        const handleLine = (line: string) => {
+          if (!line.trim()) {
+            return;
+          }
           try {
             const data = JSON.parse(line);
             if (data.response) {
+              fullText += data.response;
               onChunk(data.response);
             }
+            if (data.done) {
+              finish();
+            }
           } catch (e) {
             // Ignore parse errors
           }
-        }
+        };
+
+        response.data.on('data', (chunk: Buffer) => {
+          if (settled) {
+            return;
+          }
+          // Ollama frames are newline-delimited JSON that may span network chunks
+          pending += chunk.toString();
+          const lines = pending.split('\n');
+          pending = lines.pop() ?? '';
+          lines.forEach(handleLine);
+        });
+
+        response.data.on('end', () => {
+          handleLine(pending);
+          finish();
+        });
+
+        response.data.on('error', (error: Error) => {
+          if (!settled) {
+            settled = true;
+            unbind();
+            reject(error);
+          }
+        });
       });
     } catch (error: any) {
+      if (signal?.aborted) {
+        throw toCancellationError(signal);
+      }
       if (error.code === 'ECONNREFUSED') {
         throw new Error('Ollama is not running. Please start Ollama first.');
       }
@@ -4,11 +4,31 @@ import {
   OpenAIService,
   AnthropicService,
   GoogleAIService,
+  LLMResponse,
+  StreamChunkHandler,
 } from './cloud-llm';
+import { isGenerationCancelled, throwIfCancelled } from './cancellation';
+import { allowsCloudServices } from '../security/privacy';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
+interface CloudService {
+  generate(
+    prompt: string,
+    model?: string,
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<LLMResponse>;
+  generateStream(
+    prompt: string,
+    model: string | undefined,
+    onChunk: StreamChunkHandler,
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<LLMResponse>;
+}
+
 export class LLMRouter {
   private config: EngineConfig;
   private localLLM: LocalLLM;
@@ -21,7 +41,7 @@ export class LLMRouter {
     this.localLLM = new LocalLLM();
 
     // Initialize cloud services if API keys are available and cloud fallback is enabled
-    if (config.privacy.cloudFallback) {
+    if (allowsCloudServices(config.privacy)) {
       if (process.env.OPENAI_API_KEY) {
         this.openAIService = new OpenAIService(process.env.OPENAI_API_KEY);
       }
@@ -36,78 +56,122 @@ export class LLMRouter {
     }
   }
 
+  /**
+   * Generates a completion from the primary model, falling back to cloud
+   * models when allowed. Aborting the signal rejects with
+   * GenerationCancelledError and skips any remaining fallbacks.
+   */
   async generate(
     prompt: string,
-    systemPrompt?: string
+    systemPrompt?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     // Try primary model first (local)
     try {
-      const primaryModel = this.config.models.llm.primary;
-      const parsed = this.localLLM.parseModelString(primaryModel);
-
-      // Check if Ollama is available
-      const isConnected = await this.localLLM.checkConnection();
-      if (isConnected) {
-        const modelAvailable = await this.localLLM.checkModelAvailable(
-          `${parsed.model}:${parsed.tag || 'latest'}`
+      const localModel = await this.resolveLocalModel(signal);
+      if (localModel) {
+        const response = await this.localLLM.generate(
+          prompt,
+          localModel,
+          systemPrompt,
+          signal
         );
-
-        if (modelAvailable) {
-          const response = await this.localLLM.generate(
-            prompt,
-            `${parsed.model}:${parsed.tag || 'latest'}`,
-            systemPrompt
-          );
-          return response;
-        }
+        return response;
       }
     } catch (error) {
+      if (isGenerationCancelled(error)) {
+        throw error;
+      }
       console.warn('Primary LLM failed, trying fallbacks:', error);
     }
 
     // Try fallbacks if cloud fallback is enabled
-    if (this.config.privacy.cloudFallback) {
+    if (allowsCloudServices(this.config.privacy)) {
       for (const fallbackModel of this.config.models.llm.fallbacks) {
+        const service = this.getCloudService(fallbackModel);
+        if (!service) {
+          continue;
+        }
+
+        throwIfCancelled(signal);
+
         try {
-          let response: string;
-
-          if (fallbackModel.startsWith('gpt-')) {
-            if (!this.openAIService) {
-              continue;
-            }
-            const result = await this.openAIService.generate(
-              prompt,
-              fallbackModel,
-              systemPrompt
-            );
-            response = result.text;
-          } else if (fallbackModel.startsWith('claude-')) {
-            if (!this.anthropicService) {
-              continue;
-            }
-            const result = await this.anthropicService.generate(
-              prompt,
-              fallbackModel,
-              systemPrompt
-            );
-            response = result.text;
-          } else if (fallbackModel.startsWith('gemini-')) {
-            if (!this.googleAIService) {
-              continue;
-            }
-            const result = await this.googleAIService.generate(
-              prompt,
-              fallbackModel,
-              systemPrompt
-            );
-            response = result.text;
-          } else {
-            continue;
+          const result = await service.generate(prompt, fallbackModel, systemPrompt, signal);
+          return result.text;
+        } catch (error) {
+          if (isGenerationCancelled(error)) {
+            throw error;
           }
+          console.warn(`Fallback model ${fallbackModel} failed:`, error);
+          continue;
+        }
+      }
+    }
+
+    throw new Error(
+      'All LLM services failed. Please check your configuration and connection.'
+    );
+  }
+
+  /**
+   * Same routing as generate(), but forwards tokens to onChunk as they arrive.
+   * Resolves with the full response text. A fallback is only attempted when
+   * the previous service failed before emitting any tokens, so callers never
+   * see output from two models interleaved.
+   */
+  async generateStream(
+    prompt: string,
+    onChunk: StreamChunkHandler,
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let emitted = false;
+    const trackedChunk: StreamChunkHandler = (chunk) => {
+      emitted = true;
+      onChunk(chunk);
+    };
+
+    try {
+      const localModel = await this.resolveLocalModel(signal);
+      if (localModel) {
+        return await this.localLLM.generateStream(
+          prompt,
+          localModel,
+          trackedChunk,
+          systemPrompt,
+          signal
+        );
+      }
+    } catch (error) {
+      if (emitted || isGenerationCancelled(error)) {
+        throw error;
+      }
+      console.warn('Primary LLM stream failed, trying fallbacks:', error);
+    }
+
+    if (allowsCloudServices(this.config.privacy)) {
+      for (const fallbackModel of this.config.models.llm.fallbacks) {
+        const service = this.getCloudService(fallbackModel);
+        if (!service) {
+          continue;
+        }
+
+        throwIfCancelled(signal);
 
-          return response;
+        try {
+          const result = await service.generateStream(
+            prompt,
+            fallbackModel,
+            trackedChunk,
+            systemPrompt,
+            signal
+          );
+          return result.text;
         } catch (error) {
-          console.warn(`Fallback model ${fallbackModel} failed:`, error);
+          if (emitted || isGenerationCancelled(error)) {
+            throw error;
+          }
+          console.warn(`Fallback model ${fallbackModel} stream failed:`, error);
           continue;
         }
       }
@@ -117,5 +181,35 @@ export class LLMRouter {
       'All LLM services failed. Please check your configuration and connection.'
     );
   }
-}
 
+  private async resolveLocalModel(signal?: AbortSignal): Promise<string | null> {
+    throwIfCancelled(signal);
+
+    const primaryModel = this.config.models.llm.primary;
+    const parsed = this.localLLM.parseModelString(primaryModel);
+
+    // Check if Ollama is available
+    const isConnected = await this.localLLM.checkConnection();
+    if (!isConnected) {
+      return null;
+    }
+
+    const modelName = `${parsed.model}:${parsed.tag || 'latest'}`;
+    const modelAvailable = await this.localLLM.checkModelAvailable(modelName);
+    throwIfCancelled(signal);
+    return modelAvailable ? modelName : null;
+  }
+
+  private getCloudService(model: string): CloudService | undefined {
+    if (model.startsWith('gpt-')) {
+      return this.openAIService;
+    }
+    if (model.startsWith('claude-')) {
+      return this.anthropicService;
+    }
+    if (model.startsWith('gemini-')) {
+      return this.googleAIService;
+    }
+    return undefined;
+  }
+}
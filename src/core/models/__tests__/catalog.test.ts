@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { getRequiredModels } from '../catalog';
+import type { EngineConfig } from '../../engine';
+
+const baseConfig: EngineConfig = {
+  privacy: { offlineFirst: true, cloudFallback: false, dataRetention: 7 },
+  performance: { hardwareTier: 'auto-detect', latencyTarget: 5000, qualityPreference: 'balanced' },
+  models: {
+    transcription: { primary: 'local-whisper-base', fallback: 'cloud-whisper' },
+    llm: { primary: 'ollama://llama3:8b', fallbacks: [] },
+  },
+};
+
+describe('getRequiredModels', () => {
+  it('follows the transcription, VAD and diarization settings', () => {
+    const models = getRequiredModels({
+      ...baseConfig,
+      vad: { backend: 'silero' },
+      diarization: { enabled: true },
+    });
+
+    expect(models.map((model) => [model.id, model.purpose])).toEqual([
+      ['Xenova/whisper-base', 'transcription'],
+      ['onnx-community/silero-vad', 'vad'],
+      ['Xenova/wavlm-base-plus-sv', 'speaker-embedding'],
+    ]);
+  });
+
+  it('adds the keyword spotter only when voice commands need one', () => {
+    const withSilero = getRequiredModels({
+      ...baseConfig,
+      vad: { backend: 'silero' },
+      voiceCommands: { enabled: true },
+    });
+    const withClassifier = getRequiredModels({
+      ...baseConfig,
+      vad: { backend: 'classifier' },
+      voiceCommands: { enabled: true },
+    });
+
+    expect(withSilero.map((model) => model.id)).toContain('Xenova/ast-finetuned-speech-commands-v2');
+    expect(withClassifier.filter((model) => model.purpose === 'keywords')).toHaveLength(1);
+  });
+
+  it('needs no local models for cloud transcription and the energy VAD', () => {
+    const models = getRequiredModels({
+      ...baseConfig,
+      models: { ...baseConfig.models, transcription: { primary: 'cloud-whisper', fallback: 'cloud-whisper' } },
+      vad: { backend: 'energy' },
+    });
+
+    expect(models).toEqual([]);
+  });
+});
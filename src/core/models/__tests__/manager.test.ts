@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+  BUNDLE_MANIFEST_FILE,
+  ModelDownloadProgress,
+  ModelManager,
+} from '../manager';
+import type { ModelSpec } from '../catalog';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios);
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+const WEIGHTS = 'onnx-weights-'.repeat(100);
+const CONFIG = '{"model_type":"test"}';
+
+const SPEC: ModelSpec = {
+  id: 'Org/test-model',
+  purpose: 'keywords',
+  files: ['config.json', 'onnx/model_quantized.onnx'],
+};
+
+// Serves SPEC's files; LFS weights carry their hash in x-linked-etag
+function serve(files: Record<string, string>, linkedEtags: Record<string, string> = {}) {
+  return {
+    head: vi.fn(async (url: string) => {
+      const file = url.replace(`/${SPEC.id}/resolve/main/`, '');
+      const etag = linkedEtags[file];
+      return { status: etag ? 302 : 200, headers: etag ? { 'x-linked-etag': `"${etag}"` } : {} };
+    }),
+    get: vi.fn(async (url: string) => {
+      const file = url.replace(`/${SPEC.id}/resolve/main/`, '');
+      const content = files[file];
+      return {
+        status: 200,
+        headers: { 'content-length': String(content.length) },
+        data: Readable.from([Buffer.from(content.slice(0, 500)), Buffer.from(content.slice(500))]),
+      };
+    }),
+  };
+}
+
+describe('ModelManager', () => {
+  let cacheDir: string;
+  let client: ReturnType<typeof serve>;
+
+  const useServer = (server: ReturnType<typeof serve>) => {
+    client = server;
+    mockedAxios.create = vi.fn(() => client) as any;
+  };
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-cache-'));
+    useServer(
+      serve(
+        { 'config.json': CONFIG, 'onnx/model_quantized.onnx': WEIGHTS },
+        { 'onnx/model_quantized.onnx': sha256(WEIGHTS) }
+      )
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('downloads missing files into the cache layout with progress', async () => {
+    const manager = new ModelManager({ cacheDir });
+    const progress: ModelDownloadProgress[] = [];
+    manager.on('progress', (update: ModelDownloadProgress) => progress.push(update));
+
+    expect(manager.listModels([SPEC])[0].status).toBe('missing');
+    await manager.download([SPEC]);
+
+    const weights = path.join(cacheDir, 'Org', 'test-model', 'onnx', 'model_quantized.onnx');
+    expect(fs.readFileSync(weights, 'utf-8')).toBe(WEIGHTS);
+    expect(fs.existsSync(`${weights}.part`)).toBe(false);
+    expect(manager.listModels([SPEC])[0]).toMatchObject({ status: 'installed', required: true });
+
+    const last = progress.filter((update) => update.file === 'onnx/model_quantized.onnx').pop();
+    expect(last).toMatchObject({ fileIndex: 1, fileCount: 2, loadedBytes: WEIGHTS.length, totalBytes: WEIGHTS.length });
+  });
+
+  it('skips files that are already installed', async () => {
+    const manager = new ModelManager({ cacheDir });
+    await manager.download([SPEC]);
+    client.get.mockClear();
+
+    await manager.download([SPEC]);
+
+    expect(client.get).not.toHaveBeenCalled();
+  });
+
+  it('rejects a download whose checksum does not match', async () => {
+    useServer(
+      serve(
+        { 'config.json': CONFIG, 'onnx/model_quantized.onnx': WEIGHTS },
+        { 'onnx/model_quantized.onnx': sha256('something else') }
+      )
+    );
+    const manager = new ModelManager({ cacheDir });
+
+    await expect(manager.download([SPEC])).rejects.toThrow('Checksum mismatch');
+
+    const weights = path.join(cacheDir, 'Org', 'test-model', 'onnx', 'model_quantized.onnx');
+    expect(fs.existsSync(weights)).toBe(false);
+    expect(fs.existsSync(`${weights}.part`)).toBe(false);
+  });
+
+  it('refuses to download in strict offline mode', async () => {
+    const manager = new ModelManager({ cacheDir, offline: true });
+
+    await expect(manager.download([SPEC])).rejects.toThrow('strict offline');
+    expect(client.head).not.toHaveBeenCalled();
+    expect(client.get).not.toHaveBeenCalled();
+  });
+
+  it('removes corrupted files during verification', async () => {
+    const manager = new ModelManager({ cacheDir });
+    await manager.download([SPEC]);
+    const weights = path.join(cacheDir, 'Org', 'test-model', 'onnx', 'model_quantized.onnx');
+    fs.writeFileSync(weights, 'tampered');
+
+    const result = await manager.verify(SPEC.id);
+
+    expect(result).toMatchObject({ ok: false, corruptFiles: ['onnx/model_quantized.onnx'] });
+    expect(fs.existsSync(weights)).toBe(false);
+    expect(manager.listModels([SPEC])[0].status).toBe('incomplete');
+    expect((await manager.verify(SPEC.id)).ok).toBe(true);
+  });
+
+  describe('importBundle', () => {
+    let bundleDir: string;
+
+    const writeBundle = (hashes: Record<string, string>) => {
+      const modelDir = path.join(bundleDir, 'Org', 'test-model');
+      fs.mkdirSync(path.join(modelDir, 'onnx'), { recursive: true });
+      fs.writeFileSync(path.join(modelDir, 'config.json'), CONFIG);
+      fs.writeFileSync(path.join(modelDir, 'onnx', 'model_quantized.onnx'), WEIGHTS);
+      fs.writeFileSync(
+        path.join(bundleDir, BUNDLE_MANIFEST_FILE),
+        JSON.stringify({ models: { [SPEC.id]: hashes } })
+      );
+    };
+
+    beforeEach(() => {
+      bundleDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-bundle-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(bundleDir, { recursive: true, force: true });
+    });
+
+    it('copies verified models into the cache without the network', async () => {
+      writeBundle({ 'config.json': sha256(CONFIG), 'onnx/model_quantized.onnx': sha256(WEIGHTS) });
+      const manager = new ModelManager({ cacheDir, offline: true });
+
+      await expect(manager.importBundle(bundleDir)).resolves.toEqual([SPEC.id]);
+
+      expect(manager.listModels([SPEC])[0].status).toBe('installed');
+      expect((await manager.verify(SPEC.id)).ok).toBe(true);
+      expect(client.get).not.toHaveBeenCalled();
+    });
+
+    it('rejects a bundle with a checksum mismatch without copying anything', async () => {
+      writeBundle({ 'config.json': sha256(CONFIG), 'onnx/model_quantized.onnx': sha256('other') });
+      const manager = new ModelManager({ cacheDir });
+
+      await expect(manager.importBundle(bundleDir)).rejects.toThrow('Checksum mismatch');
+      expect(manager.listModels([SPEC])[0].status).toBe('missing');
+    });
+  });
+
+  it('lists cached models the configuration does not use', () => {
+    fs.mkdirSync(path.join(cacheDir, 'Xenova', 'old-model', 'onnx'), { recursive: true });
+    const manager = new ModelManager({ cacheDir });
+
+    const models = manager.listModels([SPEC]);
+
+    expect(models.map((model) => model.id)).toEqual([SPEC.id, 'Xenova/old-model']);
+    expect(models[1]).toMatchObject({ required: false, purpose: null, status: 'installed' });
+  });
+});
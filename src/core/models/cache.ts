@@ -0,0 +1,28 @@
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * The one directory models live in, shared by the model manager and
+ * transformers.js: `<cacheDir>/<model id>/<file>`. TRANSFORMERS_CACHE or
+ * HF_HOME override the default.
+ */
+export function getModelCacheDir(): string {
+  return (
+    process.env.TRANSFORMERS_CACHE ??
+    process.env.HF_HOME ??
+    path.join(os.homedir(), '.cache', 'ai-consul', 'transformers')
+  );
+}
+
+export function getModelDir(cacheDir: string, modelId: string): string {
+  return path.join(cacheDir, ...modelId.split('/'));
+}
+
+// How transformers.js fails for a model it can neither find locally nor fetch
+export function isModelUnavailableError(error: unknown): error is Error {
+  return (
+    error instanceof Error &&
+    (error.message.includes('Unauthorized access to file') ||
+      error.message.includes('file was not found locally'))
+  );
+}
@@ -0,0 +1,72 @@
+import type { EngineConfig } from '../engine';
+import { getWhisperModelName } from '../audio/whisper-local';
+import { DEFAULT_KEYWORD_MODEL } from '../audio/keyword-spotter';
+import { DEFAULT_CLASSIFIER_VAD_MODEL, DEFAULT_SILERO_VAD_MODEL } from '../audio/vad-backends';
+import { DEFAULT_SPEAKER_EMBEDDING_MODEL } from '../audio/speaker-embedding';
+
+export type ModelPurpose = 'transcription' | 'vad' | 'keywords' | 'speaker-embedding';
+
+export interface ModelSpec {
+  id: string;
+  purpose: ModelPurpose;
+  // Paths inside the model repository, as transformers.js requests them
+  files: string[];
+}
+
+// The files each loader reads; quantized weights unless noted
+const MODEL_FILES: Record<ModelPurpose, string[]> = {
+  transcription: [
+    'config.json',
+    'generation_config.json',
+    'preprocessor_config.json',
+    'tokenizer.json',
+    'tokenizer_config.json',
+    'onnx/encoder_model_quantized.onnx',
+    'onnx/decoder_model_merged_quantized.onnx',
+  ],
+  // Silero is loaded unquantized with an inline config
+  vad: ['onnx/model.onnx'],
+  keywords: ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'],
+  'speaker-embedding': ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'],
+};
+
+function spec(id: string, purpose: ModelPurpose): ModelSpec {
+  return { id, purpose, files: MODEL_FILES[purpose] };
+}
+
+/**
+ * The models the given configuration loads. Mirrors the engine: local
+ * Whisper, the VAD backend's model, the keyword spotter when voice commands
+ * need one, and the speaker embedder when diarization is on.
+ */
+export function getRequiredModels(config: EngineConfig): ModelSpec[] {
+  const models: ModelSpec[] = [];
+  const add = (model: ModelSpec) => {
+    if (!models.some((existing) => existing.id === model.id)) {
+      models.push(model);
+    }
+  };
+
+  const primary = config.models.transcription.primary;
+  if (primary.startsWith('local-whisper')) {
+    const size = primary.includes('small') ? 'small' : primary.includes('base') ? 'base' : 'tiny';
+    add(spec(getWhisperModelName(size), 'transcription'));
+  }
+
+  const backend = config.vad?.backend ?? 'energy';
+  if (backend === 'silero') {
+    add(spec(config.vad?.model ?? DEFAULT_SILERO_VAD_MODEL, 'vad'));
+  } else if (backend === 'classifier') {
+    add(spec(config.vad?.model ?? DEFAULT_CLASSIFIER_VAD_MODEL, 'keywords'));
+  }
+
+  if (config.voiceCommands?.enabled && backend !== 'classifier') {
+    add(spec(DEFAULT_KEYWORD_MODEL, 'keywords'));
+  }
+
+  if (config.diarization?.enabled) {
+    add(spec(config.diarization.model ?? DEFAULT_SPEAKER_EMBEDDING_MODEL, 'speaker-embedding'));
+  }
+
+  return models;
+}
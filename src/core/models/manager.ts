@@ -0,0 +1,391 @@
+import axios, { AxiosInstance } from 'axios';
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ModelPurpose, ModelSpec } from './catalog';
+import { getModelCacheDir, getModelDir } from './cache';
+
+export type ModelStatus = 'installed' | 'incomplete' | 'missing';
+
+export interface ModelInfo {
+  id: string;
+  // Null for models found in the cache that the configuration does not use
+  purpose: ModelPurpose | null;
+  required: boolean;
+  status: ModelStatus;
+  // Bytes on disk
+  sizeBytes: number;
+}
+
+export interface ModelDownloadProgress {
+  model: string;
+  file: string;
+  fileIndex: number;
+  fileCount: number;
+  loadedBytes: number;
+  // Null when the server does not send a length
+  totalBytes: number | null;
+}
+
+export interface ModelVerification {
+  model: string;
+  ok: boolean;
+  missingFiles: string[];
+  corruptFiles: string[];
+}
+
+interface ManifestEntry {
+  sha256: string;
+  size: number;
+}
+
+// Hashes of every file the manager wrote or imported, to verify them later
+interface ModelManifest {
+  id: string;
+  files: Record<string, ManifestEntry>;
+  updatedAt: number;
+}
+
+export interface ModelManagerOptions {
+  cacheDir?: string;
+  // Strict offline mode: downloads are refused
+  offline?: boolean;
+  remoteHost?: string;
+}
+
+export const MODEL_MANIFEST_FILE = '.manifest.json';
+// Bundles carry their own manifest so imports can be checked before copying
+export const BUNDLE_MANIFEST_FILE = 'bundle.json';
+
+const DEFAULT_REMOTE_HOST = 'https://huggingface.co';
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+function fileSize(filePath: string): number | null {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return null;
+  }
+}
+
+function directorySize(dir: string): number {
+  let total = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    total += entry.isDirectory() ? directorySize(entryPath) : (fileSize(entryPath) ?? 0);
+  }
+  return total;
+}
+
+/**
+ * Owns the local model cache that transformers.js loads from. Downloads
+ * stream into `.part` files and are only moved into place once their SHA-256
+ * matches the hash Hugging Face publishes for LFS files; every installed
+ * file's hash is kept in a per-model manifest so the cache can be verified
+ * later. Model bundles (a folder laid out like the cache, with a bundle.json
+ * of hashes) can be imported for machines without network access.
+ */
+export class ModelManager extends EventEmitter {
+  private readonly cacheDir: string;
+  private readonly client: AxiosInstance;
+  private offline: boolean;
+
+  constructor(options: ModelManagerOptions = {}) {
+    super();
+    this.cacheDir = options.cacheDir ?? getModelCacheDir();
+    this.offline = options.offline ?? false;
+
+    const token = process.env.HF_TOKEN ?? process.env.HF_ACCESS_TOKEN;
+    this.client = axios.create({
+      baseURL: options.remoteHost ?? DEFAULT_REMOTE_HOST,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  setOffline(enabled: boolean): void {
+    this.offline = enabled;
+  }
+
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * The required models with their install state, followed by any other
+   * models found in the cache.
+   */
+  listModels(required: ModelSpec[]): ModelInfo[] {
+    const models: ModelInfo[] = required.map((spec) => {
+      const dir = getModelDir(this.cacheDir, spec.id);
+      const present = spec.files.filter((file) => fileSize(path.join(dir, file)) !== null);
+      const status: ModelStatus =
+        present.length === spec.files.length ? 'installed' : present.length > 0 ? 'incomplete' : 'missing';
+      return {
+        id: spec.id,
+        purpose: spec.purpose,
+        required: true,
+        status,
+        sizeBytes: fs.existsSync(dir) ? directorySize(dir) : 0,
+      };
+    });
+
+    for (const id of this.findCachedModels()) {
+      if (!models.some((model) => model.id === id)) {
+        models.push({
+          id,
+          purpose: null,
+          required: false,
+          status: 'installed',
+          sizeBytes: directorySize(getModelDir(this.cacheDir, id)),
+        });
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Fetches every file of the given models that is not installed yet,
+   * emitting 'progress' as bytes arrive.
+   */
+  async download(models: ModelSpec[], signal?: AbortSignal): Promise<void> {
+    if (this.offline) {
+      throw new Error('Model downloads are disabled in strict offline mode');
+    }
+
+    for (const spec of models) {
+      const dir = getModelDir(this.cacheDir, spec.id);
+      const manifest = this.readManifest(spec.id);
+      const pending = spec.files.filter((file) => {
+        const size = fileSize(path.join(dir, file));
+        return size === null || (manifest.files[file] && manifest.files[file].size !== size);
+      });
+
+      for (const [index, file] of pending.entries()) {
+        manifest.files[file] = await this.downloadFile(spec.id, file, index, pending.length, signal);
+        this.writeManifest(manifest);
+      }
+      if (pending.length > 0) {
+        console.log(`[models] Downloaded ${spec.id} (${pending.length} files)`);
+      }
+    }
+  }
+
+  /**
+   * Re-hashes a model's files against its manifest. Corrupt files are removed
+   * so the next download replaces them.
+   */
+  async verify(modelId: string): Promise<ModelVerification> {
+    const dir = getModelDir(this.cacheDir, modelId);
+    const manifest = this.readManifest(modelId);
+    const missingFiles: string[] = [];
+    const corruptFiles: string[] = [];
+
+    for (const [file, entry] of Object.entries(manifest.files)) {
+      const filePath = path.join(dir, file);
+      if (fileSize(filePath) === null) {
+        missingFiles.push(file);
+      } else if ((await hashFile(filePath)) !== entry.sha256) {
+        corruptFiles.push(file);
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+
+    if (missingFiles.length > 0 || corruptFiles.length > 0) {
+      for (const file of [...missingFiles, ...corruptFiles]) {
+        delete manifest.files[file];
+      }
+      this.writeManifest(manifest);
+      console.warn(
+        `[models] ${modelId} failed verification (missing: ${missingFiles.length}, corrupt: ${corruptFiles.length})`
+      );
+    }
+
+    return {
+      model: modelId,
+      ok: missingFiles.length === 0 && corruptFiles.length === 0,
+      missingFiles,
+      corruptFiles,
+    };
+  }
+
+  /**
+   * Copies the models of a bundle folder into the cache. Every file listed in
+   * the bundle's manifest is hashed first; a bundle with any mismatch is
+   * rejected as a whole. Returns the imported model ids.
+   */
+  async importBundle(folder: string): Promise<string[]> {
+    const bundlePath = path.join(folder, BUNDLE_MANIFEST_FILE);
+    if (!fs.existsSync(bundlePath)) {
+      throw new Error(`Not a model bundle: ${BUNDLE_MANIFEST_FILE} is missing in ${folder}`);
+    }
+
+    const bundle = JSON.parse(fs.readFileSync(bundlePath, 'utf-8')) as {
+      models?: Record<string, Record<string, string>>;
+    };
+    const models = Object.entries(bundle.models ?? {});
+    if (models.length === 0) {
+      throw new Error('Model bundle does not list any models');
+    }
+
+    for (const [modelId, files] of models) {
+      for (const [file, sha256] of Object.entries(files)) {
+        const source = path.join(getModelDir(folder, modelId), file);
+        if (fileSize(source) === null) {
+          throw new Error(`Model bundle is missing ${modelId}/${file}`);
+        }
+        if ((await hashFile(source)) !== sha256.toLowerCase()) {
+          throw new Error(`Checksum mismatch for ${modelId}/${file} in model bundle`);
+        }
+      }
+    }
+
+    for (const [modelId, files] of models) {
+      const manifest = this.readManifest(modelId);
+      for (const [file, sha256] of Object.entries(files)) {
+        const source = path.join(getModelDir(folder, modelId), file);
+        const target = path.join(getModelDir(this.cacheDir, modelId), file);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(source, target);
+        manifest.files[file] = { sha256: sha256.toLowerCase(), size: fileSize(target) ?? 0 };
+      }
+      this.writeManifest(manifest);
+      console.log(`[models] Imported ${modelId} from ${folder}`);
+    }
+
+    return models.map(([modelId]) => modelId);
+  }
+
+  private async downloadFile(
+    modelId: string,
+    file: string,
+    fileIndex: number,
+    fileCount: number,
+    signal?: AbortSignal
+  ): Promise<ManifestEntry> {
+    const url = `/${modelId}/resolve/main/${file}`;
+    const expectedSha256 = await this.fetchExpectedSha256(url, signal);
+
+    const response = await this.client.get(url, { responseType: 'stream', signal });
+    const lengthHeader = Number(response.headers['content-length']);
+    const totalBytes = Number.isFinite(lengthHeader) && lengthHeader > 0 ? lengthHeader : null;
+
+    const target = path.join(getModelDir(this.cacheDir, modelId), file);
+    const partPath = `${target}.part`;
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+
+    const hash = createHash('sha256');
+    let loadedBytes = 0;
+    const report = () => {
+      const progress: ModelDownloadProgress = {
+        model: modelId,
+        file,
+        fileIndex,
+        fileCount,
+        loadedBytes,
+        totalBytes,
+      };
+      this.emit('progress', progress);
+    };
+
+    try {
+      await pipeline(
+        response.data as Readable,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            hash.update(chunk);
+            loadedBytes += chunk.length;
+            report();
+            yield chunk;
+          }
+        },
+        fs.createWriteStream(partPath)
+      );
+    } catch (error) {
+      fs.rmSync(partPath, { force: true });
+      throw error;
+    }
+
+    const sha256 = hash.digest('hex');
+    if (expectedSha256 && sha256 !== expectedSha256) {
+      fs.rmSync(partPath, { force: true });
+      throw new Error(`Checksum mismatch for ${modelId}/${file}`);
+    }
+
+    fs.renameSync(partPath, target);
+    return { sha256, size: loadedBytes };
+  }
+
+  // LFS files carry their SHA-256 in x-linked-etag on the redirect to the
+  // CDN; small git-tracked files have none and are only hashed locally
+  private async fetchExpectedSha256(url: string, signal?: AbortSignal): Promise<string | null> {
+    const response = await this.client.head(url, {
+      maxRedirects: 0,
+      validateStatus: (status) => status < 400,
+      signal,
+    });
+    const etag = String(response.headers['x-linked-etag'] ?? '')
+      .replace(/^W\//, '')
+      .replace(/"/g, '')
+      .toLowerCase();
+    return SHA256_PATTERN.test(etag) ? etag : null;
+  }
+
+  // Model directories are `<org>/<name>`; anything with a manifest, config or
+  // ONNX weights counts as installed
+  private findCachedModels(): string[] {
+    const ids: string[] = [];
+    if (!fs.existsSync(this.cacheDir)) {
+      return ids;
+    }
+
+    for (const org of fs.readdirSync(this.cacheDir, { withFileTypes: true })) {
+      if (!org.isDirectory()) continue;
+      const orgDir = path.join(this.cacheDir, org.name);
+      for (const name of fs.readdirSync(orgDir, { withFileTypes: true })) {
+        if (!name.isDirectory()) continue;
+        const dir = path.join(orgDir, name.name);
+        if (
+          fs.existsSync(path.join(dir, MODEL_MANIFEST_FILE)) ||
+          fs.existsSync(path.join(dir, 'config.json')) ||
+          fs.existsSync(path.join(dir, 'onnx'))
+        ) {
+          ids.push(`${org.name}/${name.name}`);
+        }
+      }
+    }
+    return ids;
+  }
+
+  private readManifest(modelId: string): ModelManifest {
+    const manifestPath = path.join(getModelDir(this.cacheDir, modelId), MODEL_MANIFEST_FILE);
+    try {
+      if (fs.existsSync(manifestPath)) {
+        const raw = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+        return { id: modelId, files: raw.files ?? {}, updatedAt: raw.updatedAt ?? 0 };
+      }
+    } catch (error) {
+      console.warn(`[models] Ignoring unreadable manifest for ${modelId}:`, error);
+    }
+    return { id: modelId, files: {}, updatedAt: 0 };
+  }
+
+  private writeManifest(manifest: ModelManifest): void {
+    const dir = getModelDir(this.cacheDir, manifest.id);
+    fs.mkdirSync(dir, { recursive: true });
+    manifest.updatedAt = Date.now();
+    fs.writeFileSync(path.join(dir, MODEL_MANIFEST_FILE), JSON.stringify(manifest), 'utf-8');
+  }
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PipelineStage } from '../stage';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('PipelineStage', () => {
+  it('processes items up to the configured concurrency', async () => {
+    const pending = [deferred<number>(), deferred<number>(), deferred<number>()];
+    const processItem = vi.fn((index: number) => pending[index].promise);
+    const stage = new PipelineStage<number, number>(
+      'test',
+      { concurrency: 2, maxQueueSize: 4, overflow: 'drop-oldest' },
+      processItem
+    );
+
+    stage.push(0);
+    stage.push(1);
+    stage.push(2);
+
+    expect(processItem).toHaveBeenCalledTimes(2);
+    expect(stage.getStats()).toMatchObject({ active: 2, queued: 1 });
+
+    pending[0].resolve(0);
+    await vi.waitFor(() => expect(processItem).toHaveBeenCalledTimes(3));
+
+    pending[1].resolve(1);
+    pending[2].resolve(2);
+    await stage.onIdle();
+    expect(stage.getStats()).toMatchObject({ active: 0, queued: 0, processed: 3 });
+  });
+
+  it('emits results in push order when later items finish first', async () => {
+    const pending = [deferred<string>(), deferred<string>()];
+    const stage = new PipelineStage<number, string>(
+      'test',
+      { concurrency: 2, maxQueueSize: 4, overflow: 'drop-oldest' },
+      (index) => pending[index].promise
+    );
+    const results: string[] = [];
+    stage.on('result', (result: string) => results.push(result));
+
+    stage.push(0);
+    stage.push(1);
+    pending[1].resolve('second');
+    await Promise.resolve();
+    expect(results).toEqual([]);
+
+    pending[0].resolve('first');
+    await stage.onIdle();
+    expect(results).toEqual(['first', 'second']);
+  });
+
+  it('drops the oldest queued item when the queue overflows', async () => {
+    const blocker = deferred<void>();
+    const processed: number[] = [];
+    const stage = new PipelineStage<number>(
+      'test',
+      { concurrency: 1, maxQueueSize: 1, overflow: 'drop-oldest' },
+      async (item) => {
+        processed.push(item);
+        if (item === 0) {
+          await blocker.promise;
+        }
+      }
+    );
+    const dropped = vi.fn();
+    stage.on('dropped', dropped);
+
+    stage.push(0);
+    stage.push(1);
+    expect(stage.push(2)).toBe(true);
+
+    expect(dropped).toHaveBeenCalledWith(1);
+    blocker.resolve();
+    await stage.onIdle();
+    expect(processed).toEqual([0, 2]);
+  });
+
+  it('rejects new items under the drop-newest policy', async () => {
+    const blocker = deferred<void>();
+    const processed: number[] = [];
+    const stage = new PipelineStage<number>(
+      'test',
+      { concurrency: 1, maxQueueSize: 1, overflow: 'drop-newest' },
+      async (item) => {
+        processed.push(item);
+        if (item === 0) {
+          await blocker.promise;
+        }
+      }
+    );
+
+    stage.push(0);
+    stage.push(1);
+    expect(stage.push(2)).toBe(false);
+
+    blocker.resolve();
+    await stage.onIdle();
+    expect(processed).toEqual([0, 1]);
+    expect(stage.getStats().dropped).toBe(1);
+  });
+
+  it('reports failures and keeps processing', async () => {
+    const stage = new PipelineStage<number, number>(
+      'test',
+      { concurrency: 1, maxQueueSize: 4, overflow: 'drop-oldest' },
+      async (item) => {
+        if (item === 0) {
+          throw new Error('boom');
+        }
+        return item * 10;
+      }
+    );
+    const failed = vi.fn();
+    const results: number[] = [];
+    stage.on('failed', failed);
+    stage.on('result', (result: number) => results.push(result));
+
+    stage.push(0);
+    stage.push(1);
+    await stage.onIdle();
+
+    expect(failed).toHaveBeenCalledWith(expect.any(Error), 0);
+    expect(results).toEqual([10]);
+  });
+
+  it('reports a throwing result listener as a failure', async () => {
+    const stage = new PipelineStage<number, number>(
+      'test',
+      { concurrency: 2, maxQueueSize: 4, overflow: 'drop-oldest' },
+      async (item) => item * 10
+    );
+    const failed = vi.fn();
+    const results: number[] = [];
+    stage.on('failed', failed);
+    stage.on('result', (result: number) => {
+      if (result === 0) {
+        throw new Error('listener broke');
+      }
+      results.push(result);
+    });
+
+    stage.push(0);
+    stage.push(1);
+    await stage.onIdle();
+
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ message: 'listener broke' }), 0);
+    expect(results).toEqual([10]);
+    expect(stage.getStats()).toMatchObject({ processed: 2, failed: 1 });
+  });
+
+  it('clears queued items without waiting for them', async () => {
+    const blocker = deferred<void>();
+    const processed: number[] = [];
+    const stage = new PipelineStage<number>(
+      'test',
+      { concurrency: 1, maxQueueSize: 4, overflow: 'drop-oldest' },
+      async (item) => {
+        processed.push(item);
+        await blocker.promise;
+      }
+    );
+
+    stage.push(0);
+    stage.push(1);
+    stage.push(2);
+    stage.clear();
+
+    blocker.resolve();
+    await stage.onIdle();
+    expect(processed).toEqual([0]);
+    expect(stage.getStats().dropped).toBe(2);
+  });
+});
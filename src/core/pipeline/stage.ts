@@ -0,0 +1,187 @@
+import { EventEmitter } from 'events';
+
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest';
+
+export interface StageConfig {
+  concurrency: number;
+  maxQueueSize: number;
+  overflow: OverflowPolicy;
+}
+
+export interface StageStats {
+  queued: number;
+  active: number;
+  processed: number;
+  dropped: number;
+  failed: number;
+}
+
+interface StageEntry<TIn, TOut> {
+  item: TIn;
+  settled: boolean;
+  hasResult: boolean;
+  result?: TOut;
+}
+
+/**
+ * A bounded work queue that processes items with limited concurrency.
+ *
+ * Results are emitted as `result` events in the order items were pushed, even
+ * when concurrency > 1 lets later items finish first. When the queue is full
+ * the overflow policy decides whether the oldest queued item or the new item
+ * is dropped (`dropped` event), so producers are never blocked. Failures,
+ * including errors thrown by `result` listeners, are reported as `failed`
+ * events and do not stop the stage.
+ */
+export class PipelineStage<TIn, TOut = void> extends EventEmitter {
+  private readonly name: string;
+  private config: StageConfig;
+  private readonly processItem: (item: TIn) => Promise<TOut>;
+  private queue: StageEntry<TIn, TOut>[] = [];
+  private inFlight: StageEntry<TIn, TOut>[] = [];
+  private pendingResults: StageEntry<TIn, TOut>[] = [];
+  private idleWaiters: Array<() => void> = [];
+  private stats: StageStats = { queued: 0, active: 0, processed: 0, dropped: 0, failed: 0 };
+
+  constructor(name: string, config: StageConfig, processItem: (item: TIn) => Promise<TOut>) {
+    super();
+    this.name = name;
+    this.config = { ...config };
+    this.processItem = processItem;
+  }
+
+  configure(config: Partial<StageConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.pump();
+  }
+
+  getConfig(): StageConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Enqueues an item. Returns false when the item itself was dropped because
+   * the queue is full and the policy is `drop-newest`.
+   */
+  push(item: TIn): boolean {
+    const entry: StageEntry<TIn, TOut> = {
+      item,
+      settled: false,
+      hasResult: false,
+    };
+
+    if (this.queue.length >= this.config.maxQueueSize && this.isSaturated()) {
+      if (this.config.overflow === 'drop-newest') {
+        this.drop(entry);
+        return false;
+      }
+      const oldest = this.queue.shift();
+      if (oldest) {
+        this.drop(oldest);
+      }
+    }
+
+    this.queue.push(entry);
+    this.pendingResults.push(entry);
+    this.flushResults();
+    this.pump();
+    return true;
+  }
+
+  /**
+   * Drops all queued items. Items already being processed run to completion.
+   */
+  clear(): void {
+    const dropped = this.queue;
+    this.queue = [];
+    dropped.forEach((entry) => this.drop(entry));
+    this.flushResults();
+    this.notifyIdle();
+  }
+
+  isIdle(): boolean {
+    return this.queue.length === 0 && this.inFlight.length === 0;
+  }
+
+  async onIdle(): Promise<void> {
+    if (this.isIdle()) {
+      return;
+    }
+    await new Promise<void>((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  getStats(): StageStats {
+    return {
+      ...this.stats,
+      queued: this.queue.length,
+      active: this.inFlight.length,
+    };
+  }
+
+  private isSaturated(): boolean {
+    return this.inFlight.length >= Math.max(1, this.config.concurrency);
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0 && !this.isSaturated()) {
+      const entry = this.queue.shift()!;
+      this.inFlight.push(entry);
+      void this.run(entry);
+    }
+  }
+
+  private async run(entry: StageEntry<TIn, TOut>): Promise<void> {
+    try {
+      entry.result = await this.processItem(entry.item);
+      entry.hasResult = true;
+      this.stats.processed++;
+    } catch (error) {
+      this.stats.failed++;
+      if (process.env.DEBUG_AUDIO === 'true') {
+        console.warn(`[pipeline:${this.name}] Item failed:`, error);
+      }
+      this.emit('failed', error, entry.item);
+    } finally {
+      entry.settled = true;
+      this.inFlight = this.inFlight.filter((candidate) => candidate !== entry);
+      this.flushResults();
+      this.pump();
+      this.notifyIdle();
+    }
+  }
+
+  private drop(entry: StageEntry<TIn, TOut>): void {
+    entry.settled = true;
+    this.stats.dropped++;
+    if (process.env.DEBUG_AUDIO === 'true') {
+      console.warn(`[pipeline:${this.name}] Dropping queued item`);
+    }
+    this.emit('dropped', entry.item);
+  }
+
+  private flushResults(): void {
+    while (this.pendingResults.length > 0 && this.pendingResults[0].settled) {
+      const entry = this.pendingResults.shift()!;
+      if (!entry.hasResult) {
+        continue;
+      }
+      // A throwing listener is reported like a failed task; it must not skip
+      // the results behind it or escape as an unhandled rejection
+      try {
+        this.emit('result', entry.result, entry.item);
+      } catch (error) {
+        this.stats.failed++;
+        this.emit('failed', error, entry.item);
+      }
+    }
+  }
+
+  private notifyIdle(): void {
+    if (!this.isIdle()) {
+      return;
+    }
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
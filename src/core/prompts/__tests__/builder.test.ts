@@ -41,6 +41,12 @@ describe('PromptBuilder', () => {
       expect(result.systemPrompt).toContain('formal');
     });
 
+    it('asks for suggestions in the conversation language', () => {
+      const result = builder.buildPrompt('job_interviews', '', '', 'friendly', 'other', 'de');
+
+      expect(result.systemPrompt).toContain('Write every suggestion in German');
+    });
+
     it('should handle different modes', () => {
       const modes: Array<'education' | 'work_meetings' | 'job_interviews'> = [
         'education',
@@ -78,6 +84,18 @@ describe('PromptBuilder', () => {
       expect(result.userPrompt).toContain('Conversation History');
       expect(result.userPrompt).toContain(conversationContext);
     });
+
+    it('should say who spoke the most recent turn', () => {
+      const result = builder.buildPrompt(
+        'job_interviews',
+        'other: What is your biggest weakness?',
+        '',
+        'friendly',
+        'other'
+      );
+
+      expect(result.userPrompt).toContain('most recent turn was spoken by another participant');
+    });
   });
 
   describe('getModeOutputSchema', () => {
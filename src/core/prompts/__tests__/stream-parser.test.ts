@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { SuggestionStreamParser } from '../stream-parser';
+
+describe('SuggestionStreamParser', () => {
+  it('extracts partial suggestions from incomplete JSON', () => {
+    const result = SuggestionStreamParser.parse('{"suggestions": ["Use the STAR me');
+    expect(result.suggestions).toEqual(['Use the STAR me']);
+  });
+
+  it('extracts complete suggestions and use case', () => {
+    const result = SuggestionStreamParser.parse(
+      '{"use_case": "interview_behavioral_nudge", "suggestions": ["First", "Second"]}'
+    );
+    expect(result.suggestions).toEqual(['First', 'Second']);
+    expect(result.useCase).toBe('interview_behavioral_nudge');
+  });
+
+  it('decodes escape sequences and ignores truncated escapes', () => {
+    expect(SuggestionStreamParser.parse('{"suggestions": ["Say \\"hi\\""]}').suggestions).toEqual([
+      'Say "hi"',
+    ]);
+    expect(SuggestionStreamParser.parse('{"suggestions": ["Trailing \\').suggestions).toEqual([
+      'Trailing',
+    ]);
+  });
+
+  it('returns nothing before the suggestions array starts', () => {
+    expect(SuggestionStreamParser.parse('Here is my answer: {"sugg').suggestions).toEqual([]);
+  });
+
+  it('only reports changes when pushing chunks', () => {
+    const parser = new SuggestionStreamParser();
+    expect(parser.push('{"suggestions": [')).toBeNull();
+    expect(parser.push('"Ask')).toEqual({ suggestions: ['Ask'] });
+    expect(parser.push(' ')).toBeNull();
+    expect(parser.push('about scope"')).toEqual({ suggestions: ['Ask about scope'] });
+    expect(parser.getText()).toBe('{"suggestions": ["Ask about scope"');
+  });
+});
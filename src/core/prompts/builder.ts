@@ -1,10 +1,18 @@
 // Load JSON at runtime using fs to avoid import path issues
 import * as fs from 'fs';
 import * as path from 'path';
+import type { Speaker } from '../context/manager';
+import { getLanguageName } from '../language';
 
 const promptLibraryPath = path.join(__dirname, '../../../ai_prompt_library_final_v2.1.json');
 const promptLibrary = JSON.parse(fs.readFileSync(promptLibraryPath, 'utf-8'));
 
+const SPEAKER_DESCRIPTIONS: Record<Speaker, string> = {
+  user: 'the user you are assisting',
+  other: 'another participant',
+  system: 'the system',
+};
+
 type PromptMode = 'education' | 'work_meetings' | 'job_interviews' | 'chat_messaging' | 'simulation_coaching';
 
 interface PromptLibrary {
@@ -32,7 +40,9 @@ export class PromptBuilder {
     mode: PromptMode,
     conversationContext: string,
     ragContext: string,
-    tone: 'formal' | 'friendly' | 'slang' = 'friendly'
+    tone: 'formal' | 'friendly' | 'slang' = 'friendly',
+    latestSpeaker?: Speaker,
+    language?: string
   ): { systemPrompt: string; userPrompt: string } {
     const coreMeta = this.library.core_meta_prompt;
     const modeConfig = this.library.prompt_modes[mode];
@@ -48,6 +58,11 @@ export class PromptBuilder {
       coreMeta.fallback_rules,
       modeConfig.prompt_text,
     ];
+    if (language) {
+      systemPromptParts.push(
+        `The conversation is in ${getLanguageName(language)}. Write every suggestion in ${getLanguageName(language)}, keeping JSON keys in English.`
+      );
+    }
 
     const systemPrompt = systemPromptParts.join('\n\n');
 
@@ -58,7 +73,14 @@ export class PromptBuilder {
       userPromptParts.push(`RAG Context:\n${ragContext}\n`);
     }
 
-    userPromptParts.push(`Conversation History:\n${conversationContext}\n`);
+    userPromptParts.push(
+      `Conversation History (speaker "user" is the person you assist, "other" is anyone else):\n${conversationContext}\n`
+    );
+    if (latestSpeaker) {
+      userPromptParts.push(
+        `The most recent turn was spoken by ${SPEAKER_DESCRIPTIONS[latestSpeaker]}.`
+      );
+    }
     userPromptParts.push(
       `Generate suggestions based on the most recent conversation turn.`
     );
@@ -0,0 +1,124 @@
+export interface PartialSuggestions {
+  suggestions: string[];
+  useCase?: string;
+}
+
+/**
+ * Incrementally extracts the `suggestions` array from a JSON response that is
+ * still being streamed, e.g. `{"suggestions": ["Use the STAR me` yields
+ * `['Use the STAR me']`. Complete validation still happens in OutputValidator
+ * once the full response is available.
+ */
+export class SuggestionStreamParser {
+  private buffer = '';
+  private lastSnapshot = '';
+
+  /**
+   * Appends a streamed chunk. Returns the current partial suggestions when they
+   * changed since the previous call, otherwise null.
+   */
+  push(chunk: string): PartialSuggestions | null {
+    this.buffer += chunk;
+
+    const partial = SuggestionStreamParser.parse(this.buffer);
+    if (partial.suggestions.length === 0) {
+      return null;
+    }
+
+    const snapshot = JSON.stringify(partial);
+    if (snapshot === this.lastSnapshot) {
+      return null;
+    }
+
+    this.lastSnapshot = snapshot;
+    return partial;
+  }
+
+  getText(): string {
+    return this.buffer;
+  }
+
+  reset(): void {
+    this.buffer = '';
+    this.lastSnapshot = '';
+  }
+
+  static parse(text: string): PartialSuggestions {
+    const result: PartialSuggestions = { suggestions: [] };
+
+    const useCaseMatch = text.match(/"use_case"\s*:\s*"([^"\\]*)"/);
+    if (useCaseMatch) {
+      result.useCase = useCaseMatch[1];
+    }
+
+    const keyMatch = /"suggestions"\s*:\s*\[/.exec(text);
+    if (!keyMatch) {
+      return result;
+    }
+
+    let index = keyMatch.index + keyMatch[0].length;
+    while (index < text.length) {
+      const char = text[index];
+
+      if (char === ']') {
+        break;
+      }
+
+      if (char !== '"') {
+        index++;
+        continue;
+      }
+
+      const { value, end } = SuggestionStreamParser.readString(text, index + 1);
+      const trimmed = value.trim();
+      if (trimmed.length > 0) {
+        result.suggestions.push(trimmed);
+      }
+      if (end >= text.length) {
+        break;
+      }
+      index = end + 1;
+    }
+
+    return result;
+  }
+
+  // Reads a JSON string body starting after the opening quote; tolerates truncation
+  private static readString(text: string, start: number): { value: string; end: number } {
+    let value = '';
+    let index = start;
+
+    while (index < text.length) {
+      const char = text[index];
+
+      if (char === '"') {
+        return { value, end: index };
+      }
+
+      if (char === '\\') {
+        const next = text[index + 1];
+        if (next === undefined) {
+          break;
+        }
+        if (next === 'u') {
+          const hex = text.slice(index + 2, index + 6);
+          if (hex.length < 4) {
+            break;
+          }
+          value += String.fromCharCode(parseInt(hex, 16));
+          index += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        value += escapes[next] ?? next;
+        index += 2;
+        continue;
+      }
+
+      value += char;
+      index++;
+    }
+
+    return { value, end: text.length };
+  }
+}
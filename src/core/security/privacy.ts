@@ -2,6 +2,15 @@ interface PrivacyConfig {
   offlineFirst: boolean;
   cloudFallback: boolean;
   dataRetention: number; // days
+  strictOffline?: boolean;
+}
+
+/**
+ * Whether cloud services may be used at all. Strict offline mode overrides
+ * the cloud fallback setting.
+ */
+export function allowsCloudServices(privacy: PrivacyConfig): boolean {
+  return privacy.cloudFallback && !privacy.strictOffline;
 }
 
 export class SecureDataFlow {
@@ -50,7 +59,7 @@ export class SecureDataFlow {
   }
 
   shouldUseCloud(): boolean {
-    return this.privacyConfig.cloudFallback && !this.privacyConfig.offlineFirst;
+    return allowsCloudServices(this.privacyConfig) && !this.privacyConfig.offlineFirst;
   }
 }
 
@@ -0,0 +1,50 @@
+import type { SessionConfig, Suggestion } from './engine';
+import type { TranscriptEntry } from './session';
+
+// Suggestions shown for one transcript
+export interface SuggestionRecord {
+  timestamp: number;
+  // The transcript text the suggestions respond to
+  transcript: string;
+  suggestions: Suggestion[];
+  // Time from the start of generation to the final suggestions
+  latencyMs: number;
+}
+
+// Audio file a session was transcribed from
+export interface RecordingInfo {
+  fileName: string;
+  durationSeconds: number;
+  // Wall-clock time the pipeline took for the whole file
+  processingMs: number;
+}
+
+// A finished session: what was said and what was suggested
+export interface SessionRecord {
+  id: string;
+  createdAt: number;
+  mode: SessionConfig['mode'];
+  language: SessionConfig['language'];
+  recording?: RecordingInfo;
+  transcripts: TranscriptEntry[];
+  suggestions: SuggestionRecord[];
+}
+
+// Persists finished sessions
+export interface SessionRecordStore {
+  save(record: SessionRecord): void;
+}
+
+// Decoded audio handed to SessionManager.processRecording
+export interface RecordingInput {
+  fileName: string;
+  // Mono samples at `sampleRate`
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface RecordingProgress {
+  fileName: string;
+  processedSeconds: number;
+  durationSeconds: number;
+}
@@ -0,0 +1,74 @@
+import type { SessionConfig, Suggestion } from './engine';
+import type { CancellationReason } from './llm/cancellation';
+import type { PartialTranscript, TranscriptEntry } from './session';
+import type { RecordingProgress, SuggestionRecord } from './session-record';
+
+export interface SessionStatus {
+  isActive: boolean;
+  mode?: SessionConfig['mode'];
+  // False while the "pause" voice command holds transcription
+  listening: boolean;
+  // True while a recorded file is being processed
+  recording: boolean;
+}
+
+// What caused a status event; capture sinks start and stop audio on these
+export type SessionStatusChange =
+  | 'started'
+  | 'paused'
+  | 'stopped'
+  | 'listening'
+  | 'recording-started'
+  | 'recording-finished';
+
+export type TranscriptEvent =
+  // A new final transcript; `transcripts` is the whole session so far
+  | { type: 'transcript'; phase: 'final'; entry: TranscriptEntry; transcripts: TranscriptEntry[] }
+  // The list changed without a new entry: cleared, bookmarked or a speaker renamed
+  | { type: 'transcript'; phase: 'updated'; transcripts: TranscriptEntry[] }
+  | { type: 'transcript'; phase: 'partial'; partial: PartialTranscript };
+
+export type SuggestionEvent =
+  | { type: 'suggestion'; phase: 'final'; record: SuggestionRecord }
+  | { type: 'suggestion'; phase: 'partial'; suggestions: Suggestion[] }
+  | { type: 'suggestion'; phase: 'cancelled'; reason: CancellationReason }
+  // The session ended and its suggestions no longer apply
+  | { type: 'suggestion'; phase: 'cleared' };
+
+export interface StatusEvent {
+  type: 'status';
+  change: SessionStatusChange;
+  status: SessionStatus;
+}
+
+export interface SessionErrorEvent {
+  type: 'error';
+  stage: 'audio' | 'transcription' | 'suggestions';
+  message: string;
+}
+
+export type SessionMetrics =
+  | { stage: 'transcription'; latencyMs: number; audioSeconds: number }
+  | { stage: 'suggestions'; latencyMs: number; count: number }
+  | ({ stage: 'recording' } & RecordingProgress);
+
+export interface MetricsEvent {
+  type: 'metrics';
+  metrics: SessionMetrics;
+}
+
+export type SessionEvent =
+  | TranscriptEvent
+  | SuggestionEvent
+  | StatusEvent
+  | SessionErrorEvent
+  | MetricsEvent;
+
+/**
+ * Receives everything a session produces. Any number of sinks can be attached
+ * to a SessionManager; each sees every event in order. Events are shared
+ * between sinks and must not be mutated.
+ */
+export interface SessionSink {
+  handle(event: SessionEvent): void;
+}
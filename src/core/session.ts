@@ -1,48 +1,255 @@
 import { EventEmitter } from 'events';
-import { AIConsulEngine, SessionConfig, Suggestion } from './engine';
-import { BrowserWindow } from 'electron';
-import { VADProcessor } from './audio/vad';
+import { AIConsulEngine, EngineConfig, SessionConfig } from './engine';
+import type { TranscribedWord } from './audio/whisper-local';
+import type { Speaker } from './context/manager';
+import { VADProcessor, VADResult } from './audio/vad';
+import {
+  CancellationReason,
+  isGenerationCancelled,
+} from './llm/cancellation';
+import { PipelineStage, StageConfig } from './pipeline/stage';
+import { WordWindow, joinWords, removeRepeatedPrefix, selectWords } from './audio/overlap';
+import { HallucinationFilter, HallucinationRule } from './audio/hallucination-filter';
+import {
+  DEFAULT_CALIBRATION_MS,
+  NoiseFloorCalibrator,
+  VADCalibrationStore,
+} from './audio/vad-calibration';
+import { VoiceCommandAction, VoiceCommandRecognizer } from './audio/voice-commands';
+import { randomUUID } from 'crypto';
+import type {
+  RecordingInput,
+  SessionRecord,
+  SessionRecordStore,
+  SuggestionRecord,
+} from './session-record';
+import type {
+  SessionErrorEvent,
+  SessionEvent,
+  SessionSink,
+  SessionStatus,
+  SessionStatusChange,
+} from './session-sink';
 
-interface TranscriptEntry {
+const DEFAULT_LATENCY_TARGET_MS = 5000;
+const DEFAULT_PARTIAL_INTERVAL_MS = 1000;
+// Recordings are fed in the same chunk size the renderer captures
+const RECORDING_CHUNK_SAMPLES = 4096;
+
+// Transcription keeps a short backlog so bursts of speech survive a slow model;
+// suggestions only ever care about the latest transcript.
+const DEFAULT_TRANSCRIPTION_STAGE: StageConfig = {
+  concurrency: 1,
+  maxQueueSize: 4,
+  overflow: 'drop-oldest',
+};
+
+const DEFAULT_SUGGESTION_STAGE: StageConfig = {
+  concurrency: 1,
+  maxQueueSize: 1,
+  overflow: 'drop-oldest',
+};
+
+export interface TranscriptEntry {
+  text: string;
+  timestamp: number;
+  speaker: Speaker;
+  // Diarized voice on a shared channel, with its display name
+  speakerId?: string;
+  speakerLabel?: string;
+  // Marked with the "bookmark" voice command
+  bookmarked?: boolean;
+  // Seconds from session start, so entries line up with a recording
+  start: number;
+  end: number;
+  // Mean token probability (0-1); null when the transcriber does not report it
+  confidence: number | null;
+  // Word timings, also relative to session start; null when unavailable
+  words: TranscribedWord[] | null;
+  // ISO 639-1 code the segment was transcribed in; null when unknown
+  language: string | null;
+}
+
+type SegmentReason = 'vad-pause' | 'max-buffer';
+
+interface SpeechSegment {
+  audio: Float32Array;
+  sampleRate: number;
+  reason: SegmentReason;
+  source: AudioChunkSource;
+  // Whether the channel may carry several voices that need diarizing
+  diarize: boolean;
+  // Set when the segment shares audio with a neighbour after a forced cut
+  words?: WordWindow;
+  // Seconds from session start to the first sample of `audio`
+  start: number;
+  // Share of `audio` the VAD classed as speech
+  speechRatio: number;
+  epoch: number;
+}
+
+interface OverlapTail {
+  audio: Float32Array;
+  // Seconds from the session start, taken from the channel's sample count
+  start: number;
+}
+
+// Transcript dropped as likely Whisper junk, reported for tuning the rules
+export interface FilteredTranscript {
+  source: AudioChunkSource;
+  text: string;
+  rule: HallucinationRule;
+  timestamp: number;
+}
+
+// Interim text for a segment that is still being spoken; an empty text
+// clears the channel's partial once its final transcript is in
+export interface PartialTranscript {
+  source: AudioChunkSource;
   text: string;
   timestamp: number;
 }
 
+// Per-channel bookkeeping for interim decodes
+interface PartialState {
+  inFlight: boolean;
+  // Buffered samples at the last partial decode
+  decodedSamples: number;
+  // Bumped whenever the channel's buffer is handed off, so late results are dropped
+  generation: number;
+}
+
+interface TranscribedSegment {
+  text: string;
+  // Relative to the segment audio and limited to the words the segment owns
+  words: TranscribedWord[] | null;
+  confidence: number | null;
+  language: string | null;
+  // Overlapping text that could not be trimmed by word timestamps
+  untrimmedOverlap: boolean;
+  speaker: Speaker;
+  speakerId: string | null;
+}
+
+interface SuggestionRequest {
+  transcription: string;
+  speaker: Speaker;
+  speakerId?: string;
+  language: string | null;
+  epoch: number;
+}
+
+// Which capture channel a chunk came from
+export type AudioChunkSource = 'microphone' | 'system';
+
+// The microphone carries the user's voice; system audio carries the other
+// participants (e.g. the far end of a call)
+const SPEAKER_BY_SOURCE: Record<AudioChunkSource, Speaker> = {
+  microphone: 'user',
+  system: 'other',
+};
+
 export interface AudioChunk {
   data: Float32Array;
   sampleRate: number;
   channels: number;
   timestamp: number;
   maxAmplitude?: number;
+  source?: AudioChunkSource;
 }
 
 export class SessionManager extends EventEmitter {
   private engine: AIConsulEngine;
   private isActive = false;
   private currentConfig: SessionConfig | null = null;
-  private mainWindow: BrowserWindow | null = null;
-  private companionWindow: BrowserWindow | null = null;
-  private transcriptWindow: BrowserWindow | null = null;
-  private speechBuffer: Float32Array[] = [];
-  private isTranscribing = false;
+  private sinks = new Set<SessionSink>();
+  // Speech buffered per capture channel so each channel is segmented on its own
+  private speechBuffers = new Map<AudioChunkSource, Float32Array[]>();
+  // Channels that delivered audio this session
+  private seenSources = new Set<AudioChunkSource>();
+  private partialStates = new Map<AudioChunkSource, PartialState>();
   private currentSampleRate = 16000;
   private targetSampleRate = 16000;
   private readonly maxBufferedDurationSeconds = 5.5;
+  // Audio carried over from a forced cut into the next segment
+  private readonly segmentOverlapSeconds = 1;
+  private overlapTails = new Map<AudioChunkSource, OverlapTail>();
+  // Samples received per channel this session, and where its buffered speech began
+  private receivedSamples = new Map<AudioChunkSource, number>();
+  private speechStarts = new Map<AudioChunkSource, number>();
+  // Text of the last forced segment, for trimming overlap without timestamps
+  private forcedSegmentTexts = new Map<AudioChunkSource, string>();
+  // Samples in each channel's buffer that the VAD classed as speech
+  private speechSampleCounts = new Map<AudioChunkSource, number>();
+  private hallucinationFilter = new HallucinationFilter();
+  private calibrationStore: VADCalibrationStore | null = null;
+  // Measures the microphone's noise floor during the first seconds of a session
+  private noiseCalibrator: NoiseFloorCalibrator | null = null;
+  private microphoneId = 'default';
+  // Hands-free commands heard on the microphone; null unless enabled
+  private voiceCommands: VoiceCommandRecognizer | null = null;
+  // Set by the "pause" voice command: audio is only checked for commands
+  private listeningPaused = false;
+  // A bookmark spoken before any transcript applies to the next one
+  private pendingBookmark = false;
   private transcripts: TranscriptEntry[] = [];
+  private suggestionLog: SuggestionRecord[] = [];
+  private recordStore: SessionRecordStore | null = null;
+  // True while a recorded file is fed through the pipeline
+  private replaying = false;
+  private generationController: AbortController | null = null;
+  private generationTimer: NodeJS.Timeout | null = null;
+  private transcriptionStage: PipelineStage<SpeechSegment, TranscribedSegment>;
+  private suggestionStage: PipelineStage<SuggestionRequest>;
+  // Bumped on start/stop so work queued by an earlier session is discarded
+  private sessionEpoch = 0;
 
   constructor(engine: AIConsulEngine) {
     super();
     this.engine = engine;
+
+    this.transcriptionStage = new PipelineStage(
+      'transcription',
+      DEFAULT_TRANSCRIPTION_STAGE,
+      (segment) => this.transcribeSegment(segment)
+    );
+    this.transcriptionStage.on(
+      'result',
+      (transcribed: TranscribedSegment, segment: SpeechSegment) => {
+        this.handleTranscription(transcribed, segment);
+      }
+    );
+    this.transcriptionStage.on('failed', (error: unknown) => {
+      console.error('[session] Transcription failed:', error);
+      this.reportError('transcription', error);
+    });
+    this.transcriptionStage.on('dropped', (segment: SpeechSegment) => {
+      console.warn('[session] Transcription backlog full, dropped segment:', {
+        duration: segment.audio.length / segment.sampleRate,
+      });
+    });
+
+    this.suggestionStage = new PipelineStage(
+      'suggestions',
+      DEFAULT_SUGGESTION_STAGE,
+      (request) => this.generateSuggestionsFor(request)
+    );
+  }
+
+  addSink(sink: SessionSink): void {
+    this.sinks.add(sink);
+  }
+
+  removeSink(sink: SessionSink): void {
+    this.sinks.delete(sink);
+  }
+
+  setCalibrationStore(store: VADCalibrationStore | null): void {
+    this.calibrationStore = store;
   }
 
-  setWindows(
-    mainWindow: BrowserWindow,
-    companionWindow: BrowserWindow,
-    transcriptWindow?: BrowserWindow
-  ): void {
-    this.mainWindow = mainWindow;
-    this.companionWindow = companionWindow;
-    this.transcriptWindow = transcriptWindow ?? null;
+  setRecordStore(store: SessionRecordStore | null): void {
+    this.recordStore = store;
   }
 
   private resampleBuffer(
@@ -105,33 +312,206 @@ export class SessionManager extends EventEmitter {
           ? chunk.maxAmplitude
           : this.computeMaxAmplitude(audioData);
 
-      const vadResult = await vad.process(audioData, maxAmplitude);
+      const source = chunk.source ?? 'microphone';
+      this.seenSources.add(source);
+      if (source === 'microphone' && this.noiseCalibrator) {
+        this.measureNoiseFloor(vad, maxAmplitude, audioData.length);
+      }
+      const vadResult = await vad.process(audioData, maxAmplitude, source);
+      const speechBuffer = this.getSpeechBuffer(source);
 
       if (process.env.DEBUG_AUDIO === 'true') {
-        console.log('[session] VAD result:', vadResult, 'buffer length:', this.speechBuffer.length);
+        console.log('[session] VAD result:', vadResult, source, 'buffer length:', speechBuffer.length);
+      }
+
+      const chunkStart = (this.receivedSamples.get(source) ?? 0) / this.targetSampleRate;
+      this.receivedSamples.set(source, (this.receivedSamples.get(source) ?? 0) + audioData.length);
+
+      if (source === 'microphone' && this.voiceCommands) {
+        const command = await this.detectVoiceCommand(vad, vadResult, audioData, maxAmplitude, chunkStart);
+        if (command) {
+          // The command itself is not part of the conversation
+          this.discardBufferedSpeech(source);
+          this.executeVoiceCommand(command);
+          return;
+        }
+      }
+
+      if (this.listeningPaused) {
+        return;
       }
 
       if (vadResult.speech) {
-        this.speechBuffer.push(audioData);
+        if (speechBuffer.length === 0) {
+          this.speechStarts.set(source, chunkStart);
+        }
+        speechBuffer.push(audioData);
+        this.speechSampleCounts.set(source, (this.speechSampleCounts.get(source) ?? 0) + audioData.length);
 
-        const totalBufferedSamples = this.getBufferedSampleCount();
+        const totalBufferedSamples = this.getBufferedSampleCount(source);
         const maxSamples = Math.floor(this.maxBufferedDurationSeconds * this.targetSampleRate);
 
-        if (totalBufferedSamples >= maxSamples && !this.isTranscribing) {
+        if (totalBufferedSamples >= maxSamples) {
           if (process.env.DEBUG_AUDIO === 'true') {
             console.log('[session] Max buffered duration reached, forcing transcription');
           }
-          await this.transcribeBufferedSpeech('max-buffer');
+          this.enqueueBufferedSpeech(source, 'max-buffer');
+        } else if (!vadResult.pause) {
+          this.requestPartialTranscription(source);
         }
       }
 
-      if (vadResult.pause && this.speechBuffer.length > 0 && !this.isTranscribing) {
-        await this.transcribeBufferedSpeech('vad-pause');
+      // Quiet chunks inside an utterance, including right after a forced cut,
+      // are kept so the next segment stays contiguous and word timings aligned
+      const inUtterance = speechBuffer.length > 0 || this.overlapTails.has(source);
+      if (!vadResult.speech && !vadResult.pause && inUtterance) {
+        if (speechBuffer.length === 0) {
+          this.speechStarts.set(source, chunkStart);
+        }
+        speechBuffer.push(audioData);
+      }
+
+      // A pause straight after a forced cut flushes the overlap tail on its own,
+      // rather than leaving it to lead an utterance that starts much later
+      if (vadResult.pause && (this.getSpeechBuffer(source).length > 0 || this.overlapTails.has(source))) {
+        this.enqueueBufferedSpeech(source, 'vad-pause');
       }
     } catch (error) {
       console.error('Session processing error:', error);
-      this.emit('error', error);
+      this.reportError('audio', error);
+    }
+  }
+
+  /**
+   * Starts measuring the microphone's noise floor. A calibration stored for
+   * the same device is applied right away so the first seconds do not rely
+   * on the configured default.
+   */
+  private startNoiseCalibration(config: SessionConfig): void {
+    this.microphoneId = config.microphoneId || 'default';
+    const settings = this.engine.getConfig().vad?.calibration;
+
+    const stored = this.calibrationStore?.get(this.microphoneId);
+    if (stored) {
+      this.engine.getVADProcessor()?.setEnergyThreshold(stored.energyThreshold, 'microphone');
+    }
+
+    this.noiseCalibrator =
+      settings?.enabled === false
+        ? null
+        : new NoiseFloorCalibrator(settings?.durationMs ?? DEFAULT_CALIBRATION_MS);
+  }
+
+  private measureNoiseFloor(vad: VADProcessor, peak: number, sampleCount: number): void {
+    const calibration = this.noiseCalibrator?.add(peak, (sampleCount / this.targetSampleRate) * 1000);
+    if (!calibration) {
+      return;
+    }
+
+    this.noiseCalibrator = null;
+    vad.setEnergyThreshold(calibration.energyThreshold, 'microphone');
+    this.calibrationStore?.save(this.microphoneId, calibration);
+    console.log('[session] Microphone calibrated:', {
+      device: this.microphoneId,
+      noiseFloor: calibration.noiseFloor.toFixed(4),
+      energyThreshold: calibration.energyThreshold.toFixed(4),
+    });
+    this.emit('vad-calibrated', { deviceId: this.microphoneId, calibration });
+  }
+
+  private async detectVoiceCommand(
+    vad: VADProcessor,
+    vadResult: VADResult,
+    audio: Float32Array,
+    maxAmplitude: number,
+    chunkStart: number
+  ): Promise<VoiceCommandAction | null> {
+    let keyword = vadResult.keyword ?? null;
+    // The quiet tail the VAD still counts as speech is not classified
+    const voiced = vadResult.speech && maxAmplitude >= vad.getEnergyThreshold('microphone');
+    if (vadResult.keyword === undefined && voiced) {
+      try {
+        keyword = (await this.engine.getKeywordSpotter()?.spot(audio)) ?? null;
+      } catch (error) {
+        console.warn('[session] Keyword spotting failed:', error);
+      }
+    }
+
+    return (
+      this.voiceCommands?.process({
+        speech: vadResult.speech,
+        pause: vadResult.pause,
+        keyword,
+        startMs: chunkStart * 1000,
+        durationMs: (audio.length / this.targetSampleRate) * 1000,
+      }) ?? null
+    );
+  }
+
+  private executeVoiceCommand(command: VoiceCommandAction): void {
+    console.log(`[session] Voice command: ${command}`);
+
+    switch (command) {
+      case 'pause':
+        this.listeningPaused = true;
+        for (const source of this.seenSources) {
+          this.discardBufferedSpeech(source);
+        }
+        this.cancelSuggestionGeneration('session-paused');
+        break;
+      case 'resume':
+        this.listeningPaused = false;
+        break;
+      case 'regenerate':
+        this.regenerateSuggestions();
+        break;
+      case 'bookmark':
+        this.addBookmark();
+        break;
+    }
+
+    this.publishStatus('listening');
+    this.emit('voice-command', command);
+  }
+
+  private discardBufferedSpeech(source: AudioChunkSource): void {
+    this.speechBuffers.set(source, []);
+    this.speechSampleCounts.delete(source);
+    this.speechStarts.delete(source);
+    this.overlapTails.delete(source);
+    this.resetPartialState(source);
+    this.publishPartialTranscript({ source, text: '', timestamp: Date.now() });
+  }
+
+  /**
+   * Asks for new suggestions for the latest transcript, replacing any that are
+   * still being generated.
+   */
+  regenerateSuggestions(): void {
+    const latest = this.transcripts[this.transcripts.length - 1];
+    if (!latest || !this.isActive) {
+      return;
+    }
+
+    this.cancelSuggestionGeneration('superseded');
+    this.suggestionStage.push({
+      transcription: latest.text,
+      speaker: latest.speaker,
+      speakerId: latest.speakerId,
+      language: latest.language,
+      epoch: this.sessionEpoch,
+    });
+  }
+
+  private addBookmark(): void {
+    const latest = this.transcripts[this.transcripts.length - 1];
+    if (!latest) {
+      this.pendingBookmark = true;
+      return;
     }
+
+    latest.bookmarked = true;
+    this.publishTranscripts();
   }
 
   private computeMaxAmplitude(buffer: Float32Array): number {
@@ -145,56 +525,423 @@ export class SessionManager extends EventEmitter {
     return max;
   }
 
-  private getBufferedSampleCount(): number {
-    return this.speechBuffer.reduce((sum, chunk) => sum + chunk.length, 0);
+  private getSpeechBuffer(source: AudioChunkSource): Float32Array[] {
+    let buffer = this.speechBuffers.get(source);
+    if (!buffer) {
+      buffer = [];
+      this.speechBuffers.set(source, buffer);
+    }
+    return buffer;
   }
 
-  private async transcribeBufferedSpeech(reason: 'vad-pause' | 'max-buffer'): Promise<void> {
-    if (this.speechBuffer.length === 0 || this.isTranscribing) {
+  private getBufferedSampleCount(source: AudioChunkSource): number {
+    return this.getSpeechBuffer(source).reduce((sum, chunk) => sum + chunk.length, 0);
+  }
+
+  /**
+   * Hands a channel's buffered speech to the transcription stage. The buffer
+   * is cleared immediately so capture keeps flowing while Whisper runs.
+   */
+  private enqueueBufferedSpeech(source: AudioChunkSource, reason: SegmentReason): void {
+    const speechBuffer = this.getSpeechBuffer(source);
+    if (speechBuffer.length === 0 && !this.overlapTails.has(source)) {
       return;
     }
 
-    this.isTranscribing = true;
-    const audioToTranscribe = this.combineBuffers(this.speechBuffer);
-    this.speechBuffer = [];
+    const speech = this.combineBuffers(speechBuffer);
+    const speechSamples = this.speechSampleCounts.get(source) ?? speech.length;
+    this.speechBuffers.set(source, []);
+    this.speechSampleCounts.delete(source);
+    this.resetPartialState(source);
+
+    // A forced cut can land mid-word, so its last second also leads the next
+    // segment; each segment then keeps the words on its side of the midpoint
+    const lead = this.overlapTails.get(source);
+    this.overlapTails.delete(source);
+    const audio = lead ? this.combineBuffers([lead.audio, speech]) : speech;
+    const start = lead ? lead.start : this.speechStarts.get(source) ?? 0;
+    const overlapSamples = Math.floor(this.segmentOverlapSeconds * this.targetSampleRate);
+
+    let words: WordWindow | undefined;
+    if (lead) {
+      words = { from: lead.audio.length / 2 / this.targetSampleRate };
+    }
+    if (reason === 'max-buffer' && audio.length > overlapSamples) {
+      // The buffer ends with the latest chunk, which is already counted
+      this.overlapTails.set(source, {
+        audio: audio.slice(audio.length - overlapSamples),
+        start: ((this.receivedSamples.get(source) ?? 0) - overlapSamples) / this.targetSampleRate,
+      });
+      words = { ...words, before: (audio.length - overlapSamples / 2) / this.targetSampleRate };
+    }
 
     if (process.env.DEBUG_AUDIO === 'true') {
-      console.log(`[session] Transcribing buffer due to ${reason}:`, {
-        samples: audioToTranscribe.length,
-        duration: audioToTranscribe.length / this.targetSampleRate,
+      console.log(`[session] Queueing buffer for transcription due to ${reason}:`, {
+        samples: audio.length,
+        duration: audio.length / this.targetSampleRate,
+        backlog: this.transcriptionStage.getStats().queued,
       });
     }
 
-    try {
-      const transcription = await this.engine.transcribe(
-        audioToTranscribe,
-        this.targetSampleRate
-      );
+    this.transcriptionStage.push({
+      audio,
+      sampleRate: this.targetSampleRate,
+      reason,
+      source,
+      diarize: this.shouldDiarize(source),
+      words,
+      start,
+      // The lead was speech in the segment it came from
+      speechRatio: Math.min(1, (speechSamples + (lead?.audio.length ?? 0)) / audio.length),
+      epoch: this.sessionEpoch,
+    });
+  }
 
-      if (process.env.DEBUG_AUDIO === 'true') {
-        console.log('[session] Transcription result:', transcription);
-      }
+  private getPartialState(source: AudioChunkSource): PartialState {
+    let state = this.partialStates.get(source);
+    if (!state) {
+      state = { inFlight: false, decodedSamples: 0, generation: 0 };
+      this.partialStates.set(source, state);
+    }
+    return state;
+  }
 
-      if (
-        transcription &&
-        transcription.trim().length > 0 &&
-        transcription.toLowerCase().trim() !== '[blank_audio]'
-      ) {
-        this.transcripts.push({
+  private resetPartialState(source: AudioChunkSource): void {
+    const state = this.getPartialState(source);
+    state.generation++;
+    state.decodedSamples = 0;
+    state.inFlight = false;
+  }
+
+  /**
+   * Re-decodes a channel's growing buffer for an interim transcript once
+   * enough new speech has arrived. Runs in the background so capture never
+   * waits on it, and is skipped while final segments are queued.
+   */
+  private requestPartialTranscription(source: AudioChunkSource): void {
+    // Interim text is only useful while someone is watching the audio arrive
+    const streaming = this.engine.getConfig().streaming;
+    if (!streaming?.enabled || this.replaying) {
+      return;
+    }
+
+    const state = this.getPartialState(source);
+    const bufferedSamples = this.getBufferedSampleCount(source);
+    const intervalSamples =
+      ((streaming.partialIntervalMs ?? DEFAULT_PARTIAL_INTERVAL_MS) / 1000) * this.targetSampleRate;
+
+    if (
+      state.inFlight ||
+      bufferedSamples - state.decodedSamples < intervalSamples ||
+      this.transcriptionStage.getStats().queued > 0
+    ) {
+      return;
+    }
+
+    state.inFlight = true;
+    state.decodedSamples = bufferedSamples;
+    const generation = state.generation;
+    const epoch = this.sessionEpoch;
+    const audio = this.combineBuffers(this.getSpeechBuffer(source));
+
+    this.engine
+      .transcribePartial(audio, this.targetSampleRate)
+      .then((text) => {
+        if (epoch !== this.sessionEpoch || generation !== state.generation) {
+          return;
+        }
+        const verdict = this.hallucinationFilter.check({ text });
+        if (verdict.accepted) {
+          this.publishPartialTranscript({ source, text: verdict.text, timestamp: Date.now() });
+        }
+      })
+      .catch((error) => {
+        console.warn('[session] Partial transcription failed:', error);
+      })
+      .finally(() => {
+        if (generation === state.generation) {
+          state.inFlight = false;
+        }
+      });
+  }
+
+  /**
+   * With a separate system channel the microphone only carries the user, so
+   * diarization is only needed while everyone is mixed into the microphone.
+   */
+  private shouldDiarize(source: AudioChunkSource): boolean {
+    return source === 'microphone' && !this.seenSources.has('system');
+  }
+
+  /**
+   * Transcribes a segment and works out who said it. System audio is always
+   * another participant; microphone speech is checked against the enrolled
+   * voice print, when there is one, and diarized on a mixed channel.
+   */
+  private async transcribeSegment(segment: SpeechSegment): Promise<TranscribedSegment> {
+    const startedAt = Date.now();
+    const [transcription, identity] = await Promise.all([
+      this.transcribeSegmentText(segment),
+      segment.source === 'microphone'
+        ? this.engine.identifySpeaker(segment.audio, { diarize: segment.diarize })
+        : Promise.resolve(null),
+    ]);
+
+    const isUser = identity?.isUser ?? null;
+    const speaker: Speaker =
+      isUser === null ? SPEAKER_BY_SOURCE[segment.source] : isUser ? 'user' : 'other';
+
+    if (process.env.DEBUG_AUDIO === 'true') {
+      console.log('[session] Transcription result:', transcription.text, speaker, identity?.speakerId ?? '');
+    }
+
+    this.publish({
+      type: 'metrics',
+      metrics: {
+        stage: 'transcription',
+        latencyMs: Date.now() - startedAt,
+        audioSeconds: segment.audio.length / segment.sampleRate,
+      },
+    });
+    return { ...transcription, speaker, speakerId: identity?.speakerId ?? null };
+  }
+
+  private async transcribeSegmentText(
+    segment: SpeechSegment
+  ): Promise<Omit<TranscribedSegment, 'speaker' | 'speakerId'>> {
+    const result = await this.engine.transcribe(segment.audio, segment.sampleRate);
+    if (!segment.words) {
+      return { ...result, untrimmedOverlap: false };
+    }
+
+    if (result.words) {
+      const words = selectWords(result.words, segment.words);
+      const confidences = words
+        .map((word) => word.confidence)
+        .filter((confidence): confidence is number => confidence !== null);
+      return {
+        ...result,
+        text: joinWords(words),
+        words,
+        confidence:
+          confidences.length > 0
+            ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+            : result.confidence,
+        untrimmedOverlap: false,
+      };
+    }
+    return { ...result, untrimmedOverlap: segment.words.from !== undefined };
+  }
+
+  private reportFilteredTranscript(filtered: FilteredTranscript): void {
+    console.log(`[session] Filtered transcript (${filtered.rule}):`, JSON.stringify(filtered.text));
+    this.emit('transcript-filtered', filtered);
+  }
+
+  private handleTranscription(transcribed: TranscribedSegment, segment: SpeechSegment): void {
+    if (segment.epoch !== this.sessionEpoch) {
+      return;
+    }
+
+    let transcription = transcribed.text;
+    const speakerId = transcribed.speakerId ?? undefined;
+
+    // Results arrive in order, so the previous forced segment's text is known here
+    const previousForced = this.forcedSegmentTexts.get(segment.source);
+    if (transcribed.untrimmedOverlap && previousForced) {
+      transcription = removeRepeatedPrefix(previousForced, transcription);
+    }
+    if (segment.reason === 'max-buffer') {
+      this.forcedSegmentTexts.set(segment.source, transcribed.text);
+    } else {
+      this.forcedSegmentTexts.delete(segment.source);
+    }
+
+    // The final transcript replaces whatever interim text the channel showed
+    this.publishPartialTranscript({ source: segment.source, text: '', timestamp: Date.now() });
+
+    // Junk never reaches the transcript, the context or the LLM
+    const verdict = this.hallucinationFilter.check({
+      text: transcription,
+      speechRatio: segment.speechRatio,
+      confidence: transcribed.confidence,
+    });
+    if (!verdict.accepted) {
+      if (transcription.trim()) {
+        this.reportFilteredTranscript({
+          source: segment.source,
           text: transcription.trim(),
+          rule: verdict.rule,
           timestamp: Date.now(),
         });
-        this.sendTranscriptionsToUI();
+      }
+      return;
+    }
+    transcription = verdict.text;
+
+    const duration = segment.audio.length / segment.sampleRate;
+    this.transcripts.push({
+      text: transcription.trim(),
+      timestamp: Date.now(),
+      start: segment.start + (segment.words?.from ?? 0),
+      end: segment.start + (segment.words?.before ?? duration),
+      confidence: transcribed.confidence,
+      words:
+        transcribed.words?.map((word) => ({
+          ...word,
+          start: segment.start + word.start,
+          end: segment.start + word.end,
+        })) ?? null,
+      language: transcribed.language,
+      speaker: transcribed.speaker,
+      ...(speakerId ? { speakerId, speakerLabel: this.engine.getSpeakerLabel(speakerId) } : {}),
+      ...(this.pendingBookmark ? { bookmarked: true } : {}),
+    });
+    this.pendingBookmark = false;
+    this.publish({
+      type: 'transcript',
+      phase: 'final',
+      entry: this.transcripts[this.transcripts.length - 1],
+      transcripts: [...this.transcripts],
+    });
+
+    // A newer transcript makes any in-flight generation stale; a recording
+    // keeps suggestions for every utterance instead
+    if (!this.replaying) {
+      this.cancelSuggestionGeneration('superseded');
+    }
+    this.suggestionStage.push({
+      transcription,
+      speaker: transcribed.speaker,
+      speakerId,
+      language: transcribed.language,
+      epoch: segment.epoch,
+    });
+  }
+
+  /**
+   * Gives a diarized speaker a display name. The label is used for the
+   * conversation context and applied to transcripts already shown.
+   */
+  renameSpeaker(speakerId: string, label: string): void {
+    const trimmed = label.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    this.engine.renameSpeaker(speakerId, trimmed);
+    this.transcripts = this.transcripts.map((entry) =>
+      entry.speakerId === speakerId ? { ...entry, speakerLabel: trimmed } : entry
+    );
+    this.publishTranscripts();
+  }
 
-        const suggestions = await this.engine.generateSuggestions(transcription);
-        this.sendSuggestionsToUI(suggestions);
+  /**
+   * Generates suggestions for one transcript. In a live session, generations
+   * that exceed the engine's latency target are cancelled and a newer
+   * transcript cancels this one via cancelSuggestionGeneration('superseded').
+   */
+  private async generateSuggestionsFor(request: SuggestionRequest): Promise<void> {
+    if (request.epoch !== this.sessionEpoch) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.generationController = controller;
+    const startedAt = Date.now();
+
+    // Nobody is waiting on a recording, so a slow model gets all the time it needs
+    if (!this.replaying) {
+      const latencyTarget =
+        this.engine.getConfig().performance.latencyTarget || DEFAULT_LATENCY_TARGET_MS;
+      this.generationTimer = setTimeout(() => {
+        if (this.generationController === controller) {
+          this.cancelSuggestionGeneration('latency-target');
+        }
+      }, latencyTarget);
+    }
+
+    try {
+      const suggestions = await this.engine.generateSuggestions(request.transcription, {
+        signal: controller.signal,
+        speaker: request.speaker,
+        speakerId: request.speakerId,
+        language: request.language,
+        onPartial: (partial) => {
+          if (!controller.signal.aborted) {
+            this.publish({ type: 'suggestion', phase: 'partial', suggestions: partial });
+          }
+        },
+      });
+
+      if (!controller.signal.aborted) {
+        const record: SuggestionRecord = {
+          timestamp: Date.now(),
+          transcript: request.transcription,
+          suggestions,
+          latencyMs: Date.now() - startedAt,
+        };
+        this.suggestionLog.push(record);
+        this.publish({ type: 'suggestion', phase: 'final', record });
+        this.publish({
+          type: 'metrics',
+          metrics: { stage: 'suggestions', latencyMs: record.latencyMs, count: suggestions.length },
+        });
       }
     } catch (error) {
-      console.error('[session] Transcription failed:', error);
-      throw error;
+      if (isGenerationCancelled(error) || controller.signal.aborted) {
+        return;
+      }
+      console.error('[session] Suggestion generation failed:', error);
+      this.reportError('suggestions', error);
     } finally {
-      this.isTranscribing = false;
+      if (this.generationController === controller) {
+        this.clearGenerationState();
+      }
+    }
+  }
+
+  private cancelSuggestionGeneration(reason: CancellationReason): void {
+    const controller = this.generationController;
+    if (!controller) {
+      return;
+    }
+
+    this.clearGenerationState();
+    controller.abort(reason);
+
+    if (process.env.DEBUG_AUDIO === 'true') {
+      console.log(`[session] Cancelled suggestion generation (${reason})`);
     }
+    this.publish({ type: 'suggestion', phase: 'cancelled', reason });
+  }
+
+  private clearGenerationState(): void {
+    if (this.generationTimer) {
+      clearTimeout(this.generationTimer);
+      this.generationTimer = null;
+    }
+    this.generationController = null;
+  }
+
+  private configurePipeline(config: EngineConfig): void {
+    this.transcriptionStage.configure({
+      ...DEFAULT_TRANSCRIPTION_STAGE,
+      ...config.pipeline?.transcription,
+    });
+    this.suggestionStage.configure({
+      ...DEFAULT_SUGGESTION_STAGE,
+      ...config.pipeline?.suggestions,
+    });
+  }
+
+  /**
+   * Resolves once every queued segment has been transcribed and the resulting
+   * suggestion generations have settled.
+   */
+  async waitForIdle(): Promise<void> {
+    await this.transcriptionStage.onIdle();
+    await this.suggestionStage.onIdle();
   }
 
   async start(config: SessionConfig): Promise<void> {
@@ -204,92 +951,214 @@ export class SessionManager extends EventEmitter {
 
     console.log('[session] Starting session with config:', config);
 
-    this.currentConfig = config;
-    this.transcripts = [];
-    this.sendTranscriptionsToUI();
-    this.speechBuffer = [];
-    this.isTranscribing = false;
+    await this.beginSession(config);
+    this.startNoiseCalibration(config);
 
-    // Start engine session
-    await this.engine.startSession(config);
-    console.log('[session] Engine session started');
-
-    // Signal renderer to start audio capture
-    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-      this.mainWindow.webContents.send('start-audio-capture', {
-        sources: ['microphone'],
-        sampleRate: 16000,
-        channels: 1,
-      });
-      console.log('[session] Sent start-audio-capture signal to renderer');
-    }
+    const voiceCommands = this.engine.getConfig().voiceCommands;
+    this.voiceCommands = voiceCommands?.enabled ? new VoiceCommandRecognizer(voiceCommands) : null;
 
     this.isActive = true;
     console.log('[session] Session marked as active');
+    // Capture sinks start audio on this
+    this.publishStatus('started');
     this.emit('session-started', config);
   }
 
+  /**
+   * Runs a recorded file through the same pipeline as live audio: it is
+   * resampled once, fed to the VAD in capture-sized chunks as fast as
+   * transcription keeps up, and the finished session is saved once every
+   * utterance has its suggestions.
+   * Resolves with the saved record, or null when the session was stopped
+   * before the end of the file.
+   */
+  async processRecording(
+    config: SessionConfig,
+    recording: RecordingInput
+  ): Promise<SessionRecord | null> {
+    if (this.isActive) {
+      throw new Error('Session is already active');
+    }
+
+    console.log(`[session] Processing recording ${recording.fileName}`);
+    const startedAt = Date.now();
+    await this.beginSession(config);
+    const epoch = this.sessionEpoch;
+    this.replaying = true;
+    this.isActive = true;
+    // Suggestions queue up behind transcription until the end of the file
+    // rather than replacing each other
+    this.suggestionStage.configure({ maxQueueSize: Number.POSITIVE_INFINITY });
+    this.publishStatus('recording-started');
+
+    const audio = this.resampleBuffer(recording.samples, recording.sampleRate, this.targetSampleRate);
+    const durationSeconds = audio.length / this.targetSampleRate;
+
+    try {
+      for (let offset = 0; offset < audio.length; offset += RECORDING_CHUNK_SAMPLES) {
+        await this.processAudioChunk({
+          data: audio.subarray(offset, offset + RECORDING_CHUNK_SAMPLES),
+          sampleRate: this.targetSampleRate,
+          channels: 1,
+          timestamp: Date.now(),
+          source: 'microphone',
+        });
+        // The transcription queue is bounded for live audio and would drop
+        // segments if the file outran it; suggestions are not waited for
+        if (this.transcriptionStage.getStats().queued > 0) {
+          await this.transcriptionStage.onIdle();
+        }
+        if (epoch !== this.sessionEpoch) {
+          return null;
+        }
+        this.publish({
+          type: 'metrics',
+          metrics: {
+            stage: 'recording',
+            fileName: recording.fileName,
+            processedSeconds: Math.min(offset + RECORDING_CHUNK_SAMPLES, audio.length) / this.targetSampleRate,
+            durationSeconds,
+          },
+        });
+      }
+
+      // The file may end mid-utterance
+      this.enqueueBufferedSpeech('microphone', 'vad-pause');
+      await this.waitForIdle();
+      if (epoch !== this.sessionEpoch) {
+        return null;
+      }
+
+      const processingMs = Date.now() - startedAt;
+      console.log(
+        `[session] Processed ${durationSeconds.toFixed(1)}s of audio in ${(processingMs / 1000).toFixed(1)}s`
+      );
+
+      const record: SessionRecord = {
+        id: randomUUID(),
+        createdAt: startedAt,
+        mode: config.mode,
+        language: config.language,
+        recording: { fileName: recording.fileName, durationSeconds, processingMs },
+        transcripts: [...this.transcripts],
+        suggestions: [...this.suggestionLog],
+      };
+
+      this.recordStore?.save(record);
+      this.emit('session-saved', record);
+      return record;
+    } finally {
+      this.replaying = false;
+      this.configurePipeline(this.engine.getConfig());
+      // A stop() during replay already ended the session; otherwise the
+      // transcript stays on screen for review
+      if (epoch === this.sessionEpoch) {
+        this.sessionEpoch++;
+        this.engine.stopSession();
+        this.currentConfig = null;
+        this.isActive = false;
+        this.resetStreams();
+        this.publishStatus('recording-finished');
+      }
+    }
+  }
+
   async pause(): Promise<void> {
     console.log('[session] Pause called, isActive:', this.isActive);
     if (!this.isActive) {
       console.log('[session] Session not active, cannot pause');
       return;
     }
+    if (this.replaying) {
+      // Pausing would silently skip the rest of the file; stop() cancels instead
+      console.log('[session] Recordings cannot be paused');
+      return;
+    }
 
     console.log('[session] Pausing session');
 
-    // Signal renderer to stop audio capture
-    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-      this.mainWindow.webContents.send('stop-audio-capture');
-      console.log('[session] Sent stop-audio-capture signal to renderer');
-    }
-
     this.isActive = false;
     console.log('[session] Session marked as inactive');
+    this.publishStatus('paused');
     this.emit('session-paused');
   }
 
   async stop(): Promise<void> {
     if (!this.isActive && !this.currentConfig) return;
 
-    // Signal renderer to stop audio capture
-    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-      this.mainWindow.webContents.send('stop-audio-capture');
-    }
-
+    this.sessionEpoch++;
+    this.transcriptionStage.clear();
+    this.suggestionStage.clear();
+    this.cancelSuggestionGeneration('session-stopped');
     this.engine.stopSession();
+    this.noiseCalibrator = null;
+    this.voiceCommands = null;
+    this.listeningPaused = false;
     this.currentConfig = null;
     this.isActive = false;
-    this.speechBuffer = [];
-    this.isTranscribing = false;
-    this.sendSuggestionsToUI([]);
+    this.resetStreams();
+    this.publish({ type: 'suggestion', phase: 'cleared' });
     this.transcripts = [];
-    this.sendTranscriptionsToUI();
+    this.publishTranscripts();
+    this.publishStatus('stopped');
     this.emit('session-stopped');
   }
 
-  private sendSuggestionsToUI(suggestions: Suggestion[]): void {
-    // Send to companion window via IPC
-    if (this.companionWindow && !this.companionWindow.isDestroyed()) {
-      this.companionWindow.webContents.send('suggestions-update', suggestions);
-    }
+  // Shared by live sessions and recordings: clears transcripts, per-channel
+  // state and session-scoped features, then starts the engine session
+  private async beginSession(config: SessionConfig): Promise<void> {
+    this.currentConfig = config;
+    this.sessionEpoch++;
+    this.configurePipeline(this.engine.getConfig());
+    this.transcripts = [];
+    this.suggestionLog = [];
+    this.publishTranscripts();
+    this.resetStreams();
+    this.noiseCalibrator = null;
+    this.voiceCommands = null;
+    this.listeningPaused = false;
+    this.pendingBookmark = false;
 
-    // Also send to main window if needed
-    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-      this.mainWindow.webContents.send('suggestions-update', suggestions);
-    }
+    await this.engine.startSession(config);
+    console.log('[session] Engine session started');
   }
 
-  private sendTranscriptionsToUI(): void {
-    const payload = this.transcripts;
+  private resetStreams(): void {
+    this.speechBuffers.clear();
+    this.seenSources.clear();
+    this.partialStates.clear();
+    this.overlapTails.clear();
+    this.receivedSamples.clear();
+    this.speechStarts.clear();
+    this.speechSampleCounts.clear();
+    this.forcedSegmentTexts.clear();
+  }
 
-    if (this.transcriptWindow && !this.transcriptWindow.isDestroyed()) {
-      this.transcriptWindow.webContents.send('transcriptions-update', payload);
+  // A failing sink is logged and skipped so it cannot stall the pipeline
+  private publish(event: SessionEvent): void {
+    for (const sink of this.sinks) {
+      try {
+        sink.handle(event);
+      } catch (error) {
+        console.error(`[session] Sink failed to handle ${event.type} event:`, error);
+      }
     }
+  }
 
-    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-      this.mainWindow.webContents.send('transcriptions-update', payload);
-    }
+  private publishStatus(change: SessionStatusChange): void {
+    this.publish({ type: 'status', change, status: this.getStatus() });
+  }
+
+  private publishTranscripts(): void {
+    this.publish({ type: 'transcript', phase: 'updated', transcripts: [...this.transcripts] });
+  }
+
+  private publishPartialTranscript(partial: PartialTranscript): void {
+    this.publish({ type: 'transcript', phase: 'partial', partial });
+  }
+
+  private reportError(stage: SessionErrorEvent['stage'], error: unknown): void {
+    this.publish({ type: 'error', stage, message: error instanceof Error ? error.message : String(error) });
   }
 
   getIsActive(): boolean {
@@ -300,6 +1169,15 @@ export class SessionManager extends EventEmitter {
     return this.currentConfig;
   }
 
+  getStatus(): SessionStatus {
+    return {
+      isActive: this.isActive,
+      mode: this.currentConfig?.mode,
+      listening: !this.listeningPaused,
+      recording: this.replaying,
+    };
+  }
+
   private combineBuffers(buffers: Float32Array[]): Float32Array {
     const totalLength = buffers.reduce((sum, buffer) => sum + buffer.length, 0);
     const combined = new Float32Array(totalLength);
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import { WebSocket } from 'ws';
+import { LocalApiServer, SessionController } from '../api-server';
+import type { SessionStatus } from '../../core/session-sink';
+
+const TOKEN = 'test-token';
+
+const idle: SessionStatus = { isActive: false, listening: true, recording: false };
+
+const createController = () => ({
+  start: vi.fn<SessionController['start']>().mockResolvedValue(undefined),
+  stop: vi.fn<SessionController['stop']>().mockResolvedValue(undefined),
+  pause: vi.fn<SessionController['pause']>().mockResolvedValue(undefined),
+  getStatus: vi.fn<SessionController['getStatus']>().mockReturnValue(idle),
+});
+
+describe('LocalApiServer', () => {
+  let controller: ReturnType<typeof createController>;
+  let server: LocalApiServer;
+  let baseUrl: string;
+
+  const request = (path: string, init: RequestInit = {}, token: string | null = TOKEN) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    });
+
+  const connect = (query: string) =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/api/events${query}`);
+      socket.once('open', () => resolve(socket));
+      socket.once('unexpected-response', (_request, response) =>
+        reject(new Error(`Rejected with ${response.statusCode}`))
+      );
+      socket.once('error', reject);
+    });
+
+  beforeEach(async () => {
+    controller = createController();
+    server = new LocalApiServer({ port: 0, token: TOKEN, controller });
+    baseUrl = `http://127.0.0.1:${await server.start()}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('rejects requests without the token', async () => {
+    expect((await request('/api/status', {}, null)).status).toBe(401);
+    expect((await request('/api/status', {}, 'wrong-token')).status).toBe(401);
+
+    const response = await fetch(`${baseUrl}/api/status?token=${TOKEN}`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ready: true, status: idle });
+  });
+
+  it('rejects requests addressed to another host name', async () => {
+    const statusCode = await new Promise<number | undefined>((resolve, reject) => {
+      const { port } = new URL(baseUrl);
+      const headers = { Host: `evil.example:${port}`, Authorization: `Bearer ${TOKEN}` };
+      http
+        .get({ host: '127.0.0.1', port, path: '/api/status', headers }, (response) => {
+          response.resume();
+          resolve(response.statusCode);
+        })
+        .on('error', reject);
+    });
+
+    expect(statusCode).toBe(403);
+  });
+
+  it('starts a session with a validated config', async () => {
+    const config = { mode: 'work_meetings', context: { participants: ['Dana'] }, language: 'EN' };
+
+    const response = await request('/api/session/start', { method: 'POST', body: JSON.stringify(config) });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(controller.start).toHaveBeenCalledWith({ ...config, language: 'en' });
+  });
+
+  it('refuses invalid configs and conflicting requests', async () => {
+    const invalid = await request('/api/session/start', {
+      method: 'POST',
+      body: JSON.stringify({ mode: 'karaoke' }),
+    });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toContain('mode');
+    const unknownLanguage = await request('/api/session/start', {
+      method: 'POST',
+      body: JSON.stringify({ mode: 'education', language: 'klingon' }),
+    });
+    expect(unknownLanguage.status).toBe(400);
+    expect((await unknownLanguage.json()).error).toContain('language');
+    const documents = await request('/api/session/start', {
+      method: 'POST',
+      body: JSON.stringify({ mode: 'education', context: { documents: ['/etc/passwd'] } }),
+    });
+    expect(documents.status).toBe(400);
+    expect((await documents.json()).error).toContain('documents');
+    expect((await request('/api/session/start', { method: 'POST', body: '{' })).status).toBe(400);
+    expect((await request('/api/session/start')).status).toBe(405);
+    expect((await request('/api/session/pause', { method: 'POST' })).status).toBe(409);
+
+    controller.getStatus.mockReturnValue({ ...idle, isActive: true, mode: 'education' });
+    const active = await request('/api/session/start', {
+      method: 'POST',
+      body: JSON.stringify({ mode: 'education' }),
+    });
+    expect(active.status).toBe(409);
+    expect(controller.start).not.toHaveBeenCalled();
+
+    controller.getStatus.mockReturnValue(null);
+    expect((await request('/api/session/stop', { method: 'POST' })).status).toBe(503);
+  });
+
+  it('pauses and stops the session', async () => {
+    controller.getStatus.mockReturnValue({ ...idle, isActive: true, mode: 'education' });
+
+    expect((await request('/api/session/pause', { method: 'POST' })).status).toBe(200);
+    expect((await request('/api/session/stop', { method: 'POST' })).status).toBe(200);
+    expect(controller.pause).toHaveBeenCalledTimes(1);
+    expect(controller.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports controller failures', async () => {
+    controller.stop.mockRejectedValue(new Error('engine crashed'));
+
+    const response = await request('/api/session/stop', { method: 'POST' });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, error: 'engine crashed' });
+  });
+
+  it('streams session events to authorized WebSocket clients', async () => {
+    await expect(connect('')).rejects.toThrow('401');
+    const socket = await connect(`?token=${TOKEN}`);
+    const messages: unknown[] = [];
+    socket.on('message', (data) => messages.push(JSON.parse(data.toString())));
+
+    server.handle({ type: 'metrics', metrics: { stage: 'suggestions', latencyMs: 10, count: 1 } });
+    server.handle({ type: 'status', change: 'started', status: { ...idle, isActive: true } });
+    server.handle({ type: 'suggestion', phase: 'cancelled', reason: 'superseded' });
+
+    await vi.waitFor(() => expect(messages).toHaveLength(2));
+    expect(messages).toEqual([
+      { type: 'status', change: 'started', status: { ...idle, isActive: true } },
+      { type: 'suggestion', phase: 'cancelled', reason: 'superseded' },
+    ]);
+    socket.close();
+  });
+
+  it('streams final output but not partial phases', async () => {
+    const socket = await connect(`?token=${TOKEN}`);
+    const phases: string[] = [];
+    socket.on('message', (data) => {
+      const event = JSON.parse(data.toString());
+      phases.push(`${event.type}:${event.phase}`);
+    });
+    const entry = { text: 'Hello', timestamp: 1, speaker: 'other' as const };
+
+    server.handle({ type: 'transcript', phase: 'partial', partial: { source: 'system', text: 'Hel', timestamp: 1 } });
+    server.handle({ type: 'transcript', phase: 'final', entry, transcripts: [entry] });
+    server.handle({ type: 'transcript', phase: 'updated', transcripts: [] });
+    server.handle({ type: 'suggestion', phase: 'partial', suggestions: [] });
+    server.handle({ type: 'suggestion', phase: 'cancelled', reason: 'superseded' });
+    server.handle({ type: 'suggestion', phase: 'cleared' });
+
+    await vi.waitFor(() => expect(phases).toHaveLength(4));
+    expect(phases).toEqual(['transcript:final', 'transcript:updated', 'suggestion:cancelled', 'suggestion:cleared']);
+    socket.close();
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import type { MessagePortMain } from 'electron';
+import {
+  AudioChunkQueue,
+  AudioTransport,
+  AudioFrame,
+  AudioFrameSource,
+  ReceivedAudioChunk,
+} from '../audio-transport';
+
+class FakePort extends EventEmitter {
+  start = vi.fn();
+  close = vi.fn();
+
+  deliver(frame: unknown): void {
+    this.emit('message', { data: frame, ports: [] });
+  }
+}
+
+const createFrame = (
+  sequence: number,
+  samples = [0.1, 0.2],
+  source: AudioFrameSource = 'microphone'
+): AudioFrame => ({
+  source,
+  sequence,
+  timestamp: 1000 + sequence,
+  sampleRate: 16000,
+  channels: 1,
+  samples: new Float32Array(samples).buffer,
+});
+
+describe('AudioTransport', () => {
+  let transport: AudioTransport;
+  let port: FakePort;
+  let chunks: ReceivedAudioChunk[];
+
+  beforeEach(() => {
+    transport = new AudioTransport();
+    port = new FakePort();
+    chunks = [];
+    transport.on('chunk', (chunk: ReceivedAudioChunk) => chunks.push(chunk));
+    transport.attach(port as unknown as MessagePortMain);
+  });
+
+  it('rebuilds Float32Array chunks from transferred buffers', () => {
+    port.deliver(createFrame(0, [0.25, -0.5]));
+
+    expect(port.start).toHaveBeenCalled();
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].data).toBeInstanceOf(Float32Array);
+    expect(Array.from(chunks[0].data)).toEqual([0.25, -0.5]);
+    expect(chunks[0]).toMatchObject({ sequence: 0, sampleRate: 16000, channels: 1, timestamp: 1000 });
+  });
+
+  it('reports gaps in the sequence as dropped frames', () => {
+    const gap = vi.fn();
+    transport.on('gap', gap);
+
+    port.deliver(createFrame(0));
+    port.deliver(createFrame(3));
+
+    expect(gap).toHaveBeenCalledWith({ source: 'microphone', expected: 1, received: 3, missing: 2 });
+    expect(chunks.map((chunk) => chunk.sequence)).toEqual([0, 3]);
+    expect(transport.getStats()).toMatchObject({ received: 2, dropped: 2, lastSequence: 3 });
+  });
+
+  it('discards frames that arrive out of order', () => {
+    const outOfOrder = vi.fn();
+    transport.on('out-of-order', outOfOrder);
+
+    port.deliver(createFrame(0));
+    port.deliver(createFrame(2));
+    port.deliver(createFrame(1));
+
+    expect(outOfOrder).toHaveBeenCalledWith({ source: 'microphone', expected: 3, received: 1 });
+    expect(chunks.map((chunk) => chunk.sequence)).toEqual([0, 2]);
+    expect(transport.getStats().outOfOrder).toBe(1);
+  });
+
+  it('tracks sequence numbers separately per source', () => {
+    const gap = vi.fn();
+    transport.on('gap', gap);
+
+    port.deliver(createFrame(0, [0.1], 'microphone'));
+    port.deliver(createFrame(0, [0.2], 'system'));
+    port.deliver(createFrame(1, [0.1], 'microphone'));
+    port.deliver(createFrame(1, [0.2], 'system'));
+
+    expect(gap).not.toHaveBeenCalled();
+    expect(chunks.map((chunk) => `${chunk.source}:${chunk.sequence}`)).toEqual([
+      'microphone:0',
+      'system:0',
+      'microphone:1',
+      'system:1',
+    ]);
+  });
+
+  it('accepts a restarted sequence after reset', () => {
+    port.deliver(createFrame(5));
+    transport.reset();
+    port.deliver(createFrame(0));
+
+    expect(chunks.map((chunk) => chunk.sequence)).toEqual([5, 0]);
+    expect(transport.getStats()).toMatchObject({ received: 1, dropped: 0, outOfOrder: 0 });
+  });
+
+  it('ignores malformed frames', () => {
+    port.deliver({ sequence: 0, samples: [0.1, 0.2] });
+
+    expect(chunks).toHaveLength(0);
+  });
+
+  it('closes the previous port when a new one is attached', () => {
+    const nextPort = new FakePort();
+    transport.attach(nextPort as unknown as MessagePortMain);
+
+    expect(port.close).toHaveBeenCalled();
+    nextPort.deliver(createFrame(0));
+    port.deliver(createFrame(1));
+    expect(chunks.map((chunk) => chunk.sequence)).toEqual([0]);
+  });
+});
+
+describe('AudioChunkQueue', () => {
+  const createChunk = (sequence: number): ReceivedAudioChunk => ({
+    source: 'microphone',
+    data: new Float32Array([0.1]),
+    sampleRate: 16000,
+    channels: 1,
+    timestamp: 1000 + sequence,
+    sequence,
+  });
+
+  it('processes chunks one at a time in order', async () => {
+    const processed: number[] = [];
+    let active = 0;
+    const queue = new AudioChunkQueue(async (chunk) => {
+      expect(++active).toBe(1);
+      await Promise.resolve();
+      processed.push(chunk.sequence);
+      active--;
+    });
+
+    [0, 1, 2].forEach((sequence) => queue.push(createChunk(sequence)));
+
+    await vi.waitFor(() => expect(processed).toEqual([0, 1, 2]));
+  });
+
+  it('drops the oldest waiting chunks when processing falls behind', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const processed: number[] = [];
+    const queue = new AudioChunkQueue(async (chunk) => {
+      await blocked;
+      processed.push(chunk.sequence);
+    }, 2);
+    const gap = vi.fn();
+    queue.on('gap', gap);
+
+    [0, 1, 2, 3, 4].forEach((sequence) => queue.push(createChunk(sequence)));
+    release();
+
+    await vi.waitFor(() => expect(processed).toEqual([0, 3, 4]));
+    expect(gap.mock.calls.map(([info]) => info)).toEqual([
+      { source: 'microphone', expected: 1, received: 2, missing: 1 },
+      { source: 'microphone', expected: 2, received: 3, missing: 1 },
+    ]);
+  });
+
+  it('keeps going after a chunk fails', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const processed: number[] = [];
+    const queue = new AudioChunkQueue(async (chunk) => {
+      if (chunk.sequence === 0) {
+        throw new Error('decoder crashed');
+      }
+      processed.push(chunk.sequence);
+    });
+
+    queue.push(createChunk(0));
+    queue.push(createChunk(1));
+
+    await vi.waitFor(() => expect(processed).toEqual([1]));
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionRecordFileStore } from '../session-records';
+import type { SessionRecord } from '../../core/session-record';
+
+const record = (id: string): SessionRecord => ({
+  id,
+  createdAt: 1,
+  mode: 'education',
+  language: 'en',
+  recording: { fileName: 'lecture.mp3', durationSeconds: 60, processingMs: 20000 },
+  transcripts: [],
+  suggestions: [
+    { timestamp: 2, transcript: 'what is entropy', suggestions: [{ text: 'Ask for an example' }], latencyMs: 900 },
+  ],
+});
+
+describe('SessionRecordFileStore', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-consul-sessions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('saves each session to its own file', () => {
+    const store = new SessionRecordFileStore(path.join(tempDir, 'sessions'));
+    store.save(record('first'));
+    store.save(record('second'));
+
+    expect(fs.readdirSync(path.join(tempDir, 'sessions')).sort()).toEqual(['first.json', 'second.json']);
+    expect(new SessionRecordFileStore(path.join(tempDir, 'sessions')).get('second')).toEqual(record('second'));
+  });
+
+  it('keeps ids inside the sessions directory', () => {
+    const store = new SessionRecordFileStore(path.join(tempDir, 'sessions'));
+    store.save(record('../escaped'));
+
+    expect(fs.existsSync(path.join(tempDir, 'escaped.json'))).toBe(false);
+    expect(store.get('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SettingsService, DEFAULT_ENGINE_CONFIG, applyRendererSettings, mergeEngineConfig } from '../settings';
+
+describe('applyRendererSettings', () => {
+  it('enables cloud fallback for cloud-enabled privacy mode', () => {
+    const config = applyRendererSettings(DEFAULT_ENGINE_CONFIG, { privacyMode: 'cloud-enabled' });
+
+    expect(config.privacy.cloudFallback).toBe(true);
+    expect(config.privacy.offlineFirst).toBe(false);
+    expect(DEFAULT_ENGINE_CONFIG.privacy.cloudFallback).toBe(false);
+  });
+
+  it('maps performance tier to whisper model size', () => {
+    expect(
+      applyRendererSettings(DEFAULT_ENGINE_CONFIG, { performanceTier: 'basic' }).models.transcription.primary
+    ).toBe('local-whisper-tiny');
+    expect(
+      applyRendererSettings(DEFAULT_ENGINE_CONFIG, { performanceTier: 'pro' }).performance.hardwareTier
+    ).toBe('pro');
+  });
+
+  it('keeps an explicit cloud transcription choice', () => {
+    const cloudConfig = applyRendererSettings(DEFAULT_ENGINE_CONFIG, {});
+    cloudConfig.models.transcription.primary = 'cloud-whisper';
+
+    const config = applyRendererSettings(cloudConfig, { performanceTier: 'pro' });
+    expect(config.models.transcription.primary).toBe('cloud-whisper');
+  });
+
+  it('routes the selected Ollama model', () => {
+    const config = applyRendererSettings(DEFAULT_ENGINE_CONFIG, { ollamaModel: 'phi3:mini' });
+    expect(config.models.llm.primary).toBe('ollama://phi3:mini');
+  });
+
+  it('stores the trimmed custom vocabulary', () => {
+    const config = applyRendererSettings(DEFAULT_ENGINE_CONFIG, {
+      customVocabulary: [' Kubernetes ', '', 'Siobhan'],
+    });
+    expect(config.vocabulary?.customTerms).toEqual(['Kubernetes', 'Siobhan']);
+  });
+
+  it('toggles voice commands without losing custom sequences', () => {
+    const current = {
+      ...DEFAULT_ENGINE_CONFIG,
+      voiceCommands: { enabled: false, commands: { pause: ['sheila', 'stop'] } },
+    };
+    const config = applyRendererSettings(current, { voiceCommands: true });
+    expect(config.voiceCommands).toEqual({ enabled: true, commands: { pause: ['sheila', 'stop'] } });
+  });
+
+  it('turns on strict offline mode without changing the privacy mode', () => {
+    const config = applyRendererSettings(DEFAULT_ENGINE_CONFIG, { strictOffline: true });
+    expect(config.privacy).toMatchObject({ strictOffline: true, cloudFallback: false, offlineFirst: true });
+  });
+});
+
+describe('mergeEngineConfig', () => {
+  it('fills the sections a partial config leaves out', () => {
+    const config = mergeEngineConfig(DEFAULT_ENGINE_CONFIG, {
+      models: { llm: { primary: 'ollama://phi3:mini' } },
+      vad: { thresholds: { minSilenceDurationMs: 800 } },
+    });
+
+    expect(config.models.transcription).toEqual(DEFAULT_ENGINE_CONFIG.models.transcription);
+    expect(config.models.llm).toEqual({ ...DEFAULT_ENGINE_CONFIG.models.llm, primary: 'ollama://phi3:mini' });
+    expect(config.vad?.backend).toBe('silero');
+    expect(config.vad?.thresholds).toMatchObject({ minSilenceDurationMs: 800, energyThreshold: 0.01 });
+    expect(config.privacy).toEqual(DEFAULT_ENGINE_CONFIG.privacy);
+  });
+
+  it('keeps the base diarization settings', () => {
+    const base = { ...DEFAULT_ENGINE_CONFIG, diarization: { enabled: false, maxSpeakers: 3 } };
+
+    expect(mergeEngineConfig(base, { diarization: { maxSpeakers: 4 } }).diarization).toEqual({
+      enabled: false,
+      maxSpeakers: 4,
+    });
+  });
+});
+
+describe('SettingsService', () => {
+  let tempDir: string;
+  let settingsPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-consul-settings-'));
+    settingsPath = path.join(tempDir, 'settings.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('starts from defaults when no file exists', () => {
+    const service = new SettingsService(settingsPath);
+    expect(service.getEngineConfig()).toEqual(DEFAULT_ENGINE_CONFIG);
+  });
+
+  it('persists updates and reloads them', () => {
+    const service = new SettingsService(settingsPath);
+    service.update({ ollamaModel: 'mistral:7b', audioSource: 'full-system-audio' });
+
+    const reloaded = new SettingsService(settingsPath);
+    expect(reloaded.getEngineConfig().models.llm.primary).toBe('ollama://mistral:7b');
+    expect(reloaded.getSettings().renderer.audioSource).toBe('full-system-audio');
+  });
+
+  it('emits engine-config-changed only when the engine config changes', () => {
+    const service = new SettingsService(settingsPath);
+    const listener = vi.fn();
+    service.on('engine-config-changed', listener);
+
+    service.update({ audioSource: 'full-system-audio' });
+    expect(listener).not.toHaveBeenCalled();
+
+    service.update({ privacyMode: 'cloud-enabled' });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].privacy.cloudFallback).toBe(true);
+  });
+
+  it('creates the local API token once and keeps it across updates', () => {
+    const service = new SettingsService(settingsPath);
+    expect(service.getSettings().apiToken).toBeNull();
+
+    const token = service.getApiToken();
+    service.update({ localApi: true, localApiPort: 9000 });
+
+    const reloaded = new SettingsService(settingsPath);
+    expect(token).toMatch(/^[\w-]{43}$/);
+    expect(reloaded.getApiToken()).toBe(token);
+    expect(reloaded.getSettings().renderer).toMatchObject({ localApi: true, localApiPort: 9000 });
+    expect(reloaded.regenerateApiToken()).not.toBe(token);
+    expect(reloaded.getEngineConfig()).toEqual(DEFAULT_ENGINE_CONFIG);
+  });
+
+  it('falls back to defaults when the file is corrupt', () => {
+    fs.writeFileSync(settingsPath, '{not json');
+    const service = new SettingsService(settingsPath);
+    expect(service.getEngineConfig()).toEqual(DEFAULT_ENGINE_CONFIG);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VADCalibrationFileStore } from '../vad-calibration';
+
+describe('VADCalibrationFileStore', () => {
+  let tempDir: string;
+  let storePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-consul-vad-'));
+    storePath = path.join(tempDir, 'vad-calibration.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('persists calibrations per device', () => {
+    const store = new VADCalibrationFileStore(storePath);
+    expect(store.get('default')).toBeNull();
+
+    const headset = { noiseFloor: 0.002, energyThreshold: 0.005, calibratedAt: 1 };
+    const laptop = { noiseFloor: 0.02, energyThreshold: 0.05, calibratedAt: 2 };
+    store.save('headset', headset);
+    store.save('laptop', laptop);
+
+    const reloaded = new VADCalibrationFileStore(storePath);
+    expect(reloaded.get('headset')).toEqual(headset);
+    expect(reloaded.get('laptop')).toEqual(laptop);
+  });
+
+  it('drops malformed entries', () => {
+    fs.writeFileSync(
+      storePath,
+      JSON.stringify({
+        good: { noiseFloor: 0.01, energyThreshold: 0.025, calibratedAt: 1 },
+        bad: { noiseFloor: 'loud' },
+      })
+    );
+
+    const store = new VADCalibrationFileStore(storePath);
+    expect(store.get('good')).not.toBeNull();
+    expect(store.get('bad')).toBeNull();
+  });
+});
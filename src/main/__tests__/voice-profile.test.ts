@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VoiceProfileStore } from '../voice-profile';
+
+describe('VoiceProfileStore', () => {
+  let tempDir: string;
+  let profilePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-consul-voice-'));
+    profilePath = path.join(tempDir, 'voice-profile.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('persists a profile and clears it', () => {
+    const store = new VoiceProfileStore(profilePath);
+    expect(store.getProfile()).toBeNull();
+
+    const profile = { embedding: [0.1, 0.2], model: 'Xenova/wavlm-base-plus-sv', createdAt: 1 };
+    store.save(profile);
+    expect(new VoiceProfileStore(profilePath).getProfile()).toEqual(profile);
+
+    store.clear();
+    expect(fs.existsSync(profilePath)).toBe(false);
+    expect(new VoiceProfileStore(profilePath).getProfile()).toBeNull();
+  });
+
+  it('ignores a malformed file', () => {
+    fs.writeFileSync(profilePath, JSON.stringify({ embedding: 'nope' }));
+    expect(new VoiceProfileStore(profilePath).getProfile()).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { BrowserWindow } from 'electron';
+import { WindowSessionSink } from '../window-sink';
+
+const createWindow = (destroyed = false) => {
+  const send = vi.fn();
+  const window = { isDestroyed: () => destroyed, webContents: { send } };
+  return { send, window: window as unknown as BrowserWindow };
+};
+
+describe('WindowSessionSink', () => {
+  let main: ReturnType<typeof createWindow>;
+  let companion: ReturnType<typeof createWindow>;
+  let transcript: ReturnType<typeof createWindow>;
+  let sink: WindowSessionSink;
+
+  beforeEach(() => {
+    main = createWindow();
+    companion = createWindow();
+    transcript = createWindow();
+    sink = new WindowSessionSink();
+    sink.setWindows(main.window, companion.window, transcript.window);
+  });
+
+  it('sends transcripts to the main and transcript windows', () => {
+    const entry = {
+      text: 'hello',
+      timestamp: 1,
+      speaker: 'user' as const,
+      start: 0,
+      end: 1,
+      confidence: null,
+      words: null,
+      language: null,
+    };
+
+    const partial = { source: 'system' as const, text: 'hi', timestamp: 2 };
+
+    sink.handle({ type: 'transcript', phase: 'final', entry, transcripts: [entry] });
+    sink.handle({ type: 'transcript', phase: 'partial', partial });
+
+    for (const window of [main, transcript]) {
+      expect(window.send).toHaveBeenCalledWith('transcriptions-update', [entry]);
+      expect(window.send).toHaveBeenCalledWith('transcription-partial', partial);
+    }
+    expect(companion.send).not.toHaveBeenCalled();
+  });
+
+  it('sends suggestions to the companion window', () => {
+    const record = {
+      timestamp: 1,
+      transcript: 'hello',
+      suggestions: [{ text: 'Say hi' }],
+      latencyMs: 10,
+    };
+
+    sink.handle({ type: 'suggestion', phase: 'partial', suggestions: [{ text: 'Say' }] });
+    sink.handle({ type: 'suggestion', phase: 'final', record });
+    sink.handle({ type: 'suggestion', phase: 'cancelled', reason: 'superseded' });
+    sink.handle({ type: 'suggestion', phase: 'cleared' });
+
+    expect(companion.send.mock.calls).toEqual([
+      ['suggestions-partial', [{ text: 'Say' }]],
+      ['suggestions-update', [{ text: 'Say hi' }]],
+      ['suggestions-cancelled', { reason: 'superseded' }],
+      ['suggestions-update', []],
+    ]);
+    expect(main.send.mock.calls).toEqual([
+      ['suggestions-update', [{ text: 'Say hi' }]],
+      ['suggestions-update', []],
+    ]);
+  });
+
+  it('starts and stops audio capture with the session', () => {
+    const status = { isActive: true, mode: 'job_interviews' as const, listening: true, recording: false };
+
+    sink.handle({ type: 'status', change: 'started', status });
+    sink.handle({ type: 'status', change: 'recording-finished', status: { ...status, isActive: false } });
+    sink.handle({ type: 'status', change: 'stopped', status: { ...status, isActive: false } });
+
+    expect(main.send.mock.calls.map(([channel]) => channel)).toEqual([
+      'start-audio-capture',
+      'session-status',
+      'session-status',
+      'stop-audio-capture',
+      'session-status',
+    ]);
+    expect(main.send).toHaveBeenCalledWith(
+      'start-audio-capture',
+      expect.objectContaining({ sampleRate: 16000 })
+    );
+  });
+
+  it('forwards recording progress and errors, and skips destroyed windows', () => {
+    const closed = createWindow(true);
+    sink.setWindows(main.window, closed.window);
+
+    sink.handle({
+      type: 'metrics',
+      metrics: { stage: 'recording', fileName: 'a.wav', processedSeconds: 1, durationSeconds: 2 },
+    });
+    sink.handle({ type: 'metrics', metrics: { stage: 'suggestions', latencyMs: 10, count: 1 } });
+    sink.handle({ type: 'error', stage: 'suggestions', message: 'LLM unavailable' });
+    sink.handle({ type: 'suggestion', phase: 'cleared' });
+
+    expect(main.send.mock.calls).toEqual([
+      ['recording-progress', { fileName: 'a.wav', processedSeconds: 1, durationSeconds: 2 }],
+      ['error', 'LLM unavailable'],
+      ['suggestions-update', []],
+    ]);
+    expect(closed.send).not.toHaveBeenCalled();
+  });
+});
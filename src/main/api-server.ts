@@ -0,0 +1,303 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { timingSafeEqual } from 'crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import { z } from 'zod';
+import type { SessionConfig } from '../core/engine';
+import { normalizeSessionLanguage } from '../core/language';
+import type { SessionEvent, SessionSink, SessionStatus } from '../core/session-sink';
+
+// Never bound to other interfaces: the API controls the microphone
+const LOCAL_API_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 64 * 1024;
+const EVENTS_PATH = '/api/events';
+
+// Metrics and partial (token-by-token) output stay in the app; clients get
+// what a viewer needs
+const STREAMED_EVENTS = new Set<SessionEvent['type']>(['transcript', 'suggestion', 'status', 'error']);
+
+function isStreamed(event: SessionEvent): boolean {
+  if (!STREAMED_EVENTS.has(event.type)) {
+    return false;
+  }
+  return !('phase' in event) || event.phase !== 'partial';
+}
+
+const sessionConfigSchema: z.ZodType<SessionConfig> = z.object({
+  mode: z.enum(['job_interviews', 'work_meetings', 'education', 'chat_messaging', 'simulation_coaching']),
+  // No documents: they are read from disk, so only the app may choose them
+  context: z
+    .object({
+      skills: z.array(z.string()).optional(),
+      participants: z.array(z.string()).optional(),
+    })
+    .strict()
+    .optional(),
+  persona: z.string().optional(),
+  microphoneId: z.string().optional(),
+  language: z
+    .string()
+    .transform((value, context) => {
+      const language = normalizeSessionLanguage(value);
+      if (!language) {
+        context.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown language "${value}"` });
+        return z.NEVER;
+      }
+      return language;
+    })
+    .optional(),
+  suggestions: z
+    .object({
+      types: z.array(z.string()).optional(),
+      timing: z.enum(['post-question', 'real-time']).optional(),
+    })
+    .optional(),
+  coaching: z
+    .object({
+      metrics: z.array(z.string()).optional(),
+      feedback: z.enum(['end-of-session', 'real-time']).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * The session operations the API exposes. main.ts backs these with the same
+ * functions its ipcMain handlers use.
+ */
+export interface SessionController {
+  start(config: SessionConfig): Promise<void>;
+  stop(): Promise<void>;
+  pause(): Promise<void>;
+  // Null until the session manager exists
+  getStatus(): SessionStatus | null;
+}
+
+export interface LocalApiServerOptions {
+  // 0 picks a free port
+  port: number;
+  token: string;
+  controller: SessionController;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Opt-in HTTP and WebSocket API on localhost so other tools can follow a
+ * session and control it. Every request needs the token, either as
+ * `Authorization: Bearer <token>` or a `token` query parameter (browsers
+ * cannot set headers on WebSockets).
+ *
+ *   GET  /api/status          current session status
+ *   POST /api/session/start   body: SessionConfig
+ *   POST /api/session/stop
+ *   POST /api/session/pause
+ *   WS   /api/events          final transcript and suggestion events, status
+ *                             and errors (partial output is not streamed)
+ *
+ * The server is a SessionSink; attach it to the SessionManager to stream.
+ */
+export class LocalApiServer implements SessionSink {
+  readonly token: string;
+  private readonly requestedPort: number;
+  private readonly controller: SessionController;
+  private server: http.Server | null = null;
+  private sockets: WebSocketServer | null = null;
+
+  constructor(options: LocalApiServerOptions) {
+    this.requestedPort = options.port;
+    this.token = options.token;
+    this.controller = options.controller;
+  }
+
+  /** Starts listening and resolves with the bound port. */
+  async start(): Promise<number> {
+    if (this.server) {
+      return this.getPort();
+    }
+
+    const server = http.createServer((request, response) => {
+      void this.handleRequest(request, response);
+    });
+    const sockets = new WebSocketServer({ noServer: true, maxPayload: MAX_BODY_BYTES });
+    server.on('upgrade', (request, socket, head) => {
+      const rejection = this.checkRequest(request);
+      if (rejection || this.parseUrl(request).pathname !== EVENTS_PATH) {
+        const statusCode = rejection?.statusCode ?? 404;
+        socket.end(`HTTP/1.1 ${statusCode} ${http.STATUS_CODES[statusCode]}\r\nConnection: close\r\n\r\n`);
+        return;
+      }
+      sockets.handleUpgrade(request, socket, head, (client) => {
+        sockets.emit('connection', client, request);
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.requestedPort, LOCAL_API_HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.sockets = sockets;
+    return this.getPort();
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    const sockets = this.sockets;
+    this.server = null;
+    this.sockets = null;
+    if (!server || !sockets) {
+      return;
+    }
+
+    for (const client of sockets.clients) {
+      client.close(1001, 'Server shutting down');
+    }
+    await new Promise<void>((resolve) => sockets.close(() => resolve()));
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  getPort(): number {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address?.port ?? this.requestedPort;
+  }
+
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  handle(event: SessionEvent): void {
+    if (!this.sockets || !isStreamed(event)) {
+      return;
+    }
+
+    const message = JSON.stringify(event);
+    for (const client of this.sockets.clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    }
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    try {
+      const rejection = this.checkRequest(request);
+      if (rejection) {
+        throw rejection;
+      }
+
+      const { pathname } = this.parseUrl(request);
+      if (pathname === '/api/status') {
+        this.requireMethod(request, 'GET');
+        const status = this.controller.getStatus();
+        this.respond(response, 200, { ready: status !== null, status });
+        return;
+      }
+
+      const action = pathname.match(/^\/api\/session\/(start|stop|pause)$/)?.[1];
+      if (!action) {
+        throw new HttpError(404, 'Not found');
+      }
+      this.requireMethod(request, 'POST');
+
+      const status = this.controller.getStatus();
+      if (!status) {
+        throw new HttpError(503, 'Session manager not initialized');
+      }
+
+      if (action === 'start') {
+        const parsed = sessionConfigSchema.safeParse(await this.readJson(request));
+        if (!parsed.success) {
+          const issue = parsed.error.issues[0];
+          throw new HttpError(400, `Invalid session config: ${issue.path.join('.') || 'body'}: ${issue.message}`);
+        }
+        if (status.isActive) {
+          throw new HttpError(409, 'Session is already active');
+        }
+        await this.controller.start(parsed.data);
+      } else if (action === 'pause') {
+        if (!status.isActive) {
+          throw new HttpError(409, 'No active session');
+        }
+        await this.controller.pause();
+      } else {
+        await this.controller.stop();
+      }
+      this.respond(response, 200, { success: true });
+    } catch (error) {
+      const statusCode = error instanceof HttpError ? error.statusCode : 500;
+      if (statusCode === 500) {
+        console.error('[local-api] Request failed:', error);
+      }
+      const message = error instanceof Error && error.message ? error.message : 'Request failed';
+      this.respond(response, statusCode, { success: false, error: message });
+    }
+  }
+
+  // Checks the Host header (against DNS rebinding) and the token
+  private checkRequest(request: http.IncomingMessage): HttpError | null {
+    const port = this.getPort();
+    if (request.headers.host !== `${LOCAL_API_HOST}:${port}` && request.headers.host !== `localhost:${port}`) {
+      return new HttpError(403, 'Forbidden host');
+    }
+
+    const header = request.headers.authorization;
+    const provided = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : this.parseUrl(request).searchParams.get('token');
+    if (!provided || !this.matchesToken(provided)) {
+      return new HttpError(401, 'Missing or invalid token');
+    }
+    return null;
+  }
+
+  private matchesToken(provided: string): boolean {
+    const expected = Buffer.from(this.token);
+    const actual = Buffer.from(provided);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private parseUrl(request: http.IncomingMessage): URL {
+    return new URL(request.url ?? '/', `http://${LOCAL_API_HOST}`);
+  }
+
+  private requireMethod(request: http.IncomingMessage, method: string): void {
+    if (request.method !== method) {
+      throw new HttpError(405, `Use ${method}`);
+    }
+  }
+
+  private async readJson(request: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8') || 'null');
+    } catch {
+      throw new HttpError(400, 'Request body must be JSON');
+    }
+  }
+
+  private respond(response: http.ServerResponse, statusCode: number, body: unknown): void {
+    response.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
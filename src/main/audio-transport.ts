@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events';
+import type { MessagePortMain } from 'electron';
+
+export type AudioFrameSource = 'microphone' | 'system';
+
+const FRAME_SOURCES: AudioFrameSource[] = ['microphone', 'system'];
+
+// Wire format posted by the preload script; `samples` is a transferred
+// Float32Array buffer. Sequence numbers are counted per source.
+export interface AudioFrame {
+  source: AudioFrameSource;
+  sequence: number;
+  timestamp: number;
+  sampleRate: number;
+  channels: number;
+  samples: ArrayBuffer;
+  // Peak level measured during capture, when the renderer provides it
+  peak?: number;
+}
+
+export interface ReceivedAudioChunk {
+  source: AudioFrameSource;
+  data: Float32Array;
+  sampleRate: number;
+  channels: number;
+  timestamp: number;
+  sequence: number;
+  peak?: number;
+}
+
+export interface AudioGap {
+  source: AudioFrameSource;
+  expected: number;
+  received: number;
+  missing: number;
+}
+
+export interface AudioTransportStats {
+  received: number;
+  dropped: number;
+  outOfOrder: number;
+  lastSequence: number | null;
+}
+
+function isAudioFrame(value: unknown): value is AudioFrame {
+  const frame = value as AudioFrame;
+  return (
+    !!frame &&
+    FRAME_SOURCES.includes(frame.source) &&
+    typeof frame.sequence === 'number' &&
+    typeof frame.timestamp === 'number' &&
+    typeof frame.sampleRate === 'number' &&
+    typeof frame.channels === 'number' &&
+    frame.samples instanceof ArrayBuffer
+  );
+}
+
+/**
+ * Receives binary audio frames from the renderer over a MessagePort.
+ *
+ * Emits `chunk` for every frame that arrives in sequence, `gap` when frames
+ * were skipped and `out-of-order` for late frames, which are discarded so the
+ * VAD never sees audio out of order. Each capture source is tracked separately.
+ */
+export class AudioTransport extends EventEmitter {
+  private port: MessagePortMain | null = null;
+  private expectedSequences = new Map<AudioFrameSource, number>();
+  private stats: AudioTransportStats = this.createStats();
+
+  attach(port: MessagePortMain): void {
+    this.detach();
+    this.port = port;
+    this.reset();
+
+    port.on('message', (event) => this.handleFrame(event.data));
+    port.on('close', () => {
+      if (this.port === port) {
+        this.port = null;
+      }
+    });
+    port.start();
+  }
+
+  detach(): void {
+    if (this.port) {
+      this.port.removeAllListeners();
+      this.port.close();
+      this.port = null;
+    }
+  }
+
+  /**
+   * Forgets the last sequence number, e.g. when a new capture starts and the
+   * renderer begins numbering from zero again.
+   */
+  reset(): void {
+    this.expectedSequences.clear();
+    this.stats = this.createStats();
+  }
+
+  getStats(): AudioTransportStats {
+    return { ...this.stats };
+  }
+
+  private handleFrame(frame: unknown): void {
+    if (!isAudioFrame(frame)) {
+      console.warn('[audio-transport] Ignoring malformed audio frame');
+      return;
+    }
+
+    const expected = this.expectedSequences.get(frame.source);
+    if (expected !== undefined && frame.sequence < expected) {
+      this.stats.outOfOrder++;
+      this.emit('out-of-order', { source: frame.source, expected, received: frame.sequence });
+      return;
+    }
+
+    if (expected !== undefined && frame.sequence > expected) {
+      const gap: AudioGap = {
+        source: frame.source,
+        expected,
+        received: frame.sequence,
+        missing: frame.sequence - expected,
+      };
+      this.stats.dropped += gap.missing;
+      this.emit('gap', gap);
+    }
+
+    this.expectedSequences.set(frame.source, frame.sequence + 1);
+    this.stats.received++;
+    this.stats.lastSequence = frame.sequence;
+
+    const chunk: ReceivedAudioChunk = {
+      source: frame.source,
+      data: new Float32Array(frame.samples),
+      sampleRate: frame.sampleRate,
+      channels: frame.channels,
+      timestamp: frame.timestamp,
+      sequence: frame.sequence,
+      peak: typeof frame.peak === 'number' ? frame.peak : undefined,
+    };
+    this.emit('chunk', chunk);
+  }
+
+  private createStats(): AudioTransportStats {
+    return { received: 0, dropped: 0, outOfOrder: 0, lastSequence: null };
+  }
+}
+
+// 4096-sample frames from two sources: a few seconds of audio at most
+const MAX_PENDING_CHUNKS = 32;
+
+/**
+ * Feeds received chunks to `process` one at a time, in arrival order, so the
+ * VAD and keyword spotter see them in order too. When processing falls more
+ * than `maxPending` chunks behind, the oldest waiting chunk is dropped and
+ * reported as a `gap` rather than letting audio pile up in memory.
+ */
+export class AudioChunkQueue extends EventEmitter {
+  private pending: ReceivedAudioChunk[] = [];
+  private draining = false;
+
+  constructor(
+    private readonly process: (chunk: ReceivedAudioChunk) => Promise<void>,
+    private readonly maxPending = MAX_PENDING_CHUNKS
+  ) {
+    super();
+  }
+
+  push(chunk: ReceivedAudioChunk): void {
+    this.pending.push(chunk);
+    if (this.pending.length > this.maxPending) {
+      const dropped = this.pending.shift()!;
+      const gap: AudioGap = {
+        source: dropped.source,
+        expected: dropped.sequence,
+        received: dropped.sequence + 1,
+        missing: 1,
+      };
+      this.emit('gap', gap);
+    }
+
+    if (!this.draining) {
+      void this.drain();
+    }
+  }
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+    let chunk: ReceivedAudioChunk | undefined;
+    while ((chunk = this.pending.shift())) {
+      try {
+        await this.process(chunk);
+      } catch (error) {
+        console.error('[audio-transport] Error processing audio chunk:', error);
+      }
+    }
+    this.draining = false;
+  }
+}
@@ -1,19 +1,188 @@
-import { app, BrowserWindow, ipcMain, desktopCapturer } from 'electron';
+import { app, BrowserWindow, ipcMain, desktopCapturer, dialog } from 'electron';
 import * as path from 'path';
 import { setupSecurity } from './security';
 import { setupAutoUpdater } from './auto-updater';
-import { AIConsulEngine } from '../core/engine';
+import { AIConsulEngine, EngineConfig, SessionConfig } from '../core/engine';
 import { SessionManager } from '../core/session';
+import { shutdownInferenceClient } from '../core/inference/client';
+import { ModelDownloadProgress, ModelManager } from '../core/models/manager';
+import { getRequiredModels } from '../core/models/catalog';
+import { resolveVoiceCommands } from '../core/audio/voice-commands';
 import { setupErrorHandling } from '../utils/error-handler';
+import { SettingsService, RendererSettings } from './settings';
+import { VoiceProfileStore } from './voice-profile';
+import { VADCalibrationFileStore } from './vad-calibration';
+import { SessionRecordFileStore } from './session-records';
+import { AudioChunkQueue, AudioTransport, AudioGap, ReceivedAudioChunk } from './audio-transport';
+import { WindowSessionSink } from './window-sink';
+import { LocalApiServer, SessionController } from './api-server';
 
 let mainWindow: BrowserWindow | null = null;
 let companionWindow: BrowserWindow | null = null;
 let transcriptWindow: BrowserWindow | null = null;
 let engine: AIConsulEngine | null = null;
 let sessionManager: SessionManager | null = null;
+let settingsService: SettingsService | null = null;
+let voiceProfileStore: VoiceProfileStore | null = null;
+let modelManager: ModelManager | null = null;
+let localApi: LocalApiServer | null = null;
+let localApiError: string | null = null;
+// Settings updates arrive in bursts; server restarts run one at a time
+let localApiUpdate: Promise<void> = Promise.resolve();
+const audioTransport = new AudioTransport();
+const windowSink = new WindowSessionSink();
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
+function describeError(error: unknown, fallback: string): string {
+  return (error instanceof Error ? error.message : String(error)) || fallback;
+}
+
+function getSettingsService(): SettingsService {
+  if (!settingsService) {
+    settingsService = new SettingsService(path.join(app.getPath('userData'), 'settings.json'));
+    settingsService.on('engine-config-changed', (config: EngineConfig) => {
+      void applyEngineConfig(config);
+    });
+  }
+  return settingsService;
+}
+
+function getVoiceProfileStore(): VoiceProfileStore {
+  if (!voiceProfileStore) {
+    voiceProfileStore = new VoiceProfileStore(path.join(app.getPath('userData'), 'voice-profile.json'));
+  }
+  return voiceProfileStore;
+}
+
+function getModelManager(): ModelManager {
+  if (!modelManager) {
+    const config = getSettingsService().getEngineConfig();
+    modelManager = new ModelManager({ offline: !!config.privacy.strictOffline });
+    modelManager.on('progress', (progress: ModelDownloadProgress) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('model-download-progress', progress);
+      }
+    });
+  }
+  return modelManager;
+}
+
+function createEngine(): AIConsulEngine {
+  const created = new AIConsulEngine(getSettingsService().getEngineConfig());
+  created.setVoiceProfile(getVoiceProfileStore().getProfile());
+  return created;
+}
+
+function createSessionManager(forEngine: AIConsulEngine): SessionManager {
+  const created = new SessionManager(forEngine);
+  created.setCalibrationStore(
+    new VADCalibrationFileStore(path.join(app.getPath('userData'), 'vad-calibration.json'))
+  );
+  created.setRecordStore(new SessionRecordFileStore(path.join(app.getPath('userData'), 'sessions')));
+  created.addSink(windowSink);
+  if (localApi) {
+    created.addSink(localApi);
+  }
+  return created;
+}
+
+// Shared by the ipcMain handlers and the local API
+async function startSession(config: SessionConfig): Promise<void> {
+  if (!sessionManager) {
+    throw new Error('Session manager not initialized. Please wait for the app to finish loading.');
+  }
+  audioTransport.reset();
+  await sessionManager.start(config);
+}
+
+async function stopSession(): Promise<void> {
+  if (!sessionManager) {
+    throw new Error('Session manager not initialized');
+  }
+  await sessionManager.stop();
+}
+
+async function pauseSession(): Promise<void> {
+  if (!sessionManager) {
+    throw new Error('Session manager not initialized');
+  }
+  await sessionManager.pause();
+}
+
+const sessionController: SessionController = {
+  start: startSession,
+  stop: stopSession,
+  pause: pauseSession,
+  getStatus: () => sessionManager?.getStatus() ?? null,
+};
+
+// Starts, restarts or stops the local API to match the persisted settings
+async function applyLocalApiSettings(): Promise<void> {
+  const service = getSettingsService();
+  const { localApi: enabled, localApiPort: port } = service.getSettings().renderer;
+  const token = enabled ? service.getApiToken() : null;
+
+  if (localApi && (!enabled || localApi.getPort() !== port || localApi.token !== token)) {
+    sessionManager?.removeSink(localApi);
+    await localApi.close();
+    localApi = null;
+    console.log('[main] Local API stopped');
+  }
+  localApiError = null;
+  if (!enabled || !token || localApi) {
+    return;
+  }
+
+  const server = new LocalApiServer({ port, token, controller: sessionController });
+  try {
+    await server.start();
+    localApi = server;
+    sessionManager?.addSink(server);
+    console.log(`[main] Local API listening on http://127.0.0.1:${port}`);
+  } catch (error) {
+    const inUse = error instanceof Error && 'code' in error && error.code === 'EADDRINUSE';
+    localApiError = inUse ? `Port ${port} is already in use` : describeError(error, 'Failed to start');
+    console.error('[main] Failed to start local API:', error);
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('error', `Local API: ${localApiError}`);
+    }
+  }
+}
+
+function scheduleLocalApiUpdate(): Promise<void> {
+  localApiUpdate = localApiUpdate.then(applyLocalApiSettings);
+  return localApiUpdate;
+}
+
+async function getLocalApiInfo() {
+  await localApiUpdate;
+  const { localApi: enabled, localApiPort: port } = getSettingsService().getSettings().renderer;
+  return {
+    enabled,
+    port,
+    running: localApi !== null,
+    token: enabled ? getSettingsService().getApiToken() : null,
+    error: localApiError,
+  };
+}
+
+// Rebuild engine services in place so a running session picks up new settings
+async function applyEngineConfig(config: EngineConfig): Promise<void> {
+  modelManager?.setOffline(!!config.privacy.strictOffline);
+  if (!engine) {
+    return;
+  }
+  try {
+    await engine.updateConfig(config);
+  } catch (error) {
+    console.error('[main] Failed to apply engine configuration:', error);
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('error', describeError(error, 'Failed to apply settings'));
+    }
+  }
+}
+
 function createMainWindow(): void {
   mainWindow = new BrowserWindow({
     width: 1200,
@@ -136,28 +305,7 @@ ipcMain.handle('session-manager-ready', () => {
     if (engine === null) {
       console.log('Engine is also null, creating engine first...');
       try {
-        engine = new AIConsulEngine({
-          privacy: {
-            offlineFirst: true,
-            cloudFallback: false,
-            dataRetention: 7,
-          },
-          performance: {
-            hardwareTier: 'auto-detect',
-            latencyTarget: 5000,
-            qualityPreference: 'balanced',
-          },
-          models: {
-            transcription: {
-              primary: 'local-whisper-base',
-              fallback: 'cloud-whisper',
-            },
-            llm: {
-              primary: 'ollama://llama3:8b',
-              fallbacks: ['gpt-4o-mini', 'claude-3-haiku'],
-            },
-          },
-        });
+        engine = createEngine();
         console.log('Engine created in IPC handler');
       } catch (error) {
         console.error('Error creating engine in IPC handler:', error);
@@ -168,11 +316,11 @@ ipcMain.handle('session-manager-ready', () => {
     if (engine !== null) {
       console.log('Creating session manager with existing engine...');
       try {
-        sessionManager = new SessionManager(engine);
+        sessionManager = createSessionManager(engine);
         console.log('Session manager created successfully in IPC handler');
         
         if (mainWindow && companionWindow) {
-          sessionManager.setWindows(mainWindow, companionWindow, transcriptWindow ?? undefined);
+          windowSink.setWindows(mainWindow, companionWindow, transcriptWindow ?? undefined);
           console.log('Session manager windows set in IPC handler');
         } else {
           console.warn('Windows not available in IPC handler');
@@ -194,41 +342,72 @@ ipcMain.handle('session-manager-ready', () => {
 // Session management IPC handlers - registered at module load, sessionManager checked at runtime
 ipcMain.handle('start-session', async (_event, config) => {
   console.log('[main] start-session IPC handler called with config:', config);
-  if (!sessionManager) {
-    console.error('[main] Session manager not initialized');
-    throw new Error('Session manager not initialized. Please wait for the app to finish loading.');
-  }
   try {
     console.log('[main] Calling sessionManager.start()');
-    await sessionManager.start(config);
+    await startSession(config);
     console.log('[main] sessionManager.start() completed successfully');
     // Send status update to renderer
     if (mainWindow && !mainWindow.isDestroyed()) {
       mainWindow.webContents.send('session-status', { isActive: true, mode: config.mode });
     }
     return { success: true };
-  } catch (error: any) {
+  } catch (error) {
     if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send('error', error.message || 'Failed to start session');
+      mainWindow.webContents.send('error', describeError(error, 'Failed to start session'));
     }
     throw error;
   }
 });
 
+// A recorded file decoded by the renderer runs through the session pipeline;
+// the invoke resolves once the whole file is processed and saved
+ipcMain.handle(
+  'process-recording',
+  async (
+    _event,
+    payload: { config?: SessionConfig; fileName?: string; samples?: Float32Array; sampleRate?: number }
+  ) => {
+    if (!sessionManager) {
+      return { success: false, error: 'Session manager not initialized' };
+    }
+    try {
+      if (
+        !payload?.config ||
+        !(payload.samples instanceof Float32Array) ||
+        typeof payload.sampleRate !== 'number'
+      ) {
+        throw new Error('Invalid recording');
+      }
+
+      const record = await sessionManager.processRecording(payload.config, {
+        fileName: payload.fileName || 'recording',
+        samples: payload.samples,
+        sampleRate: payload.sampleRate,
+      });
+      return record
+        ? { success: true, sessionId: record.id, transcripts: record.transcripts.length }
+        : { success: false, canceled: true };
+    } catch (error) {
+      console.error('[main] Recording processing failed:', error);
+      return { success: false, error: describeError(error, 'Failed to process recording') };
+    }
+  }
+);
+
 ipcMain.handle('stop-session', async () => {
   if (!sessionManager) {
     return { success: false, error: 'Session manager not initialized' };
   }
   try {
-    await sessionManager.stop();
+    await stopSession();
     // Send status update to renderer
     if (mainWindow && !mainWindow.isDestroyed()) {
       mainWindow.webContents.send('session-status', { isActive: false });
     }
     return { success: true };
-  } catch (error: any) {
+  } catch (error) {
     if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send('error', error.message || 'Failed to stop session');
+      mainWindow.webContents.send('error', describeError(error, 'Failed to stop session'));
     }
     return { success: false };
   }
@@ -239,61 +418,190 @@ ipcMain.handle('pause-session', async () => {
     return { success: false, error: 'Session manager not initialized' };
   }
   try {
-    await sessionManager.pause();
+    await pauseSession();
     return { success: true };
-  } catch (error: any) {
+  } catch (error) {
     if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send('error', error.message || 'Failed to pause session');
+      mainWindow.webContents.send('error', describeError(error, 'Failed to pause session'));
     }
     return { success: false };
   }
 });
 
-// Handle audio chunks from renderer
-ipcMain.on('audio-chunk', async (_event, chunkData: { data: number[]; sampleRate: number; channels: number; timestamp: number }) => {
+ipcMain.handle('get-settings', () => {
+  const settings = getSettingsService().getSettings();
+  // The renderer tells users what to say, and the phrases can be reconfigured
+  return {
+    ...settings,
+    voiceCommandPhrases: resolveVoiceCommands(settings.engine.voiceCommands?.commands),
+  };
+});
+
+// Apply settings changes from the renderer to the running engine
+ipcMain.on('update-settings', (_event, update: RendererSettings) => {
   try {
-    console.log('[main] audio-chunk IPC received:', {
-      dataLength: chunkData.data?.length,
-      sampleRate: chunkData.sampleRate,
-      channels: chunkData.channels,
-      timestamp: chunkData.timestamp,
-      hasSessionManager: !!sessionManager
-    });
+    getSettingsService().update(update ?? {});
+    if (update?.localApi !== undefined || update?.localApiPort !== undefined) {
+      void scheduleLocalApiUpdate();
+    }
+  } catch (error) {
+    console.error('[main] Failed to persist settings update:', error);
+  }
+});
 
-    if (!sessionManager) {
-      console.error('[main] No session manager available');
-      return;
+ipcMain.handle('get-local-api', () => getLocalApiInfo());
+
+ipcMain.handle('regenerate-local-api-token', async () => {
+  getSettingsService().regenerateApiToken();
+  await scheduleLocalApiUpdate();
+  return getLocalApiInfo();
+});
+
+ipcMain.handle('get-voice-profile', () => {
+  const profile = getVoiceProfileStore().getProfile();
+  return { enrolled: profile !== null, createdAt: profile?.createdAt ?? null };
+});
+
+// Enrollment audio arrives as 16 kHz mono samples recorded by the renderer
+ipcMain.handle('enroll-voice', async (_event, payload: { samples?: Float32Array; sampleRate?: number }) => {
+  try {
+    if (!engine) {
+      throw new Error('Engine not initialized');
+    }
+    if (!(payload?.samples instanceof Float32Array) || typeof payload.sampleRate !== 'number') {
+      throw new Error('Invalid enrollment audio');
     }
 
-    // Convert array back to Float32Array
-    const float32Array = new Float32Array(chunkData.data);
-    const maxAmplitude = float32Array.reduce(
-      (max, value) => Math.max(max, Math.abs(value)),
-      0
-    );
-    const avgAmplitude =
-      float32Array.reduce((sum, val) => sum + Math.abs(val), 0) / float32Array.length;
-    const chunk = {
-      data: float32Array,
-      sampleRate: chunkData.sampleRate,
-      channels: chunkData.channels,
-      timestamp: chunkData.timestamp,
-      maxAmplitude,
-    };
+    const profile = await engine.createVoiceProfile(payload.samples, payload.sampleRate);
+    getVoiceProfileStore().save(profile);
+    engine.setVoiceProfile(profile);
+    return { success: true, createdAt: profile.createdAt };
+  } catch (error) {
+    console.error('[main] Voice enrollment failed:', error);
+    return { success: false, error: describeError(error, 'Voice enrollment failed') };
+  }
+});
+
+ipcMain.handle('clear-voice-profile', () => {
+  getVoiceProfileStore().clear();
+  engine?.setVoiceProfile(null);
+  return { success: true };
+});
 
-    console.log('[main] Processing audio chunk:', {
-      dataLength: float32Array.length,
-      sampleRate: chunk.sampleRate,
-      channels: chunk.channels,
+// Required models for the current settings plus anything else in the cache
+ipcMain.handle('list-models', () => {
+  return getModelManager().listModels(getRequiredModels(getSettingsService().getEngineConfig()));
+});
+
+// Pre-downloads the models the current settings need; progress is pushed as
+// 'model-download-progress' events
+ipcMain.handle('download-models', async () => {
+  const manager = getModelManager();
+  const required = getRequiredModels(getSettingsService().getEngineConfig());
+  try {
+    await manager.download(required);
+    return { success: true, models: manager.listModels(required) };
+  } catch (error) {
+    console.error('[main] Model download failed:', error);
+    return { success: false, error: describeError(error, 'Model download failed'), models: manager.listModels(required) };
+  }
+});
+
+ipcMain.handle('verify-models', async () => {
+  const manager = getModelManager();
+  const installed = manager
+    .listModels(getRequiredModels(getSettingsService().getEngineConfig()))
+    .filter((model) => model.status !== 'missing');
+  const results = [];
+  for (const model of installed) {
+    results.push(await manager.verify(model.id));
+  }
+  return results;
+});
+
+ipcMain.handle('import-model-bundle', async () => {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Import model bundle',
+    properties: ['openDirectory'],
+  };
+  const selection = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  if (selection.canceled || selection.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const imported = await getModelManager().importBundle(selection.filePaths[0]);
+    return { success: true, imported };
+  } catch (error) {
+    console.error('[main] Model bundle import failed:', error);
+    return { success: false, error: describeError(error, 'Model bundle import failed') };
+  }
+});
+
+// Names a diarized speaker from the transcript window
+ipcMain.on('rename-speaker', (_event, payload: { speakerId?: string; label?: string }) => {
+  if (!sessionManager || !payload?.speakerId || typeof payload.label !== 'string') {
+    return;
+  }
+  sessionManager.renameSpeaker(payload.speakerId, payload.label);
+});
+
+// The renderer hands over a MessagePort on load; audio frames arrive on it as
+// transferred buffers instead of JSON-serialised number arrays
+ipcMain.on('audio-port', (event) => {
+  const [port] = event.ports;
+  if (!port) {
+    console.error('[main] audio-port message did not include a port');
+    return;
+  }
+  audioTransport.attach(port);
+  console.log('[main] Audio transport port attached');
+});
+
+// Microphone and system audio stay separate so the session can segment and
+// label each channel on its own
+async function processReceivedChunk(received: ReceivedAudioChunk): Promise<void> {
+  if (!sessionManager) {
+    return;
+  }
+
+  try {
+    const maxAmplitude =
+      received.peak ??
+      received.data.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+
+    await sessionManager.processAudioChunk({
+      data: received.data,
+      sampleRate: received.sampleRate,
+      channels: received.channels,
+      timestamp: received.timestamp,
       maxAmplitude,
-      avgAmplitude,
+      source: received.source,
     });
-
-    await sessionManager.processAudioChunk(chunk);
-    console.log('[main] Audio chunk processed successfully');
   } catch (error) {
     console.error('[main] Error processing audio chunk:', error);
   }
+}
+
+// The transport delivers chunks in order and the queue keeps that order
+const audioQueue = new AudioChunkQueue(processReceivedChunk);
+
+audioTransport.on('chunk', (received: ReceivedAudioChunk) => {
+  audioQueue.push(received);
+});
+
+audioTransport.on('gap', (gap: AudioGap) => {
+  console.warn('[main] Audio frames dropped:', gap);
+});
+
+audioQueue.on('gap', (gap: AudioGap) => {
+  console.warn('[main] Audio frames dropped while processing fell behind:', gap);
+});
+
+audioTransport.on('out-of-order', (info: Omit<AudioGap, 'missing'>) => {
+  console.warn('[main] Discarded out-of-order audio frame:', info);
 });
 
 // Initialize immediately when app is ready
@@ -314,28 +622,7 @@ app.whenReady().then(async () => {
   console.log('Windows ready, proceeding with initialization');
 
   // Initialize AI engine object (not initialized yet, just created)
-  engine = new AIConsulEngine({
-    privacy: {
-      offlineFirst: true,
-      cloudFallback: false,
-      dataRetention: 7,
-    },
-    performance: {
-      hardwareTier: 'auto-detect',
-      latencyTarget: 5000,
-      qualityPreference: 'balanced',
-    },
-    models: {
-      transcription: {
-        primary: 'local-whisper-base',
-        fallback: 'cloud-whisper',
-      },
-      llm: {
-        primary: 'ollama://llama3:8b',
-        fallbacks: ['gpt-4o-mini', 'claude-3-haiku'],
-      },
-    },
-  });
+  engine = createEngine();
 
   // Create session manager IMMEDIATELY after engine object is created
   // This happens synchronously, before renderer starts polling
@@ -345,13 +632,13 @@ app.whenReady().then(async () => {
     console.log('Main window exists:', mainWindow !== null);
     console.log('Companion window exists:', companionWindow !== null);
     
-    sessionManager = new SessionManager(engine);
+    sessionManager = createSessionManager(engine);
     console.log('Session manager created successfully');
     console.log('Session manager is not null:', sessionManager !== null);
     
     // Set windows if they exist
     if (mainWindow && companionWindow) {
-      sessionManager.setWindows(mainWindow, companionWindow, transcriptWindow ?? undefined);
+      windowSink.setWindows(mainWindow, companionWindow, transcriptWindow ?? undefined);
       console.log('Session manager windows set');
     } else {
       console.warn('Windows not ready, session manager created without window context');
@@ -398,6 +685,9 @@ app.whenReady().then(async () => {
     }
   }
 
+  // Opt-in; starts only when enabled in settings
+  void scheduleLocalApiUpdate();
+
   // Initialize engine in background (non-blocking)
   (async () => {
     try {
@@ -426,7 +716,7 @@ app.whenReady().then(async () => {
       createCompanionWindow();
       createTranscriptWindow();
       if (sessionManager && mainWindow && companionWindow) {
-        sessionManager.setWindows(mainWindow, companionWindow, transcriptWindow ?? undefined);
+        windowSink.setWindows(mainWindow, companionWindow, transcriptWindow ?? undefined);
       }
     }
   });
@@ -442,5 +732,7 @@ app.on('before-quit', () => {
   if (companionWindow) {
     companionWindow.destroy();
   }
+  void localApi?.close();
+  void shutdownInferenceClient();
 });
 
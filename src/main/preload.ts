@@ -1,4 +1,18 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { AudioFrame } from './audio-transport';
+
+// Audio frames travel over a dedicated MessagePort so their buffers can be
+// transferred instead of serialised through ipcRenderer.send
+let audioPort: MessagePort | null = null;
+
+function getAudioPort(): MessagePort {
+  if (!audioPort) {
+    const channel = new MessageChannel();
+    audioPort = channel.port1;
+    ipcRenderer.postMessage('audio-port', null, [channel.port2]);
+  }
+  return audioPort;
+}
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -7,26 +21,29 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getAppVersion: () => ipcRenderer.invoke('app-version'),
   getPlatform: () => ipcRenderer.invoke('platform'),
   invoke: (channel: string, data?: any) => {
-    const validChannels = ['start-session', 'stop-session', 'pause-session', 'session-manager-ready'];
+    const validChannels = ['start-session', 'stop-session', 'pause-session', 'session-manager-ready', 'get-settings', 'get-voice-profile', 'enroll-voice', 'clear-voice-profile', 'list-models', 'download-models', 'verify-models', 'import-model-bundle', 'process-recording', 'get-local-api', 'regenerate-local-api-token'];
     if (validChannels.includes(channel)) {
       return ipcRenderer.invoke(channel, data);
     }
     return Promise.reject(new Error(`Invalid channel: ${channel}`));
   },
   on: (channel: string, callback: (...args: any[]) => void) => {
-    const validChannels = ['suggestions-update', 'transcriptions-update', 'session-status', 'error', 'start-audio-capture', 'stop-audio-capture', 'session-manager-ready'];
+    const validChannels = ['suggestions-update', 'suggestions-partial', 'suggestions-cancelled', 'transcriptions-update', 'transcription-partial', 'session-status', 'error', 'start-audio-capture', 'stop-audio-capture', 'session-manager-ready', 'model-download-progress', 'recording-progress'];
     if (validChannels.includes(channel)) {
       ipcRenderer.on(channel, (_event, ...args) => callback(...args));
     }
   },
   removeListener: (channel: string, callback: (...args: any[]) => void) => {
-    const validChannels = ['suggestions-update', 'transcriptions-update', 'session-status', 'error', 'start-audio-capture', 'stop-audio-capture', 'session-manager-ready'];
+    const validChannels = ['suggestions-update', 'suggestions-partial', 'suggestions-cancelled', 'transcriptions-update', 'transcription-partial', 'session-status', 'error', 'start-audio-capture', 'stop-audio-capture', 'session-manager-ready', 'model-download-progress', 'recording-progress'];
     if (validChannels.includes(channel)) {
       ipcRenderer.removeListener(channel, callback);
     }
   },
+  sendAudioFrame: (frame: AudioFrame) => {
+    getAudioPort().postMessage(frame, [frame.samples]);
+  },
   send: (channel: string, data: any) => {
-    const validChannels = ['update-settings', 'audio-chunk'];
+    const validChannels = ['update-settings', 'rename-speaker'];
     if (validChannels.includes(channel)) {
       ipcRenderer.send(channel, data);
     }
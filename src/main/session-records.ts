@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SessionRecord, SessionRecordStore } from '../core/session-record';
+
+/**
+ * Saves finished sessions as one JSON file each under userData/sessions, so
+ * a large transcript never has to be rewritten to add another session.
+ */
+export class SessionRecordFileStore implements SessionRecordStore {
+  constructor(private readonly directory: string) {}
+
+  save(record: SessionRecord): void {
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(this.getPath(record.id), JSON.stringify(record), 'utf-8');
+    } catch (error) {
+      console.error('[session-records] Failed to save session:', error);
+    }
+  }
+
+  get(id: string): SessionRecord | null {
+    try {
+      const filePath = this.getPath(id);
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SessionRecord;
+    } catch (error) {
+      console.error(`[session-records] Failed to load session ${id}:`, error);
+      return null;
+    }
+  }
+
+  private getPath(id: string): string {
+    // Ids are generated UUIDs; anything else could escape the directory
+    return path.join(this.directory, `${path.basename(id)}.json`);
+  }
+}
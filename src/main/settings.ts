@@ -0,0 +1,283 @@
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EngineConfig } from '../core/engine';
+
+export type AudioSourceSetting = 'mic-only' | 'full-system-audio';
+export type PrivacyModeSetting = 'local-first' | 'cloud-enabled';
+export type PerformanceTierSetting = 'basic' | 'standard' | 'pro' | 'auto-detected';
+
+// Shape of the `update-settings` payload sent by the renderer store
+export interface RendererSettings {
+  audioSource?: AudioSourceSetting;
+  privacyMode?: PrivacyModeSetting;
+  performanceTier?: PerformanceTierSetting;
+  ollamaModel?: string;
+  customVocabulary?: string[];
+  voiceCommands?: boolean;
+  strictOffline?: boolean;
+  localApi?: boolean;
+  localApiPort?: number;
+}
+
+export const DEFAULT_LOCAL_API_PORT = 7849;
+
+export interface PersistedSettings {
+  engine: EngineConfig;
+  renderer: Required<RendererSettings>;
+  // Bearer token for the local API, created the first time it is needed
+  apiToken: string | null;
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  privacy: {
+    offlineFirst: true,
+    cloudFallback: false,
+    dataRetention: 7,
+    strictOffline: false,
+  },
+  performance: {
+    hardwareTier: 'auto-detect',
+    latencyTarget: 5000,
+    qualityPreference: 'balanced',
+  },
+  models: {
+    transcription: {
+      primary: 'local-whisper-base',
+      fallback: 'cloud-whisper',
+    },
+    llm: {
+      primary: 'ollama://llama3:8b',
+      fallbacks: ['gpt-4o-mini', 'claude-3-haiku'],
+    },
+  },
+  diarization: {
+    enabled: true,
+  },
+  streaming: {
+    enabled: true,
+    partialIntervalMs: 1000,
+  },
+  vad: {
+    backend: 'silero',
+    thresholds: {
+      minSilenceDurationMs: 1200,
+      energyThreshold: 0.01,
+      pauseDelayChunks: 2,
+    },
+    calibration: {
+      enabled: true,
+      durationMs: 3000,
+    },
+  },
+  voiceCommands: {
+    enabled: false,
+  },
+  vocabulary: {
+    customTerms: [],
+  },
+};
+
+const DEFAULT_RENDERER_SETTINGS: Required<RendererSettings> = {
+  audioSource: 'mic-only',
+  privacyMode: 'local-first',
+  performanceTier: 'auto-detected',
+  ollamaModel: 'llama3:8b',
+  customVocabulary: [],
+  voiceCommands: false,
+  strictOffline: false,
+  localApi: false,
+  localApiPort: DEFAULT_LOCAL_API_PORT,
+};
+
+const WHISPER_MODEL_BY_TIER: Record<
+  PerformanceTierSetting,
+  EngineConfig['models']['transcription']['primary']
+> = {
+  basic: 'local-whisper-tiny',
+  standard: 'local-whisper-base',
+  pro: 'local-whisper-small',
+  'auto-detected': 'local-whisper-base',
+};
+
+function cloneConfig<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Translates the renderer's coarse settings into an EngineConfig, starting
+ * from the current config so fields the renderer does not control survive.
+ */
+export function applyRendererSettings(
+  current: EngineConfig,
+  settings: RendererSettings
+): EngineConfig {
+  const next = cloneConfig(current);
+
+  if (settings.privacyMode) {
+    const cloudEnabled = settings.privacyMode === 'cloud-enabled';
+    next.privacy.cloudFallback = cloudEnabled;
+    next.privacy.offlineFirst = !cloudEnabled;
+  }
+
+  if (settings.performanceTier) {
+    next.performance.hardwareTier =
+      settings.performanceTier === 'auto-detected' ? 'auto-detect' : settings.performanceTier;
+
+    // Only swap the local model size; an explicit cloud-whisper choice is left alone
+    if (next.models.transcription.primary.startsWith('local-whisper')) {
+      next.models.transcription.primary = WHISPER_MODEL_BY_TIER[settings.performanceTier];
+    }
+  }
+
+  if (settings.ollamaModel && settings.ollamaModel.trim().length > 0) {
+    const model = settings.ollamaModel.trim().replace(/^ollama:\/\//, '');
+    next.models.llm.primary = `ollama://${model}`;
+  }
+
+  if (settings.customVocabulary) {
+    next.vocabulary = {
+      customTerms: settings.customVocabulary.map((term) => term.trim()).filter(Boolean),
+    };
+  }
+
+  if (typeof settings.voiceCommands === 'boolean') {
+    next.voiceCommands = { ...next.voiceCommands, enabled: settings.voiceCommands };
+  }
+
+  if (typeof settings.strictOffline === 'boolean') {
+    next.privacy.strictOffline = settings.strictOffline;
+  }
+
+  return next;
+}
+
+type DeepPartial<T> = T extends unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+export type EngineConfigOverrides = DeepPartial<EngineConfig>;
+
+/**
+ * Fills a partial EngineConfig (a settings file or CLI `--config`) section by
+ * section from `base`, so a file that sets only `models.llm` keeps the
+ * default transcription model.
+ */
+export function mergeEngineConfig(base: EngineConfig, raw?: EngineConfigOverrides): EngineConfig {
+  const defaults = cloneConfig(base);
+  return {
+    privacy: { ...defaults.privacy, ...raw?.privacy },
+    performance: { ...defaults.performance, ...raw?.performance },
+    models: {
+      transcription: { ...defaults.models.transcription, ...raw?.models?.transcription },
+      llm: { ...defaults.models.llm, ...raw?.models?.llm },
+    },
+    ...(raw?.pipeline ? { pipeline: raw.pipeline } : {}),
+    diarization: { ...defaults.diarization!, ...raw?.diarization },
+    streaming: { ...defaults.streaming!, ...raw?.streaming },
+    vad: {
+      ...defaults.vad!,
+      ...raw?.vad,
+      thresholds: { ...defaults.vad!.thresholds, ...raw?.vad?.thresholds },
+      calibration: { ...defaults.vad!.calibration!, ...raw?.vad?.calibration },
+    },
+    voiceCommands: { ...defaults.voiceCommands!, ...raw?.voiceCommands },
+    vocabulary: { ...defaults.vocabulary!, ...raw?.vocabulary },
+  };
+}
+
+export class SettingsService extends EventEmitter {
+  private filePath: string;
+  private settings: PersistedSettings;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    this.settings = this.load();
+  }
+
+  getEngineConfig(): EngineConfig {
+    return cloneConfig(this.settings.engine);
+  }
+
+  getSettings(): PersistedSettings {
+    return cloneConfig(this.settings);
+  }
+
+  /**
+   * Merges a renderer update, persists it and emits `engine-config-changed`
+   * when the resulting EngineConfig differs from the previous one.
+   */
+  update(settings: RendererSettings): EngineConfig {
+    const previous = JSON.stringify(this.settings.engine);
+    const engine = applyRendererSettings(this.settings.engine, settings);
+
+    const renderer = { ...this.settings.renderer };
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined && key in DEFAULT_RENDERER_SETTINGS) {
+        (renderer as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    this.settings = { ...this.settings, engine, renderer };
+    this.save();
+
+    if (JSON.stringify(engine) !== previous) {
+      this.emit('engine-config-changed', this.getEngineConfig());
+    }
+
+    return this.getEngineConfig();
+  }
+
+  /** Returns the local API token, creating and persisting one if needed. */
+  getApiToken(): string {
+    if (!this.settings.apiToken) {
+      return this.regenerateApiToken();
+    }
+    return this.settings.apiToken;
+  }
+
+  /** Replaces the local API token; clients using the old one are locked out. */
+  regenerateApiToken(): string {
+    const apiToken = randomBytes(32).toString('base64url');
+    this.settings = { ...this.settings, apiToken };
+    this.save();
+    return apiToken;
+  }
+
+  private load(): PersistedSettings {
+    const defaults: PersistedSettings = {
+      engine: cloneConfig(DEFAULT_ENGINE_CONFIG),
+      renderer: { ...DEFAULT_RENDERER_SETTINGS },
+      apiToken: null,
+    };
+
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return defaults;
+      }
+
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      return {
+        engine: mergeEngineConfig(defaults.engine, raw.engine),
+        renderer: { ...defaults.renderer, ...raw.renderer },
+        apiToken: typeof raw.apiToken === 'string' ? raw.apiToken : null,
+      };
+    } catch (error) {
+      console.error('[settings] Failed to load settings, using defaults:', error);
+      return defaults;
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.settings, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('[settings] Failed to persist settings:', error);
+    }
+  }
+}
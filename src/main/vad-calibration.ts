@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { VADCalibration, VADCalibrationStore } from '../core/audio/vad-calibration';
+
+function isVADCalibration(value: unknown): value is VADCalibration {
+  const calibration = value as VADCalibration;
+  return (
+    !!calibration &&
+    typeof calibration.noiseFloor === 'number' &&
+    typeof calibration.energyThreshold === 'number' &&
+    typeof calibration.calibratedAt === 'number'
+  );
+}
+
+/**
+ * Keeps microphone noise calibrations in a JSON file under userData, keyed by
+ * device id. Malformed entries are dropped on load so a bad file only costs a
+ * recalibration.
+ */
+export class VADCalibrationFileStore implements VADCalibrationStore {
+  private filePath: string;
+  private calibrations: Record<string, VADCalibration>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.calibrations = this.load();
+  }
+
+  get(deviceId: string): VADCalibration | null {
+    return this.calibrations[deviceId] ?? null;
+  }
+
+  save(deviceId: string, calibration: VADCalibration): void {
+    this.calibrations[deviceId] = calibration;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.calibrations), 'utf-8');
+    } catch (error) {
+      console.error('[vad-calibration] Failed to save calibration:', error);
+    }
+  }
+
+  private load(): Record<string, VADCalibration> {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return {};
+      }
+
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      const calibrations: Record<string, VADCalibration> = {};
+      for (const [deviceId, calibration] of Object.entries(raw ?? {})) {
+        if (isVADCalibration(calibration)) {
+          calibrations[deviceId] = calibration;
+        } else {
+          console.warn(`[vad-calibration] Ignoring malformed calibration for ${deviceId}`);
+        }
+      }
+      return calibrations;
+    } catch (error) {
+      console.error('[vad-calibration] Failed to load calibrations:', error);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { VoiceProfile } from '../core/audio/voice-profile';
+
+function isVoiceProfile(value: unknown): value is VoiceProfile {
+  const profile = value as VoiceProfile;
+  return (
+    !!profile &&
+    Array.isArray(profile.embedding) &&
+    profile.embedding.every((entry) => typeof entry === 'number') &&
+    typeof profile.model === 'string' &&
+    typeof profile.createdAt === 'number'
+  );
+}
+
+/**
+ * Keeps the enrolled voice print in a JSON file under userData. It is only
+ * ever read locally; a missing or unreadable file means "not enrolled".
+ */
+export class VoiceProfileStore {
+  private filePath: string;
+  private profile: VoiceProfile | null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.profile = this.load();
+  }
+
+  getProfile(): VoiceProfile | null {
+    return this.profile;
+  }
+
+  save(profile: VoiceProfile): void {
+    this.profile = profile;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(profile), 'utf-8');
+  }
+
+  clear(): void {
+    this.profile = null;
+    fs.rmSync(this.filePath, { force: true });
+  }
+
+  private load(): VoiceProfile | null {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return null;
+      }
+
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      if (!isVoiceProfile(raw)) {
+        console.warn('[voice-profile] Ignoring malformed voice profile');
+        return null;
+      }
+      return raw;
+    } catch (error) {
+      console.error('[voice-profile] Failed to load voice profile:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import type { BrowserWindow } from 'electron';
+import type { SessionEvent, SessionSink } from '../core/session-sink';
+
+// The renderer adds system audio itself when its audio source setting asks for it
+const CAPTURE_REQUEST = {
+  sources: ['microphone'],
+  sampleRate: 16000,
+  channels: 1,
+};
+
+/**
+ * Forwards session events to the app windows over IPC: transcripts to the
+ * main and transcript windows, suggestions to the companion window (and the
+ * main window), and capture start/stop to the main window's renderer.
+ */
+export class WindowSessionSink implements SessionSink {
+  private mainWindow: BrowserWindow | null = null;
+  private companionWindow: BrowserWindow | null = null;
+  private transcriptWindow: BrowserWindow | null = null;
+
+  setWindows(
+    mainWindow: BrowserWindow | null,
+    companionWindow: BrowserWindow | null,
+    transcriptWindow?: BrowserWindow | null
+  ): void {
+    this.mainWindow = mainWindow;
+    this.companionWindow = companionWindow;
+    this.transcriptWindow = transcriptWindow ?? null;
+  }
+
+  handle(event: SessionEvent): void {
+    switch (event.type) {
+      case 'transcript':
+        if (event.phase === 'partial') {
+          this.send([this.transcriptWindow, this.mainWindow], 'transcription-partial', event.partial);
+        } else {
+          this.send([this.transcriptWindow, this.mainWindow], 'transcriptions-update', event.transcripts);
+        }
+        break;
+      case 'suggestion':
+        switch (event.phase) {
+          case 'final':
+            this.send([this.companionWindow, this.mainWindow], 'suggestions-update', event.record.suggestions);
+            break;
+          case 'cleared':
+            this.send([this.companionWindow, this.mainWindow], 'suggestions-update', []);
+            break;
+          case 'partial':
+            this.send([this.companionWindow], 'suggestions-partial', event.suggestions);
+            break;
+          case 'cancelled':
+            this.send([this.companionWindow], 'suggestions-cancelled', { reason: event.reason });
+            break;
+        }
+        break;
+      case 'status':
+        if (event.change === 'started') {
+          this.send([this.mainWindow], 'start-audio-capture', CAPTURE_REQUEST);
+          console.log('[session] Sent start-audio-capture signal to renderer');
+        } else if (event.change === 'paused' || event.change === 'stopped') {
+          this.send([this.mainWindow], 'stop-audio-capture');
+          console.log('[session] Sent stop-audio-capture signal to renderer');
+        }
+        this.send([this.mainWindow], 'session-status', event.status);
+        break;
+      case 'error':
+        this.send([this.mainWindow], 'error', event.message);
+        break;
+      case 'metrics':
+        if (event.metrics.stage === 'recording') {
+          const { fileName, processedSeconds, durationSeconds } = event.metrics;
+          this.send([this.mainWindow], 'recording-progress', { fileName, processedSeconds, durationSeconds });
+        }
+        break;
+    }
+  }
+
+  private send(windows: Array<BrowserWindow | null>, channel: string, ...args: unknown[]): void {
+    for (const window of windows) {
+      if (window && !window.isDestroyed()) {
+        window.webContents.send(channel, ...args);
+      }
+    }
+  }
+}
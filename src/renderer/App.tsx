@@ -17,6 +17,15 @@ declare global {
       on: (channel: string, callback: (...args: any[]) => void) => void;
       removeListener: (channel: string, callback: (...args: any[]) => void) => void;
       send: (channel: string, data: any) => void;
+      sendAudioFrame: (frame: {
+        source: 'microphone' | 'system';
+        sequence: number;
+        timestamp: number;
+        sampleRate: number;
+        channels: number;
+        samples: ArrayBuffer;
+        peak?: number;
+      }) => void;
     };
   }
 }
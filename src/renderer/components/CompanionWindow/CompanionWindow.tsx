@@ -6,14 +6,42 @@ interface Suggestion {
   useCase?: string;
 }
 
+interface SuggestionsCancelledPayload {
+  reason: 'superseded' | 'latency-target' | 'session-stopped' | 'session-paused';
+}
+
+const CANCELLATION_MESSAGES: Record<SuggestionsCancelledPayload['reason'], string | null> = {
+  superseded: 'Updating for the latest question...',
+  'latency-target': 'Suggestions took too long and were skipped.',
+  'session-stopped': null,
+  'session-paused': 'Paused by voice command.',
+};
+
 const CompanionWindow: React.FC = () => {
   const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
 
   useEffect(() => {
     // Listen for suggestions from main process
     if (window.electronAPI) {
+      // Partial suggestions arrive token-by-token until the final update replaces them
+      window.electronAPI.on('suggestions-partial', (data: Suggestion[]) => {
+        setSuggestions(data);
+        setIsStreaming(true);
+        setNotice(null);
+      });
+
       window.electronAPI.on('suggestions-update', (data: Suggestion[]) => {
         setSuggestions(data);
+        setIsStreaming(false);
+        setNotice(null);
+      });
+
+      // Stale or slow generations are dropped in the main process; explain why
+      window.electronAPI.on('suggestions-cancelled', (data: SuggestionsCancelledPayload) => {
+        setIsStreaming(false);
+        setNotice(CANCELLATION_MESSAGES[data?.reason] ?? null);
       });
     }
   }, []);
@@ -21,16 +49,17 @@ const CompanionWindow: React.FC = () => {
   if (suggestions.length === 0) {
     return (
       <div className="companion-window">
-        <div className="companion-placeholder">AI Consul Ready</div>
+        <div className="companion-placeholder">{notice ?? 'AI Consul Ready'}</div>
       </div>
     );
   }
 
   return (
     <div className="companion-window">
+      {notice && <div className="companion-notice">{notice}</div>}
       <div className="suggestions-container">
         {suggestions.map((suggestion, index) => (
-          <div key={index} className="suggestion-item">
+          <div key={index} className={`suggestion-item${isStreaming ? ' streaming' : ''}`}>
             {suggestion.text}
           </div>
         ))}
@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppStore } from '../../stores/app-state';
+import './LocalApi.css';
+
+// Mirrors getLocalApiInfo in main/main.ts
+interface LocalApiInfo {
+  enabled: boolean;
+  port: number;
+  running: boolean;
+  token: string | null;
+  error: string | null;
+}
+
+/**
+ * Turns the localhost API on and off and shows the address and token other
+ * tools need to connect.
+ */
+const LocalApi: React.FC = () => {
+  const { localApi, localApiPort, setLocalApi, setLocalApiPort } = useAppStore();
+  const [info, setInfo] = useState<LocalApiInfo | null>(null);
+  const [portDraft, setPortDraft] = useState(String(localApiPort));
+  const [copied, setCopied] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setInfo(((await window.electronAPI?.invoke('get-local-api')) as LocalApiInfo | undefined) ?? null);
+    } catch (error) {
+      console.error('Failed to load local API status:', error);
+    }
+  }, []);
+
+  // The main process applies the change before answering
+  useEffect(() => {
+    void refresh();
+  }, [refresh, localApi, localApiPort]);
+
+  useEffect(() => {
+    setPortDraft(String(localApiPort));
+  }, [localApiPort]);
+
+  const commitPort = useCallback(() => {
+    const port = Number(portDraft);
+    if (Number.isInteger(port) && port >= 1024 && port <= 65535) {
+      if (port !== localApiPort) {
+        setLocalApiPort(port);
+      }
+    } else {
+      setPortDraft(String(localApiPort));
+    }
+  }, [portDraft, localApiPort, setLocalApiPort]);
+
+  const regenerateToken = useCallback(async () => {
+    setCopied(false);
+    const result = (await window.electronAPI?.invoke('regenerate-local-api-token')) as LocalApiInfo | undefined;
+    setInfo(result ?? null);
+  }, []);
+
+  const copyToken = useCallback(async () => {
+    if (!info?.token) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(info.token);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy token:', error);
+    }
+  }, [info]);
+
+  return (
+    <div className="local-api">
+      <label className="settings-checkbox">
+        <input type="checkbox" checked={localApi} onChange={(e) => setLocalApi(e.target.checked)} />
+        Local API Server
+      </label>
+
+      <label className="local-api-port">
+        Port
+        <input
+          type="number"
+          min={1024}
+          max={65535}
+          value={portDraft}
+          onChange={(e) => setPortDraft(e.target.value)}
+          onBlur={commitPort}
+        />
+      </label>
+
+      {localApi && info?.running && info.token && (
+        <div className="local-api-details">
+          <code className="local-api-value">http://127.0.0.1:{info.port}/api</code>
+          <code className="local-api-value">ws://127.0.0.1:{info.port}/api/events</code>
+          <div className="local-api-token">
+            <input type="text" readOnly value={info.token} aria-label="API token" />
+            <button className="btn btn-secondary" type="button" onClick={() => void copyToken()}>
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button className="btn btn-secondary" type="button" onClick={() => void regenerateToken()}>
+              Regenerate
+            </button>
+          </div>
+        </div>
+      )}
+      {localApi && info?.error && <div className="local-api-status error">{info.error}</div>}
+    </div>
+  );
+};
+
+export default LocalApi;
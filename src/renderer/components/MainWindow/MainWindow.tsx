@@ -1,11 +1,30 @@
 import React, { useState, useEffect, useRef } from 'react';
 import './MainWindow.css';
-import { AudioCaptureManager, AudioChunk } from '../../utils/audio-capture';
+import { AudioCaptureManager, AudioChunk, CaptureSource } from '../../utils/audio-capture';
 import { useAppStore } from '../../stores/app-state';
+import { RECORDING_FILE_TYPES, decodeRecording } from '../../utils/audio-file';
+import { formatVoiceCommand } from '../../utils/voice-commands';
 
 interface SessionStatus {
   isActive: boolean;
   mode?: string;
+  // False while a voice command has paused listening
+  listening?: boolean;
+  // True while a recorded file is being processed
+  recording?: boolean;
+}
+
+interface RecordingProgress {
+  fileName: string;
+  processedSeconds: number;
+  durationSeconds: number;
+}
+
+interface ProcessRecordingResponse {
+  success?: boolean;
+  canceled?: boolean;
+  error?: string;
+  transcripts?: number;
 }
 
 interface SessionManagerReadyPayload {
@@ -22,8 +41,26 @@ interface AudioCaptureConfig {
   sampleRate?: number;
   channels?: number;
   deviceId?: string;
+  systemSourceId?: string;
 }
 
+// Languages the prompt library supports; 'auto' lets Whisper detect each segment
+const LANGUAGE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'it', label: 'Italian' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'ru', label: 'Russian' },
+  { value: 'zh', label: 'Chinese' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'ko', label: 'Korean' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'ar', label: 'Arabic' },
+];
+
 const getErrorMessage = (error: unknown): string => {
   if (error instanceof Error) {
     return error.message;
@@ -37,11 +74,15 @@ const getErrorMessage = (error: unknown): string => {
 const MainWindow: React.FC = () => {
   const [sessionStatus, setSessionStatus] = useState<SessionStatus>({ isActive: false });
   const [selectedMode, setSelectedMode] = useState<string>('job_interviews');
+  const [selectedLanguage, setSelectedLanguage] = useState<string>('auto');
   const [error, setError] = useState<string | null>(null);
   const [isReady, setIsReady] = useState<boolean>(false);
-  const { selectedMicrophoneId, setMicrophones } = useAppStore((state) => ({
+  const [recordingStatus, setRecordingStatus] = useState<string | null>(null);
+  const recordingInputRef = useRef<HTMLInputElement | null>(null);
+  const { selectedMicrophoneId, setMicrophones, voiceCommandPhrases } = useAppStore((state) => ({
     selectedMicrophoneId: state.selectedMicrophoneId,
     setMicrophones: state.setMicrophones,
+    voiceCommandPhrases: state.voiceCommandPhrases,
   }));
   const selectedMicrophoneRef = useRef<string>(selectedMicrophoneId);
 
@@ -53,30 +94,26 @@ const MainWindow: React.FC = () => {
     // Initialize audio manager
     const manager = new AudioCaptureManager();
 
+    // Frames are numbered per source and capture so main can detect drops and reordering
+    let audioSequences: Record<CaptureSource, number> = { microphone: 0, system: 0 };
+
     // Set up audio chunk handler
     manager.on('audio-chunk', (chunk: AudioChunk) => {
-      console.log('[renderer] Audio chunk received from manager:', {
-        dataLength: chunk.data.length,
-        sampleRate: chunk.sampleRate,
-        maxAmplitude: Math.max(...Array.from(chunk.data)),
-        avgAmplitude: chunk.data.reduce((sum, val) => sum + Math.abs(val), 0) / chunk.data.length,
-        timestamp: chunk.timestamp
-      });
-
-      // Send audio chunk to main process for processing
-      if (window.electronAPI) {
-        // Convert Float32Array to regular array for IPC
-        const chunkData = {
-          data: Array.from(chunk.data),
-          sampleRate: chunk.sampleRate,
-          channels: chunk.channels,
-          timestamp: chunk.timestamp,
-        };
-        console.log('[renderer] Sending audio chunk to main process');
-        window.electronAPI.send('audio-chunk', chunkData);
-      } else {
+      if (!window.electronAPI) {
         console.error('[renderer] window.electronAPI not available for sending audio chunk');
+        return;
       }
+
+      // The buffer is transferred to main and must not be used afterwards
+      window.electronAPI.sendAudioFrame({
+        source: chunk.source,
+        sequence: audioSequences[chunk.source]++,
+        timestamp: chunk.timestamp,
+        sampleRate: chunk.sampleRate,
+        channels: chunk.channels,
+        samples: chunk.data.buffer as ArrayBuffer,
+        peak: chunk.peak,
+      });
     });
 
     // Listen for session status updates
@@ -88,6 +125,11 @@ const MainWindow: React.FC = () => {
         setSessionStatus(status);
       });
 
+      window.electronAPI.on('recording-progress', (progress: RecordingProgress) => {
+        const percent = Math.round((progress.processedSeconds / progress.durationSeconds) * 100);
+        setRecordingStatus(`Processing ${progress.fileName}: ${percent}%`);
+      });
+
       window.electronAPI.on('error', (err: string) => {
         setError(err);
         setTimeout(() => setError(null), 5000);
@@ -141,11 +183,17 @@ const MainWindow: React.FC = () => {
       window.electronAPI.on('start-audio-capture', async (config: AudioCaptureConfig) => {
         console.log('[renderer] Received start-audio-capture event with config:', config);
         try {
+          const { audioSource, systemAudioSourceId } = useAppStore.getState();
+          const sources: AudioCaptureConfig['sources'] =
+            audioSource === 'full-system-audio' ? ['microphone', 'system-audio'] : config.sources;
           const captureConfig = {
             ...config,
+            sources,
             deviceId: selectedMicrophoneRef.current,
+            systemSourceId: systemAudioSourceId || undefined,
           };
           console.log('[renderer] Starting audio capture with config:', captureConfig);
+          audioSequences = { microphone: 0, system: 0 };
           await manager.startCapture(captureConfig);
           console.log('[renderer] Audio capture started successfully');
         } catch (err: unknown) {
@@ -228,6 +276,8 @@ const MainWindow: React.FC = () => {
       setError(null);
       const config = {
         mode: selectedMode,
+        language: selectedLanguage,
+        microphoneId: selectedMicrophoneRef.current,
         context: {
           documents: [], // Can be extended to allow file upload
         },
@@ -250,6 +300,39 @@ const MainWindow: React.FC = () => {
     }
   };
 
+  const handleRecordingSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !window.electronAPI) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setRecordingStatus(`Decoding ${file.name}...`);
+      const { samples, sampleRate } = await decodeRecording(file);
+
+      const result = (await window.electronAPI.invoke('process-recording', {
+        config: { mode: selectedMode, language: selectedLanguage },
+        fileName: file.name,
+        samples,
+        sampleRate,
+      })) as ProcessRecordingResponse;
+
+      if (result?.success) {
+        setRecordingStatus(`${file.name} processed (${result.transcripts ?? 0} transcripts) and saved`);
+      } else if (result?.canceled) {
+        setRecordingStatus(null);
+      } else {
+        throw new Error(result?.error || 'Failed to process recording');
+      }
+    } catch (err: unknown) {
+      console.error('[renderer] Error processing recording:', err);
+      setRecordingStatus(null);
+      setError(getErrorMessage(err) || 'Failed to process recording');
+    }
+  };
+
   const handleStopSession = async () => {
     if (!window.electronAPI) {
       return;
@@ -313,23 +396,57 @@ const MainWindow: React.FC = () => {
             </select>
           </div>
 
+          <div className="mode-selector">
+            <label htmlFor="language-select">Conversation Language:</label>
+            <select
+              id="language-select"
+              value={selectedLanguage}
+              onChange={(e) => setSelectedLanguage(e.target.value)}
+              disabled={sessionStatus.isActive}
+            >
+              {LANGUAGE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="button-group">
             {!sessionStatus.isActive ? (
-              <button
-                className="btn btn-primary"
-                onClick={handleStartSession}
-                disabled={!isReady}
-              >
-                {isReady ? '▶ Start Session' : '⏳ Initializing...'}
-              </button>
-            ) : (
               <>
+                <button
+                  className="btn btn-primary"
+                  onClick={handleStartSession}
+                  disabled={!isReady}
+                >
+                  {isReady ? '▶ Start Session' : '⏳ Initializing...'}
+                </button>
                 <button
                   className="btn btn-secondary"
-                  onClick={handlePauseSession}
+                  onClick={() => recordingInputRef.current?.click()}
+                  disabled={!isReady}
                 >
-                  ⏸ Pause
+                  📂 Transcribe Recording
                 </button>
+                <input
+                  ref={recordingInputRef}
+                  type="file"
+                  accept={RECORDING_FILE_TYPES}
+                  style={{ display: 'none' }}
+                  onChange={handleRecordingSelected}
+                />
+              </>
+            ) : (
+              <>
+                {!sessionStatus.recording && (
+                  <button
+                    className="btn btn-secondary"
+                    onClick={handlePauseSession}
+                  >
+                    ⏸ Pause
+                  </button>
+                )}
                 <button
                   className="btn btn-danger"
                   onClick={handleStopSession}
@@ -340,10 +457,18 @@ const MainWindow: React.FC = () => {
             )}
           </div>
 
+          {recordingStatus && <div className="recording-status">{recordingStatus}</div>}
+
           {sessionStatus.isActive && (
             <div className="session-status">
-              <div className="status-indicator active"></div>
-              <span>Session active - {sessionStatus.mode?.replace('_', ' ')}</span>
+              <div className={sessionStatus.listening === false ? 'status-indicator' : 'status-indicator active'}></div>
+              <span>
+                {sessionStatus.listening === false
+                  ? voiceCommandPhrases
+                    ? `Paused by voice command - say "${formatVoiceCommand(voiceCommandPhrases.resume)}" to resume`
+                    : 'Paused by voice command'
+                  : `Session active - ${sessionStatus.mode?.replace('_', ' ')}`}
+              </span>
             </div>
           )}
         </div>
@@ -0,0 +1,183 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import './ModelLibrary.css';
+
+// Mirrors ModelInfo and ModelDownloadProgress in core/models/manager.ts
+interface ModelInfo {
+  id: string;
+  purpose: 'transcription' | 'vad' | 'keywords' | 'speaker-embedding' | null;
+  required: boolean;
+  status: 'installed' | 'incomplete' | 'missing';
+  sizeBytes: number;
+}
+
+interface ModelDownloadProgress {
+  model: string;
+  file: string;
+  fileIndex: number;
+  fileCount: number;
+  loadedBytes: number;
+  totalBytes: number | null;
+}
+
+interface ModelVerification {
+  model: string;
+  ok: boolean;
+  missingFiles: string[];
+  corruptFiles: string[];
+}
+
+type LibraryStatus = 'idle' | 'busy' | 'success' | 'error';
+
+const PURPOSE_LABELS: Record<NonNullable<ModelInfo['purpose']>, string> = {
+  transcription: 'Transcription',
+  vad: 'Speech detection',
+  keywords: 'Keywords',
+  'speaker-embedding': 'Speaker recognition',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * Lists the local models the current settings need, downloads missing ones
+ * ahead of a session and imports model bundles for offline machines.
+ */
+const ModelLibrary: React.FC = () => {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [progress, setProgress] = useState<ModelDownloadProgress | null>(null);
+  const [status, setStatus] = useState<LibraryStatus>('idle');
+  const [message, setMessage] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = (await window.electronAPI?.invoke('list-models')) as ModelInfo[] | undefined;
+      setModels(result ?? []);
+    } catch (error) {
+      console.error('Failed to list models:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+
+    const handleProgress = (update: ModelDownloadProgress) => setProgress(update);
+    window.electronAPI?.on('model-download-progress', handleProgress);
+    return () => {
+      window.electronAPI?.removeListener('model-download-progress', handleProgress);
+    };
+  }, [refresh]);
+
+  const downloadMissing = useCallback(async () => {
+    setStatus('busy');
+    setMessage('Downloading models...');
+    const result = (await window.electronAPI?.invoke('download-models')) as
+      | { success: boolean; error?: string; models: ModelInfo[] }
+      | undefined;
+    setProgress(null);
+    if (result) {
+      setModels(result.models);
+    }
+    if (result?.success) {
+      setStatus('success');
+      setMessage('All required models are installed.');
+    } else {
+      setStatus('error');
+      setMessage(result?.error || 'Model download failed');
+    }
+  }, []);
+
+  const verifyInstalled = useCallback(async () => {
+    setStatus('busy');
+    setMessage('Verifying checksums...');
+    const results = ((await window.electronAPI?.invoke('verify-models')) ?? []) as ModelVerification[];
+    const failed = results.filter((result) => !result.ok);
+    await refresh();
+    if (failed.length === 0) {
+      setStatus('success');
+      setMessage('Installed models passed verification.');
+    } else {
+      setStatus('error');
+      setMessage(
+        `Damaged files were removed from ${failed.map((result) => result.model).join(', ')}. Download them again.`
+      );
+    }
+  }, [refresh]);
+
+  const importBundle = useCallback(async () => {
+    const result = (await window.electronAPI?.invoke('import-model-bundle')) as
+      | { success: boolean; canceled?: boolean; imported?: string[]; error?: string }
+      | undefined;
+    if (!result || result.canceled) {
+      return;
+    }
+    await refresh();
+    if (result.success) {
+      setStatus('success');
+      setMessage(`Imported ${result.imported?.join(', ')}.`);
+    } else {
+      setStatus('error');
+      setMessage(result.error || 'Model bundle import failed');
+    }
+  }, [refresh]);
+
+  const hasMissing = models.some((model) => model.required && model.status !== 'installed');
+
+  return (
+    <div className="model-library">
+      <ul className="model-library-list">
+        {models.map((model) => (
+          <li key={model.id} className={`model-library-item ${model.status}`}>
+            <span className="model-library-name">{model.id}</span>
+            <span className="model-library-meta">
+              {model.purpose ? PURPOSE_LABELS[model.purpose] : 'Not used'} ·{' '}
+              {model.status === 'installed' ? formatSize(model.sizeBytes) : model.status}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="model-library-controls">
+        <button
+          className="btn"
+          type="button"
+          onClick={() => void downloadMissing()}
+          disabled={status === 'busy' || !hasMissing}
+        >
+          ⬇ Download Missing
+        </button>
+        <button
+          className="btn btn-secondary"
+          type="button"
+          onClick={() => void verifyInstalled()}
+          disabled={status === 'busy'}
+        >
+          Verify
+        </button>
+        <button
+          className="btn btn-secondary"
+          type="button"
+          onClick={() => void importBundle()}
+          disabled={status === 'busy'}
+        >
+          Import Bundle…
+        </button>
+      </div>
+
+      {progress && (
+        <div className="model-library-status busy">
+          {progress.model}: file {progress.fileIndex + 1} of {progress.fileCount}
+          {progress.totalBytes
+            ? ` (${Math.round((progress.loadedBytes / progress.totalBytes) * 100)}%)`
+            : ` (${formatSize(progress.loadedBytes)})`}
+        </div>
+      )}
+      {message && !progress && <div className={`model-library-status ${status}`}>{message}</div>}
+    </div>
+  );
+};
+
+export default ModelLibrary;
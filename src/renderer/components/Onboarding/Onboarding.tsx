@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../../stores/app-state';
 import OllamaCheck from './OllamaCheck';
+import VoiceEnrollment from '../VoiceEnrollment/VoiceEnrollment';
 import './Onboarding.css';
 
-type Step = 'welcome' | 'audio' | 'privacy' | 'performance' | 'ollama' | 'complete';
+type Step = 'welcome' | 'audio' | 'voice' | 'privacy' | 'performance' | 'ollama' | 'complete';
 
 const Onboarding: React.FC = () => {
   const [step, setStep] = useState<Step>('welcome');
@@ -81,7 +82,22 @@ const Onboarding: React.FC = () => {
             </div>
             <div className="button-group">
               <button onClick={() => setStep('welcome')}>Back</button>
-              <button onClick={() => setStep('privacy')}>Next</button>
+              <button onClick={() => setStep('voice')}>Next</button>
+            </div>
+          </div>
+        )}
+
+        {step === 'voice' && (
+          <div className="onboarding-step">
+            <h2>Voice Enrollment</h2>
+            <p>
+              Record a short sample so AI Consul can tell your voice apart from other people in the
+              conversation. The voice print is stored only on this device.
+            </p>
+            <VoiceEnrollment onEnrolled={() => setStep('privacy')} />
+            <div className="button-group">
+              <button onClick={() => setStep('audio')}>Back</button>
+              <button onClick={() => setStep('privacy')}>Skip</button>
             </div>
           </div>
         )}
@@ -111,7 +127,7 @@ const Onboarding: React.FC = () => {
               </label>
             </div>
             <div className="button-group">
-              <button onClick={() => setStep('audio')}>Back</button>
+              <button onClick={() => setStep('voice')}>Back</button>
               <button onClick={() => setStep('performance')}>Next</button>
             </div>
           </div>
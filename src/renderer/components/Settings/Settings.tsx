@@ -1,5 +1,9 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { useAppStore } from '../../stores/app-state';
+import VoiceEnrollment from '../VoiceEnrollment/VoiceEnrollment';
+import ModelLibrary from '../ModelLibrary/ModelLibrary';
+import LocalApi from '../LocalApi/LocalApi';
+import { formatVoiceCommand } from '../../utils/voice-commands';
 import './Settings.css';
 
 const Settings: React.FC = () => {
@@ -14,8 +18,19 @@ const Settings: React.FC = () => {
     selectedMicrophoneId,
     setMicrophones,
     setSelectedMicrophone,
+    systemAudioSourceId,
+    setSystemAudioSource,
+    customVocabulary,
+    setCustomVocabulary,
+    voiceCommands,
+    voiceCommandPhrases,
+    setVoiceCommands,
+    strictOffline,
+    setStrictOffline,
   } = useAppStore();
+  const [vocabularyDraft, setVocabularyDraft] = useState(customVocabulary.join('\n'));
   const [isOpen, setIsOpen] = useState(false);
+  const [desktopSources, setDesktopSources] = useState<Array<{ id: string; name: string }>>([]);
   const [micTestStatus, setMicTestStatus] = useState<'idle' | 'recording' | 'playing' | 'success' | 'error'>('idle');
   const [micTestMessage, setMicTestMessage] = useState<string>('');
   const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
@@ -198,6 +213,24 @@ const Settings: React.FC = () => {
     };
   }, []);
 
+  const refreshDesktopSources = useCallback(async () => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    try {
+      setDesktopSources(await window.electronAPI.getDesktopSources());
+    } catch (error) {
+      console.error('Failed to list desktop sources:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen && audioSource === 'full-system-audio') {
+      refreshDesktopSources();
+    }
+  }, [isOpen, audioSource, refreshDesktopSources]);
+
   return (
     <div className="settings-container">
       <button
@@ -245,6 +278,31 @@ const Settings: React.FC = () => {
             </select>
           </div>
 
+          {audioSource === 'full-system-audio' && (
+            <div className="settings-section">
+              <label>System Audio Source</label>
+              <div className="microphone-select">
+                <select
+                  value={systemAudioSourceId}
+                  onChange={(e) => setSystemAudioSource(e.target.value)}
+                >
+                  <option value="">Entire Screen</option>
+                  {desktopSources.map((source) => (
+                    <option key={source.id} value={source.id}>
+                      {source.name}
+                    </option>
+                  ))}
+                </select>
+                <button className="btn btn-small" onClick={refreshDesktopSources} type="button">
+                  ↻
+                </button>
+              </div>
+              <small className="settings-hint">
+                Audio from the selected screen or window is captured alongside your microphone.
+              </small>
+            </div>
+          )}
+
           <div className="settings-section">
             <label>Microphone</label>
             <div className="microphone-select">
@@ -307,6 +365,77 @@ const Settings: React.FC = () => {
               </div>
             )}
           </div>
+
+          <div className="settings-section">
+            <label htmlFor="custom-vocabulary">Custom Vocabulary</label>
+            <textarea
+              id="custom-vocabulary"
+              className="settings-textarea"
+              rows={4}
+              placeholder={'One name or term per line, e.g.\nSiobhan\nKubernetes'}
+              value={vocabularyDraft}
+              onChange={(e) => setVocabularyDraft(e.target.value)}
+              onBlur={() => setCustomVocabulary(vocabularyDraft.split(/[\n,]/))}
+            />
+            <small className="settings-hint">
+              Helps transcription spell names and jargon. Participants, skills and terms from loaded
+              documents are added automatically.
+            </small>
+          </div>
+
+          <div className="settings-section">
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={voiceCommands}
+                onChange={(e) => setVoiceCommands(e.target.checked)}
+              />
+              Voice Commands
+            </label>
+            <small className="settings-hint">
+              {voiceCommandPhrases
+                ? `Say "${formatVoiceCommand(voiceCommandPhrases.pause)}" to pause, ` +
+                  `"${formatVoiceCommand(voiceCommandPhrases.resume)}" to resume, ` +
+                  `"${formatVoiceCommand(voiceCommandPhrases.regenerate)}" for new suggestions and ` +
+                  `"${formatVoiceCommand(voiceCommandPhrases.bookmark)}" to bookmark the transcript. `
+                : 'Spoken phrases pause and resume listening, ask for new suggestions and bookmark the transcript. '}
+              Commands must be said on their own.
+            </small>
+          </div>
+
+          <div className="settings-section">
+            <label>Models</label>
+            <ModelLibrary />
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={strictOffline}
+                onChange={(e) => setStrictOffline(e.target.checked)}
+              />
+              Strict Offline Mode
+            </label>
+            <small className="settings-hint">
+              Never connect to the network: models load only from this device and cloud services are
+              turned off. Download or import the models above first.
+            </small>
+          </div>
+
+          <div className="settings-section">
+            <label>Integrations</label>
+            <LocalApi />
+            <small className="settings-hint">
+              Lets tools on this computer follow transcripts and suggestions and start or stop
+              sessions. Only local connections that present the token are accepted.
+            </small>
+          </div>
+
+          <div className="settings-section">
+            <label>Voice Enrollment</label>
+            <VoiceEnrollment />
+            <small className="settings-hint">
+              A voice print lets AI Consul tell your speech apart from others. It stays on this device.
+            </small>
+          </div>
         </div>
       )}
     </div>
@@ -1,11 +1,55 @@
 import React, { useEffect, useState } from 'react';
 import './TranscriptionWindow.css';
 
+type Speaker = 'user' | 'other' | 'system';
+
+interface TranscribedWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence: number | null;
+}
+
 interface TranscriptEntry {
   text: string;
   timestamp: number;
+  speaker?: Speaker;
+  speakerId?: string;
+  speakerLabel?: string;
+  // Seconds from session start
+  start?: number;
+  end?: number;
+  confidence?: number | null;
+  words?: TranscribedWord[] | null;
+  // ISO 639-1 code, e.g. 'fr'
+  language?: string | null;
+  bookmarked?: boolean;
+}
+
+type CaptureSource = 'microphone' | 'system';
+
+// Interim text for speech that is still in progress; empty text clears it
+interface PartialTranscript {
+  source: CaptureSource;
+  text: string;
+  timestamp: number;
 }
 
+const SPEAKER_LABELS: Record<Speaker, string> = {
+  user: 'You',
+  other: 'Other',
+  system: 'System',
+};
+
+// Words below this probability are highlighted as uncertain
+const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+const formatOffset = (seconds: number): string => {
+  const whole = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${String(whole % 60).padStart(2, '0')}`;
+};
+
 const formatTimestamp = (value: number): string => {
   try {
     return new Date(value).toLocaleTimeString();
@@ -17,6 +61,9 @@ const formatTimestamp = (value: number): string => {
 
 const TranscriptionWindow: React.FC = () => {
   const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const [partials, setPartials] = useState<Partial<Record<CaptureSource, PartialTranscript>>>({});
+  const [editingSpeakerId, setEditingSpeakerId] = useState<string | null>(null);
+  const [speakerDraft, setSpeakerDraft] = useState('');
 
   useEffect(() => {
     if (!window.electronAPI) {
@@ -25,36 +72,186 @@ const TranscriptionWindow: React.FC = () => {
 
     const handleUpdate = (data: TranscriptEntry[]) => {
       setEntries(data);
+      if (data.length === 0) {
+        setPartials({});
+      }
+    };
+
+    const handlePartial = (partial: PartialTranscript) => {
+      setPartials((current) => {
+        const next = { ...current };
+        if (partial.text) {
+          next[partial.source] = partial;
+        } else {
+          delete next[partial.source];
+        }
+        return next;
+      });
     };
 
     window.electronAPI.on('transcriptions-update', handleUpdate);
+    window.electronAPI.on('transcription-partial', handlePartial);
 
     return () => {
       window.electronAPI?.removeListener?.('transcriptions-update', handleUpdate);
+      window.electronAPI?.removeListener?.('transcription-partial', handlePartial);
     };
   }, []);
 
+  const startRename = (entry: TranscriptEntry) => {
+    if (!entry.speakerId) {
+      return;
+    }
+    setEditingSpeakerId(entry.speakerId);
+    setSpeakerDraft(entry.speakerLabel ?? entry.speakerId);
+  };
+
+  const commitRename = () => {
+    const label = speakerDraft.trim();
+    if (editingSpeakerId && label) {
+      window.electronAPI?.send('rename-speaker', { speakerId: editingSpeakerId, label });
+    }
+    setEditingSpeakerId(null);
+  };
+
+  const renderSpeaker = (entry: TranscriptEntry) => {
+    const speaker = entry.speaker ?? 'user';
+
+    // Diarized speakers can be renamed in place
+    if (!entry.speakerId) {
+      return (
+        <span className={`transcription-speaker speaker-${speaker}`}>
+          {SPEAKER_LABELS[speaker]}
+        </span>
+      );
+    }
+
+    if (editingSpeakerId === entry.speakerId) {
+      return (
+        <input
+          className="transcription-speaker-input"
+          aria-label={`Rename ${entry.speakerId}`}
+          value={speakerDraft}
+          autoFocus
+          onChange={(event) => setSpeakerDraft(event.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              commitRename();
+            } else if (event.key === 'Escape') {
+              setEditingSpeakerId(null);
+            }
+          }}
+        />
+      );
+    }
+
+    return (
+      <button
+        type="button"
+        className="transcription-speaker speaker-diarized"
+        title="Rename speaker"
+        onClick={() => startRename(entry)}
+      >
+        {entry.speakerLabel ?? entry.speakerId}
+      </button>
+    );
+  };
+
+  const renderText = (entry: TranscriptEntry) => {
+    if (!entry.words || entry.words.length === 0) {
+      return <p className="transcription-text">{entry.text}</p>;
+    }
+
+    return (
+      <p className="transcription-text">
+        {entry.words.map((word, index) => {
+          const uncertain = word.confidence !== null && word.confidence < LOW_CONFIDENCE_THRESHOLD;
+          return (
+            <React.Fragment key={`${word.start}-${index}`}>
+              {index > 0 && ' '}
+              <span
+                className={uncertain ? 'transcription-word low-confidence' : 'transcription-word'}
+                title={
+                  word.confidence !== null
+                    ? `${formatOffset(word.start)} · ${Math.round(word.confidence * 100)}% confidence`
+                    : formatOffset(word.start)
+                }
+              >
+                {word.text}
+              </span>
+            </React.Fragment>
+          );
+        })}
+      </p>
+    );
+  };
+
+  const activePartials = Object.values(partials).filter(
+    (partial): partial is PartialTranscript => !!partial
+  );
+
   return (
     <div className="transcription-window">
       <header className="transcription-header">
         <h2>Live Transcript</h2>
-        <p className="transcription-subtitle">Monitor how AI Consul hears your speech.</p>
+        <p className="transcription-subtitle">Monitor how AI Consul hears the conversation.</p>
       </header>
       <div className="transcription-body">
-        {entries.length === 0 ? (
+        {entries.length === 0 && activePartials.length === 0 ? (
           <div className="transcription-placeholder">
             Waiting for microphone input...
           </div>
         ) : (
           entries.map((entry, index) => (
-            <article key={`${entry.timestamp}-${index}`} className="transcription-entry">
-              <time className="transcription-time" dateTime={new Date(entry.timestamp).toISOString()}>
-                {formatTimestamp(entry.timestamp)}
-              </time>
-              <p className="transcription-text">{entry.text}</p>
+            <article
+              key={`${entry.timestamp}-${index}`}
+              className={entry.bookmarked ? 'transcription-entry bookmarked' : 'transcription-entry'}
+            >
+              <div className="transcription-meta">
+                {renderSpeaker(entry)}
+                {entry.bookmarked && (
+                  <span className="transcription-bookmark" title="Bookmarked">
+                    ★
+                  </span>
+                )}
+                <time className="transcription-time" dateTime={new Date(entry.timestamp).toISOString()}>
+                  {formatTimestamp(entry.timestamp)}
+                </time>
+                {entry.language && (
+                  <span className="transcription-language">{entry.language.toUpperCase()}</span>
+                )}
+                {typeof entry.start === 'number' && typeof entry.end === 'number' && (
+                  <span className="transcription-offset">
+                    {formatOffset(entry.start)}–{formatOffset(entry.end)}
+                  </span>
+                )}
+                {typeof entry.confidence === 'number' && (
+                  <span
+                    className={
+                      entry.confidence < LOW_CONFIDENCE_THRESHOLD
+                        ? 'transcription-confidence low-confidence'
+                        : 'transcription-confidence'
+                    }
+                  >
+                    {Math.round(entry.confidence * 100)}%
+                  </span>
+                )}
+              </div>
+              {renderText(entry)}
             </article>
           ))
         )}
+        {activePartials.map((partial) => (
+          <article key={`partial-${partial.source}`} className="transcription-entry partial">
+            <div className="transcription-meta">
+              <span className="transcription-speaker speaker-partial">
+                {partial.source === 'system' ? 'Other' : 'Mic'} · speaking
+              </span>
+            </div>
+            <p className="transcription-text partial">{partial.text}</p>
+          </article>
+        ))}
       </div>
     </div>
   );
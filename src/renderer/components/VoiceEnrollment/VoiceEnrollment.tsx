@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppStore } from '../../stores/app-state';
+import { AudioCaptureManager, AudioChunk } from '../../utils/audio-capture';
+import './VoiceEnrollment.css';
+
+const ENROLLMENT_SECONDS = 10;
+const ENROLLMENT_SAMPLE_RATE = 16000;
+
+const ENROLLMENT_SCRIPT =
+  'Read this aloud in your normal voice: "I am setting up AI Consul so it can recognise ' +
+  'my voice. It will help me during meetings, interviews and conversations, and keep ' +
+  'everything on this device."';
+
+type EnrollmentStatus = 'idle' | 'recording' | 'processing' | 'enrolled' | 'error';
+
+interface VoiceProfileStatus {
+  enrolled: boolean;
+  createdAt: number | null;
+}
+
+interface EnrollmentResult {
+  success: boolean;
+  createdAt?: number;
+  error?: string;
+}
+
+interface VoiceEnrollmentProps {
+  onEnrolled?: () => void;
+}
+
+/**
+ * Records a short sample of the user's voice and asks main to turn it into a
+ * voice print, which is stored locally and used to tell the user apart from
+ * other speakers.
+ */
+const VoiceEnrollment: React.FC<VoiceEnrollmentProps> = ({ onEnrolled }) => {
+  const selectedMicrophoneId = useAppStore((state) => state.selectedMicrophoneId);
+  const [status, setStatus] = useState<EnrollmentStatus>('idle');
+  const [message, setMessage] = useState('');
+  const [enrolledAt, setEnrolledAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(ENROLLMENT_SECONDS);
+  const captureRef = useRef<AudioCaptureManager | null>(null);
+  const chunksRef = useRef<Float32Array[]>([]);
+  const timerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    window.electronAPI
+      .invoke('get-voice-profile')
+      .then((result) => {
+        const profile = result as VoiceProfileStatus;
+        if (profile?.enrolled) {
+          setEnrolledAt(profile.createdAt);
+          setStatus('enrolled');
+        }
+      })
+      .catch((error) => console.error('Failed to load voice profile status:', error));
+  }, []);
+
+  const stopRecording = useCallback(async () => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const capture = captureRef.current;
+    captureRef.current = null;
+    if (capture) {
+      await capture.stopCapture();
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      void stopRecording();
+    };
+  }, [stopRecording]);
+
+  const submitRecording = useCallback(async () => {
+    await stopRecording();
+
+    const chunks = chunksRef.current;
+    chunksRef.current = [];
+    const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const samples = new Float32Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    setStatus('processing');
+    setMessage('Creating your voice print...');
+
+    try {
+      const result = (await window.electronAPI?.invoke('enroll-voice', {
+        samples,
+        sampleRate: ENROLLMENT_SAMPLE_RATE,
+      })) as EnrollmentResult | undefined;
+
+      if (!result?.success) {
+        throw new Error(result?.error || 'Voice enrollment failed');
+      }
+
+      setEnrolledAt(result.createdAt ?? Date.now());
+      setStatus('enrolled');
+      setMessage('Your voice is enrolled. AI Consul will now recognise you.');
+      onEnrolled?.();
+    } catch (error) {
+      console.error('Voice enrollment failed:', error);
+      setStatus('error');
+      setMessage(error instanceof Error ? error.message : 'Voice enrollment failed');
+    }
+  }, [onEnrolled, stopRecording]);
+
+  const startRecording = useCallback(async () => {
+    const capture = new AudioCaptureManager();
+    captureRef.current = capture;
+    chunksRef.current = [];
+
+    capture.on('audio-chunk', (...args: unknown[]) => {
+      const chunk = args[0] as AudioChunk;
+      chunksRef.current.push(new Float32Array(chunk.data));
+    });
+
+    try {
+      await capture.startCapture({
+        sources: ['microphone'],
+        sampleRate: ENROLLMENT_SAMPLE_RATE,
+        channels: 1,
+        deviceId: selectedMicrophoneId === 'default' ? undefined : selectedMicrophoneId,
+      });
+    } catch (error) {
+      console.error('Failed to start voice enrollment recording:', error);
+      captureRef.current = null;
+      setStatus('error');
+      setMessage('Unable to access the microphone. Check permissions and try again.');
+      return;
+    }
+
+    setStatus('recording');
+    setMessage(ENROLLMENT_SCRIPT);
+    setSecondsLeft(ENROLLMENT_SECONDS);
+
+    const startedAt = Date.now();
+    timerRef.current = window.setInterval(() => {
+      const remaining = ENROLLMENT_SECONDS - Math.floor((Date.now() - startedAt) / 1000);
+      setSecondsLeft(Math.max(remaining, 0));
+      if (remaining <= 0) {
+        void submitRecording();
+      }
+    }, 250);
+  }, [selectedMicrophoneId, submitRecording]);
+
+  const clearProfile = useCallback(async () => {
+    try {
+      await window.electronAPI?.invoke('clear-voice-profile');
+      setEnrolledAt(null);
+      setStatus('idle');
+      setMessage('Voice print removed.');
+    } catch (error) {
+      console.error('Failed to remove voice profile:', error);
+    }
+  }, []);
+
+  return (
+    <div className="voice-enrollment">
+      <div className="voice-enrollment-controls">
+        {status === 'recording' ? (
+          <button className="btn" type="button" onClick={() => void submitRecording()}>
+            ⏹ Finish ({secondsLeft}s)
+          </button>
+        ) : (
+          <button
+            className="btn"
+            type="button"
+            onClick={() => void startRecording()}
+            disabled={status === 'processing'}
+          >
+            {status === 'enrolled' ? '🎙 Re-record Voice' : '🎙 Enroll My Voice'}
+          </button>
+        )}
+
+        {status === 'enrolled' && (
+          <button className="btn btn-secondary" type="button" onClick={() => void clearProfile()}>
+            Remove
+          </button>
+        )}
+      </div>
+
+      {status === 'enrolled' && enrolledAt !== null && !message && (
+        <div className="voice-enrollment-status enrolled">
+          Enrolled on {new Date(enrolledAt).toLocaleDateString()}
+        </div>
+      )}
+      {message && <div className={`voice-enrollment-status ${status}`}>{message}</div>}
+    </div>
+  );
+};
+
+export default VoiceEnrollment;
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import type { VoiceCommandPhrases } from '../utils/voice-commands';
 
 interface AppState {
   isOnboardingComplete: boolean;
@@ -7,8 +8,21 @@ interface AppState {
   performanceTier: 'basic' | 'standard' | 'pro' | 'auto-detected';
   ollamaConnected: boolean;
   ollamaModel: string;
+  // Names and jargon transcription should favour
+  customVocabulary: string[];
+  // Hands-free session control
+  voiceCommands: boolean;
+  // Configured command phrases from main; null until loaded
+  voiceCommandPhrases: VoiceCommandPhrases | null;
+  // Models load from the local cache only and cloud services are off
+  strictOffline: boolean;
+  // Localhost HTTP/WebSocket API for other tools
+  localApi: boolean;
+  localApiPort: number;
   microphones: MediaDeviceInfo[];
   selectedMicrophoneId: string;
+  // desktopCapturer source used for system audio; '' captures the primary screen
+  systemAudioSourceId: string;
   initialize: () => Promise<void>;
   completeOnboarding: (config: {
     audioSource: 'mic-only' | 'full-system-audio';
@@ -22,17 +36,53 @@ interface AppState {
   setPerformanceTier: (tier: 'basic' | 'standard' | 'pro' | 'auto-detected') => void;
   setMicrophones: (devices: MediaDeviceInfo[]) => void;
   setSelectedMicrophone: (deviceId: string) => void;
+  setSystemAudioSource: (sourceId: string) => void;
+  setCustomVocabulary: (terms: string[]) => void;
+  setVoiceCommands: (enabled: boolean) => void;
+  setStrictOffline: (enabled: boolean) => void;
+  setLocalApi: (enabled: boolean) => void;
+  setLocalApiPort: (port: number) => void;
 }
 
-export const useAppStore = create<AppState>((set) => ({
+// Mirrors DEFAULT_LOCAL_API_PORT in main/settings.ts
+const DEFAULT_LOCAL_API_PORT = 7849;
+
+type EngineSettings = Partial<
+  Pick<
+    AppState,
+    | 'audioSource'
+    | 'privacyMode'
+    | 'performanceTier'
+    | 'ollamaModel'
+    | 'customVocabulary'
+    | 'voiceCommands'
+    | 'strictOffline'
+    | 'localApi'
+    | 'localApiPort'
+  >
+>;
+
+// Forward engine-relevant settings to the main process so the running engine is reconfigured
+const syncSettingsToMain = (settings: EngineSettings) => {
+  window.electronAPI?.send('update-settings', settings);
+};
+
+export const useAppStore = create<AppState>((set, get) => ({
   isOnboardingComplete: false,
   audioSource: 'mic-only',
   privacyMode: 'local-first',
   performanceTier: 'auto-detected',
   ollamaConnected: false,
   ollamaModel: 'llama3:8b',
+  customVocabulary: [],
+  voiceCommands: false,
+  voiceCommandPhrases: null,
+  strictOffline: false,
+  localApi: false,
+  localApiPort: DEFAULT_LOCAL_API_PORT,
   microphones: [],
   selectedMicrophoneId: 'default',
+  systemAudioSourceId: '',
 
   initialize: async () => {
     // Load saved state from localStorage or config file
@@ -47,12 +97,40 @@ export const useAppStore = create<AppState>((set) => ({
           performanceTier: config.performanceTier || 'auto-detected',
           ollamaConnected: config.ollamaConnected || false,
           ollamaModel: config.ollamaModel || 'llama3:8b',
+          customVocabulary: config.customVocabulary || [],
+          voiceCommands: config.voiceCommands || false,
+          strictOffline: config.strictOffline || false,
+          localApi: config.localApi || false,
+          localApiPort: config.localApiPort || DEFAULT_LOCAL_API_PORT,
           selectedMicrophoneId: config.selectedMicrophoneId || 'default',
+          systemAudioSourceId: config.systemAudioSourceId || '',
+        });
+        syncSettingsToMain({
+          audioSource: config.audioSource || 'mic-only',
+          privacyMode: config.privacyMode || 'local-first',
+          performanceTier: config.performanceTier || 'auto-detected',
+          ollamaModel: config.ollamaModel || 'llama3:8b',
+          customVocabulary: config.customVocabulary || [],
+          voiceCommands: config.voiceCommands || false,
+          strictOffline: config.strictOffline || false,
+          localApi: config.localApi || false,
+          localApiPort: config.localApiPort || DEFAULT_LOCAL_API_PORT,
         });
       } catch (e) {
         console.error('Failed to load config:', e);
       }
     }
+
+    try {
+      const settings = (await window.electronAPI?.invoke('get-settings')) as
+        | { voiceCommandPhrases?: VoiceCommandPhrases }
+        | undefined;
+      if (settings?.voiceCommandPhrases) {
+        set({ voiceCommandPhrases: settings.voiceCommandPhrases });
+      }
+    } catch (e) {
+      console.error('Failed to load voice command phrases:', e);
+    }
   },
 
   completeOnboarding: (config) => {
@@ -62,13 +140,30 @@ export const useAppStore = create<AppState>((set) => ({
       privacyMode: config.privacyMode,
       performanceTier: config.performanceTier,
       selectedMicrophoneId: config.selectedMicrophoneId || 'default',
+      ollamaModel: get().ollamaModel,
     };
     set(state);
     localStorage.setItem('ai-consul-config', JSON.stringify(state));
+    syncSettingsToMain({
+      audioSource: state.audioSource,
+      privacyMode: state.privacyMode,
+      performanceTier: state.performanceTier,
+      ollamaModel: state.ollamaModel,
+    });
   },
 
   setOllamaStatus: (connected, model) => {
-    set({ ollamaConnected: connected, ollamaModel: model || 'llama3:8b' });
+    const ollamaModel = model || 'llama3:8b';
+    set({ ollamaConnected: connected, ollamaModel });
+    const saved = localStorage.getItem('ai-consul-config');
+    try {
+      const config = saved ? JSON.parse(saved) : {};
+      config.ollamaModel = ollamaModel;
+      localStorage.setItem('ai-consul-config', JSON.stringify(config));
+    } catch (e) {
+      console.error('Failed to save Ollama model:', e);
+    }
+    syncSettingsToMain({ ollamaModel });
   },
 
   setAudioSource: (source) => {
@@ -84,6 +179,7 @@ export const useAppStore = create<AppState>((set) => ({
         console.error('Failed to save audio source:', e);
       }
     }
+    syncSettingsToMain({ audioSource: source });
   },
 
   setPrivacyMode: (mode) => {
@@ -99,6 +195,7 @@ export const useAppStore = create<AppState>((set) => ({
         console.error('Failed to save privacy mode:', e);
       }
     }
+    syncSettingsToMain({ privacyMode: mode });
   },
 
   setPerformanceTier: (tier) => {
@@ -114,6 +211,7 @@ export const useAppStore = create<AppState>((set) => ({
         console.error('Failed to save performance tier:', e);
       }
     }
+    syncSettingsToMain({ performanceTier: tier });
   },
 
   setMicrophones: (devices) => {
@@ -133,5 +231,84 @@ export const useAppStore = create<AppState>((set) => ({
       }
     }
   },
-}));
 
+  setSystemAudioSource: (sourceId) => {
+    set({ systemAudioSourceId: sourceId });
+    const saved = localStorage.getItem('ai-consul-config');
+    if (saved) {
+      try {
+        const config = JSON.parse(saved);
+        config.systemAudioSourceId = sourceId;
+        localStorage.setItem('ai-consul-config', JSON.stringify(config));
+      } catch (e) {
+        console.error('Failed to save system audio source:', e);
+      }
+    }
+  },
+
+  setCustomVocabulary: (terms) => {
+    const customVocabulary = terms.map((term) => term.trim()).filter(Boolean);
+    set({ customVocabulary });
+    const saved = localStorage.getItem('ai-consul-config');
+    try {
+      const config = saved ? JSON.parse(saved) : {};
+      config.customVocabulary = customVocabulary;
+      localStorage.setItem('ai-consul-config', JSON.stringify(config));
+    } catch (e) {
+      console.error('Failed to save custom vocabulary:', e);
+    }
+    syncSettingsToMain({ customVocabulary });
+  },
+
+  setVoiceCommands: (enabled) => {
+    set({ voiceCommands: enabled });
+    const saved = localStorage.getItem('ai-consul-config');
+    try {
+      const config = saved ? JSON.parse(saved) : {};
+      config.voiceCommands = enabled;
+      localStorage.setItem('ai-consul-config', JSON.stringify(config));
+    } catch (e) {
+      console.error('Failed to save voice command setting:', e);
+    }
+    syncSettingsToMain({ voiceCommands: enabled });
+  },
+
+  setStrictOffline: (enabled) => {
+    set({ strictOffline: enabled });
+    const saved = localStorage.getItem('ai-consul-config');
+    try {
+      const config = saved ? JSON.parse(saved) : {};
+      config.strictOffline = enabled;
+      localStorage.setItem('ai-consul-config', JSON.stringify(config));
+    } catch (e) {
+      console.error('Failed to save strict offline setting:', e);
+    }
+    syncSettingsToMain({ strictOffline: enabled });
+  },
+
+  setLocalApi: (enabled) => {
+    set({ localApi: enabled });
+    const saved = localStorage.getItem('ai-consul-config');
+    try {
+      const config = saved ? JSON.parse(saved) : {};
+      config.localApi = enabled;
+      localStorage.setItem('ai-consul-config', JSON.stringify(config));
+    } catch (e) {
+      console.error('Failed to save local API setting:', e);
+    }
+    syncSettingsToMain({ localApi: enabled });
+  },
+
+  setLocalApiPort: (port) => {
+    set({ localApiPort: port });
+    const saved = localStorage.getItem('ai-consul-config');
+    try {
+      const config = saved ? JSON.parse(saved) : {};
+      config.localApiPort = port;
+      localStorage.setItem('ai-consul-config', JSON.stringify(config));
+    } catch (e) {
+      console.error('Failed to save local API port:', e);
+    }
+    syncSettingsToMain({ localApiPort: port });
+  },
+}));
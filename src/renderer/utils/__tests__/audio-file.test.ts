@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { downmixChannels } from '../audio-file';
+
+describe('downmixChannels', () => {
+  it('returns a mono channel unchanged', () => {
+    const mono = new Float32Array([0.1, -0.2]);
+    expect(downmixChannels([mono])).toBe(mono);
+  });
+
+  it('averages stereo channels', () => {
+    const left = new Float32Array([1, 0.5, 0]);
+    const right = new Float32Array([0, 0.5, -1]);
+    expect(Array.from(downmixChannels([left, right]))).toEqual([0.5, 0.5, -0.5]);
+  });
+});
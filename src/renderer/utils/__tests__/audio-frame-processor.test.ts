@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFrameProcessor } from '../audio-frame-processor';
+
+const RENDER_QUANTUM = 128;
+
+function feed(processor: AudioFrameProcessor, channels: Float32Array[]) {
+  const frames = [];
+  for (let offset = 0; offset < channels[0].length; offset += RENDER_QUANTUM) {
+    const block = channels.map((channel) => channel.subarray(offset, offset + RENDER_QUANTUM));
+    frames.push(...processor.process(block));
+  }
+  return frames;
+}
+
+describe('AudioFrameProcessor', () => {
+  it('emits fixed-size frames once enough input has arrived', () => {
+    const processor = new AudioFrameProcessor({
+      inputSampleRate: 16000,
+      targetSampleRate: 16000,
+      frameSize: 300,
+    });
+
+    const frames = feed(processor, [new Float32Array(RENDER_QUANTUM * 5).fill(0.5)]);
+
+    expect(frames).toHaveLength(2);
+    frames.forEach((frame) => expect(frame.samples).toHaveLength(300));
+  });
+
+  it('downsamples 48 kHz input to 16 kHz', () => {
+    const processor = new AudioFrameProcessor({
+      inputSampleRate: 48000,
+      targetSampleRate: 16000,
+      frameSize: 160,
+    });
+
+    // 30 ms at 48 kHz yields 480 samples at 16 kHz
+    const frames = feed(processor, [new Float32Array(48 * 30).fill(0.25)]);
+    const total = frames.reduce((sum, frame) => sum + frame.samples.length, 0);
+
+    expect(total).toBe(480);
+    expect(frames[frames.length - 1].samples.every((value) => value === 0.25)).toBe(true);
+  });
+
+  it('interpolates across render quantum boundaries', () => {
+    const processor = new AudioFrameProcessor({
+      inputSampleRate: 32000,
+      targetSampleRate: 16000,
+      frameSize: 256,
+    });
+    const ramp = new Float32Array(RENDER_QUANTUM * 4).map((_, index) => index / 1000);
+
+    const [frame] = feed(processor, [ramp]);
+    const steps = Array.from(frame.samples.subarray(2)).map(
+      (value, index) => value - frame.samples[index + 1]
+    );
+
+    steps.forEach((step) => expect(step).toBeCloseTo(0.002, 6));
+  });
+
+  it('downmixes multiple channels and measures levels', () => {
+    const processor = new AudioFrameProcessor({
+      inputSampleRate: 16000,
+      targetSampleRate: 16000,
+      frameSize: RENDER_QUANTUM,
+    });
+    const left = new Float32Array(RENDER_QUANTUM * 2).fill(0.8);
+    const right = new Float32Array(RENDER_QUANTUM * 2).fill(-0.4);
+
+    const frames = feed(processor, [left, right]);
+    const frame = frames[frames.length - 1];
+
+    expect(frame.samples.every((value) => Math.abs(value - 0.2) < 1e-6)).toBe(true);
+    expect(frame.peak).toBeCloseTo(0.2, 6);
+    expect(frame.rms).toBeCloseTo(0.2, 6);
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { formatVoiceCommand } from '../voice-commands';
+
+describe('formatVoiceCommand', () => {
+  it('addresses the app with the first keyword', () => {
+    expect(formatVoiceCommand(['marvin', 'go'])).toBe('Marvin, go');
+    expect(formatVoiceCommand(['sheila', 'stop', 'now'])).toBe('Sheila, stop now');
+  });
+
+  it('handles single-word and empty sequences', () => {
+    expect(formatVoiceCommand(['learn'])).toBe('Learn');
+    expect(formatVoiceCommand([])).toBe('');
+  });
+});
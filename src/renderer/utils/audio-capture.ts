@@ -1,3 +1,7 @@
+import captureWorkletUrl from './capture-worklet?worker&url';
+import { CAPTURE_PROCESSOR_NAME } from './audio-frame-processor';
+import type { CaptureFrameMessage, CaptureProcessorOptions } from './capture-worklet';
+
 type Listener = (...args: unknown[]) => void;
 
 // Simple EventEmitter implementation for browser
@@ -29,119 +33,190 @@ class EventEmitter {
   }
 }
 
+// Origin of a captured stream; each source is captured and framed separately
+export type CaptureSource = 'microphone' | 'system';
+
 export interface AudioChunk {
+  source: CaptureSource;
   data: Float32Array;
   sampleRate: number;
   channels: number;
   timestamp: number;
+  // Levels are measured in the worklet so consumers need not rescan the samples
+  peak: number;
+  rms: number;
+}
+
+export interface AudioCaptureOptions {
+  sources?: ('microphone' | 'system-audio')[];
+  sampleRate?: number;
+  channels?: number;
+  deviceId?: string;
+  // desktopCapturer source id (screen or window); defaults to the first screen
+  systemSourceId?: string;
+  frameSize?: number;
+}
+
+interface SourcePipeline {
+  stream: MediaStream;
+  sourceNode: MediaStreamAudioSourceNode;
+  workletNode: AudioWorkletNode;
+}
+
+// Electron-specific getUserMedia constraints for desktop capture
+interface DesktopCaptureConstraints {
+  mandatory: {
+    chromeMediaSource: 'desktop';
+    chromeMediaSourceId: string;
+  };
 }
 
+// 4096 samples at 16 kHz (~256 ms) matches the chunk length the VAD is tuned for
+const DEFAULT_FRAME_SIZE = 4096;
+
+/**
+ * Captures microphone and/or desktop (loopback) audio through AudioWorklets.
+ * Downmixing, resampling to the requested rate and level metering happen on
+ * the audio rendering thread; each source gets its own worklet and the
+ * manager re-emits the finished frames as `audio-chunk` events tagged with
+ * their source. A failing system source does not stop microphone capture and
+ * is reported as a `source-error` event instead.
+ */
 export class AudioCaptureManager extends EventEmitter {
-  private mediaStream: MediaStream | null = null;
   private audioContext: AudioContext | null = null;
-  private sourceNode: MediaStreamAudioSourceNode | null = null;
-  private processorNode: ScriptProcessorNode | null = null;
+  private pipelines = new Map<CaptureSource, SourcePipeline>();
   private isCapturing = false;
   private sampleRate = 16000;
-  private channels = 1;
+  private frameSize = DEFAULT_FRAME_SIZE;
   private deviceId: string | undefined;
 
-  async startCapture(options: {
-    sources?: ('microphone' | 'system-audio')[];
-    sampleRate?: number;
-    channels?: number;
-    deviceId?: string;
-  } = {}): Promise<void> {
+  async startCapture(options: AudioCaptureOptions = {}): Promise<void> {
     if (this.isCapturing) {
       return;
     }
 
     const sources = options.sources || ['microphone'];
     this.sampleRate = options.sampleRate || 16000;
-    this.channels = options.channels || 1;
+    this.frameSize = options.frameSize || DEFAULT_FRAME_SIZE;
     this.deviceId = options.deviceId || undefined;
 
     try {
-      // For microphone, use getUserMedia
-      if (sources.includes('microphone')) {
-        const audioConstraints: MediaTrackConstraints = {
-          sampleRate: this.sampleRate,
-          channelCount: this.channels,
-          echoCancellation: true,
-          noiseSuppression: true,
-        };
-
-        if (this.deviceId && this.deviceId !== 'default') {
-          audioConstraints.deviceId = { exact: this.deviceId };
-        }
+      // Run the context at the device rate; the worklets resample to this.sampleRate
+      this.audioContext = new AudioContext();
+      await this.audioContext.audioWorklet.addModule(captureWorkletUrl);
 
-        const stream = await navigator.mediaDevices.getUserMedia({
-          audio: audioConstraints,
-        });
-
-        this.setupAudioProcessing(stream);
+      if (sources.includes('microphone')) {
+        const stream = await this.getMicrophoneStream(options.channels || 1);
+        this.addSource('microphone', stream);
       }
 
-      // For system audio, we need to use desktopCapturer (handled in main process)
-      // This will be implemented separately via IPC
+      if (sources.includes('system-audio')) {
+        try {
+          const stream = await this.getSystemAudioStream(options.systemSourceId);
+          this.addSource('system', stream);
+        } catch (error) {
+          if (this.pipelines.size === 0) {
+            throw error;
+          }
+          console.warn('System audio capture unavailable, continuing with microphone only:', error);
+          this.emit('source-error', 'system', error);
+        }
+      }
 
       this.isCapturing = true;
     } catch (error) {
       console.error('Failed to start audio capture:', error);
+      await this.teardown();
       throw error;
     }
   }
 
-  private setupAudioProcessing(stream: MediaStream): void {
-    this.mediaStream = stream;
-    this.audioContext = new AudioContext({ sampleRate: this.sampleRate });
-    // Update actual sample rate in case the browser chooses a different value
-    if (this.audioContext.sampleRate && this.audioContext.sampleRate !== this.sampleRate) {
-      this.sampleRate = this.audioContext.sampleRate;
+  private async getMicrophoneStream(channelCount: number): Promise<MediaStream> {
+    const audioConstraints: MediaTrackConstraints = {
+      channelCount,
+      echoCancellation: true,
+      noiseSuppression: true,
+    };
+
+    if (this.deviceId && this.deviceId !== 'default') {
+      audioConstraints.deviceId = { exact: this.deviceId };
     }
-    this.sourceNode = this.audioContext.createMediaStreamSource(stream);
-
-    // Create script processor for chunking (deprecated but works)
-    // In production, use AudioWorklet for better performance
-    const bufferSize = 4096;
-    this.processorNode = this.audioContext.createScriptProcessor(
-      bufferSize,
-      this.channels,
-      this.channels
-    );
-
-    this.processorNode.onaudioprocess = (event) => {
-      if (!this.isCapturing) return;
 
-      const inputBuffer = event.inputBuffer;
-      const channelData = inputBuffer.getChannelData(0);
-      const float32Array = new Float32Array(channelData.length);
-      float32Array.set(channelData);
+    return navigator.mediaDevices.getUserMedia({
+      audio: audioConstraints,
+    });
+  }
+
+  private async getSystemAudioStream(sourceId?: string): Promise<MediaStream> {
+    const chromeMediaSourceId = sourceId || (await this.getDefaultScreenSourceId());
+    const desktopConstraints: DesktopCaptureConstraints = {
+      mandatory: {
+        chromeMediaSource: 'desktop',
+        chromeMediaSourceId,
+      },
+    };
 
-      // Debug logging for audio processing
-      const maxAmplitude = Math.max(...Array.from(float32Array));
-      const avgAmplitude = float32Array.reduce((sum, val) => sum + Math.abs(val), 0) / float32Array.length;
+    // Chromium only grants desktop audio together with a video track
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: desktopConstraints as MediaTrackConstraints,
+      video: desktopConstraints as MediaTrackConstraints,
+    });
 
-      console.log('[audio-capture] onaudioprocess fired:', {
-        bufferLength: float32Array.length,
-        maxAmplitude: maxAmplitude,
-        avgAmplitude: avgAmplitude,
-        sampleRate: this.audioContext.sampleRate,
-        isCapturing: this.isCapturing
-      });
+    stream.getVideoTracks().forEach((track) => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+
+    if (stream.getAudioTracks().length === 0) {
+      throw new Error('Selected desktop source does not provide an audio track');
+    }
+
+    return stream;
+  }
+
+  private async getDefaultScreenSourceId(): Promise<string> {
+    const sources = (await window.electronAPI?.getDesktopSources()) ?? [];
+    const screen = sources.find((source) => source.id.startsWith('screen:')) ?? sources[0];
+    if (!screen) {
+      throw new Error('No desktop sources available for system audio capture');
+    }
+    return screen.id;
+  }
+
+  private addSource(source: CaptureSource, stream: MediaStream): void {
+    if (!this.audioContext) {
+      throw new Error('Audio context is not initialized');
+    }
+
+    const sourceNode = this.audioContext.createMediaStreamSource(stream);
+    const processorOptions: CaptureProcessorOptions = {
+      targetSampleRate: this.sampleRate,
+      frameSize: this.frameSize,
+    };
+    const workletNode = new AudioWorkletNode(this.audioContext, CAPTURE_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions,
+    });
+
+    workletNode.port.onmessage = (event: MessageEvent<CaptureFrameMessage>) => {
+      if (!this.isCapturing) return;
 
       const chunk: AudioChunk = {
-        data: float32Array,
-        sampleRate: this.audioContext.sampleRate,
-        channels: this.channels,
+        source,
+        data: event.data.samples,
+        sampleRate: this.sampleRate,
+        channels: 1,
         timestamp: Date.now(),
+        peak: event.data.peak,
+        rms: event.data.rms,
       };
 
       this.emit('audio-chunk', chunk);
     };
 
-    this.sourceNode.connect(this.processorNode);
-    this.processorNode.connect(this.audioContext.destination);
+    sourceNode.connect(workletNode);
+    this.pipelines.set(source, { stream, sourceNode, workletNode });
   }
 
   async stopCapture(): Promise<void> {
@@ -150,26 +225,26 @@ export class AudioCaptureManager extends EventEmitter {
     }
 
     this.isCapturing = false;
+    await this.teardown();
+  }
 
-    if (this.processorNode) {
-      this.processorNode.disconnect();
-      this.processorNode = null;
-    }
-
-    if (this.sourceNode) {
-      this.sourceNode.disconnect();
-      this.sourceNode = null;
-    }
+  private async teardown(): Promise<void> {
+    this.pipelines.forEach(({ stream, sourceNode, workletNode }) => {
+      workletNode.port.onmessage = null;
+      workletNode.disconnect();
+      sourceNode.disconnect();
+      stream.getTracks().forEach((track) => track.stop());
+    });
+    this.pipelines.clear();
 
     if (this.audioContext) {
       await this.audioContext.close();
       this.audioContext = null;
     }
+  }
 
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach((track) => track.stop());
-      this.mediaStream = null;
-    }
+  getActiveSources(): CaptureSource[] {
+    return Array.from(this.pipelines.keys());
   }
 
   getIsCapturing(): boolean {
@@ -0,0 +1,43 @@
+// Formats Chromium's decoder handles and the import dialog offers
+export const RECORDING_FILE_TYPES = '.wav,.mp3,.ogg,.oga,.webm,audio/wav,audio/mpeg,audio/ogg,audio/webm';
+
+export interface DecodedRecording {
+  // Mono samples at `sampleRate`
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export function downmixChannels(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+
+  const length = Math.min(...channels.map((channel) => channel.length));
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i];
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    mono[i] /= channels.length;
+  }
+  return mono;
+}
+
+/**
+ * Decodes a WAV, MP3, OGG or WebM file with the browser's audio decoder and
+ * mixes it down to mono. Main resamples it to the pipeline rate.
+ */
+export async function decodeRecording(file: Blob): Promise<DecodedRecording> {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+      buffer.getChannelData(index)
+    );
+    return { samples: downmixChannels(channels), sampleRate: buffer.sampleRate };
+  } finally {
+    void context.close();
+  }
+}
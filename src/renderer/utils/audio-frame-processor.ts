@@ -0,0 +1,118 @@
+// Name the capture worklet registers under; shared so the page side never imports the worklet module
+export const CAPTURE_PROCESSOR_NAME = 'capture-processor';
+
+export interface CapturedFrame {
+  samples: Float32Array;
+  peak: number;
+  rms: number;
+}
+
+export interface FrameProcessorOptions {
+  inputSampleRate: number;
+  targetSampleRate: number;
+  frameSize: number;
+}
+
+/**
+ * Turns the 128-sample render quanta of an AudioWorklet into fixed-size mono
+ * frames at the target sample rate. Kept free of Web Audio globals so it can
+ * run inside the worklet and be unit tested in Node.
+ */
+export class AudioFrameProcessor {
+  private readonly ratio: number;
+  private readonly frameSize: number;
+  private frame: Float32Array;
+  private frameLength = 0;
+  // Fractional read position into the next input block, carried across calls
+  private position = 0;
+  private previousSample = 0;
+
+  constructor(options: FrameProcessorOptions) {
+    this.ratio = options.inputSampleRate / options.targetSampleRate;
+    this.frameSize = options.frameSize;
+    this.frame = new Float32Array(this.frameSize);
+  }
+
+  /**
+   * Consumes one block of per-channel input and returns any frames that were
+   * completed by it.
+   */
+  process(channels: Float32Array[]): CapturedFrame[] {
+    if (channels.length === 0 || channels[0].length === 0) {
+      return [];
+    }
+
+    const mono = this.downmix(channels);
+    const frames: CapturedFrame[] = [];
+
+    // Linear interpolation between the previous block's last sample (index -1)
+    // and the current block
+    while (this.position < mono.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const current = index === 0 ? this.previousSample : mono[index - 1];
+      const next = mono[index];
+      const sample = current + (next - current) * fraction;
+
+      this.frame[this.frameLength++] = sample;
+      if (this.frameLength === this.frameSize) {
+        frames.push(this.flush());
+      }
+
+      this.position += this.ratio;
+    }
+
+    this.position -= mono.length;
+    this.previousSample = mono[mono.length - 1];
+    return frames;
+  }
+
+  reset(): void {
+    this.frame = new Float32Array(this.frameSize);
+    this.frameLength = 0;
+    this.position = 0;
+    this.previousSample = 0;
+  }
+
+  private downmix(channels: Float32Array[]): Float32Array {
+    if (channels.length === 1) {
+      return channels[0];
+    }
+
+    const length = channels[0].length;
+    const mono = new Float32Array(length);
+    for (const channel of channels) {
+      for (let i = 0; i < length; i++) {
+        mono[i] += channel[i];
+      }
+    }
+    for (let i = 0; i < length; i++) {
+      mono[i] /= channels.length;
+    }
+    return mono;
+  }
+
+  private flush(): CapturedFrame {
+    const samples = this.frame;
+    let peak = 0;
+    let sumSquares = 0;
+
+    for (let i = 0; i < samples.length; i++) {
+      const value = samples[i];
+      const magnitude = Math.abs(value);
+      if (magnitude > peak) {
+        peak = magnitude;
+      }
+      sumSquares += value * value;
+    }
+
+    this.frame = new Float32Array(this.frameSize);
+    this.frameLength = 0;
+
+    return {
+      samples,
+      peak,
+      rms: Math.sqrt(sumSquares / samples.length),
+    };
+  }
+}
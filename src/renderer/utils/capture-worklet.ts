@@ -0,0 +1,47 @@
+import { AudioFrameProcessor, CAPTURE_PROCESSOR_NAME } from './audio-frame-processor';
+
+// AudioWorkletGlobalScope is not part of the DOM lib typings
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: unknown });
+}
+
+export interface CaptureProcessorOptions {
+  targetSampleRate: number;
+  frameSize: number;
+}
+
+// Message posted to the node for every completed frame; `samples` is transferred
+export interface CaptureFrameMessage {
+  samples: Float32Array;
+  peak: number;
+  rms: number;
+}
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private frames: AudioFrameProcessor;
+
+  constructor(options: { processorOptions: CaptureProcessorOptions }) {
+    super(options);
+    this.frames = new AudioFrameProcessor({
+      inputSampleRate: sampleRate,
+      targetSampleRate: options.processorOptions.targetSampleRate,
+      frameSize: options.processorOptions.frameSize,
+    });
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    if (input && input.length > 0) {
+      for (const frame of this.frames.process(input)) {
+        const message: CaptureFrameMessage = frame;
+        this.port.postMessage(message, [frame.samples.buffer]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, CaptureProcessor);
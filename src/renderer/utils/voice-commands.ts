@@ -0,0 +1,15 @@
+// Mirrors VoiceCommandAction in core/audio/voice-commands.ts
+export type VoiceCommandAction = 'pause' | 'resume' | 'regenerate' | 'bookmark';
+
+// Keyword sequence for each action, as returned by `get-settings`
+export type VoiceCommandPhrases = Record<VoiceCommandAction, string[]>;
+
+/**
+ * Writes a keyword sequence the way it is spoken: the first word addresses
+ * the app, so ['marvin', 'go'] becomes "Marvin, go".
+ */
+export function formatVoiceCommand(words: string[]): string {
+  const [first = '', ...rest] = words;
+  const lead = first.charAt(0).toUpperCase() + first.slice(1);
+  return rest.length > 0 ? `${lead}, ${rest.join(' ')}` : lead;
+}